@@ -0,0 +1,312 @@
+-- Brings a database created from the init schema up to the current one. The
+-- new required columns are added as nullable, backfilled from the existing
+-- rows and only then made NOT NULL, so this runs on databases that have data.
+
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'Moderator';
+ALTER TYPE "Role" ADD VALUE 'Admin';
+
+-- Exact reduced fraction ("42", "-1/3") of a stored float, the way the app
+-- parses a JSON number: through its shortest decimal representation
+CREATE FUNCTION "pg_temp"."exact_fraction"(value DOUBLE PRECISION) RETURNS TEXT AS $$
+DECLARE
+  exact NUMERIC := value::TEXT::NUMERIC;
+  denominator NUMERIC := power(10::NUMERIC, scale(value::TEXT::NUMERIC));
+  numerator NUMERIC := trunc(exact * denominator);
+  divisor NUMERIC := gcd(numerator, denominator);
+BEGIN
+  IF denominator / divisor = 1 THEN
+    RETURN trunc(numerator / divisor)::TEXT;
+  END IF;
+  RETURN trunc(numerator / divisor)::TEXT || '/' || trunc(denominator / divisor)::TEXT;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "email" DROP NOT NULL,
+ALTER COLUMN "password" DROP NOT NULL,
+ADD COLUMN "expiresAt" TIMESTAMP(3),
+ADD COLUMN "suspendedUntil" TIMESTAMP(3),
+ADD COLUMN "bannedAt" TIMESTAMP(3);
+
+-- DropIndex
+DROP INDEX "Discussion_startingNumber_key";
+
+-- AlterTable
+ALTER TABLE "Discussion" ADD COLUMN "startingNumberExact" TEXT,
+ADD COLUMN "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "lockedAt" TIMESTAMP(3),
+ADD COLUMN "rules" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN "targetNumber" DOUBLE PRECISION,
+ADD COLUMN "targetNumberExact" TEXT,
+ADD COLUMN "stepBudget" INTEGER;
+
+-- Backfill
+UPDATE "Discussion" AS d SET
+  "startingNumberExact" = "pg_temp"."exact_fraction"(d."startingNumber"),
+  "lastActivityAt" = COALESCE(
+    (SELECT max(o."createdAt") FROM "Operation" AS o WHERE o."discussionId" = d."id"),
+    d."createdAt"
+  );
+
+ALTER TABLE "Discussion" ALTER COLUMN "startingNumberExact" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Operation" ALTER COLUMN "operand" DROP NOT NULL,
+ADD COLUMN "operandExact" TEXT,
+ADD COLUMN "resultExact" TEXT,
+ADD COLUMN "resultApproximate" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "depth" INTEGER,
+ADD COLUMN "path" TEXT,
+ADD COLUMN "invalidReason" TEXT,
+ADD COLUMN "deletedAt" TIMESTAMP(3),
+ADD COLUMN "editedAt" TIMESTAMP(3),
+ADD COLUMN "hiddenAt" TIMESTAMP(3);
+
+-- Backfill: exact values from the floats, depth and path by walking down
+-- from the first-level operations
+UPDATE "Operation" SET
+  "operandExact" = "pg_temp"."exact_fraction"("operand"),
+  "resultExact" = "pg_temp"."exact_fraction"("result");
+
+WITH RECURSIVE "tree" ("id", "depth", "path") AS (
+  SELECT "id", 1, "id" FROM "Operation" WHERE "parentId" IS NULL
+  UNION ALL
+  SELECT o."id", t."depth" + 1, t."path" || '/' || o."id"
+  FROM "Operation" AS o
+  JOIN "tree" AS t ON o."parentId" = t."id"
+)
+UPDATE "Operation" AS o SET "depth" = t."depth", "path" = t."path"
+FROM "tree" AS t
+WHERE o."id" = t."id";
+
+ALTER TABLE "Operation" ALTER COLUMN "resultExact" SET NOT NULL,
+ALTER COLUMN "depth" SET NOT NULL,
+ALTER COLUMN "path" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RefreshToken" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RefreshToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OperationRevision" (
+    "id" TEXT NOT NULL,
+    "operationId" TEXT NOT NULL,
+    "operationType" TEXT NOT NULL,
+    "operand" DOUBLE PRECISION,
+    "operandExact" TEXT,
+    "result" DOUBLE PRECISION NOT NULL,
+    "resultExact" TEXT NOT NULL,
+    "resultApproximate" BOOLEAN NOT NULL DEFAULT false,
+    "editedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OperationRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OperationVote" (
+    "userId" TEXT NOT NULL,
+    "operationId" TEXT NOT NULL,
+    "value" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OperationVote_pkey" PRIMARY KEY ("userId","operationId")
+);
+
+-- CreateTable
+CREATE TABLE "OperationReaction" (
+    "userId" TEXT NOT NULL,
+    "operationId" TEXT NOT NULL,
+    "reaction" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OperationReaction_pkey" PRIMARY KEY ("userId","operationId","reaction")
+);
+
+-- CreateTable
+CREATE TABLE "IdempotencyKey" (
+    "userId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "statusCode" INTEGER,
+    "responseBody" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IdempotencyKey_pkey" PRIMARY KEY ("userId","key")
+);
+
+-- CreateTable
+CREATE TABLE "Notification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "discussionId" TEXT NOT NULL,
+    "operationId" TEXT,
+    "actorIds" TEXT[],
+    "replyCount" INTEGER NOT NULL DEFAULT 1,
+    "lastActorId" TEXT NOT NULL,
+    "lastReplyId" TEXT NOT NULL,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Notification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DiscussionMute" (
+    "userId" TEXT NOT NULL,
+    "discussionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DiscussionMute_pkey" PRIMARY KEY ("userId","discussionId")
+);
+
+-- CreateTable
+CREATE TABLE "AuditLogEntry" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reason" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLogEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "User_role_expiresAt_idx" ON "User"("role", "expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Discussion_startingNumberExact_key" ON "Discussion"("startingNumberExact");
+
+-- CreateIndex
+CREATE INDEX "Discussion_lastActivityAt_idx" ON "Discussion"("lastActivityAt");
+
+-- CreateIndex
+CREATE INDEX "Discussion_startingNumber_idx" ON "Discussion"("startingNumber");
+
+-- CreateIndex
+CREATE INDEX "Discussion_deletedAt_idx" ON "Discussion"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Discussion_targetNumberExact_idx" ON "Discussion"("targetNumberExact");
+
+-- CreateIndex
+CREATE INDEX "Operation_discussionId_depth_idx" ON "Operation"("discussionId", "depth");
+
+-- CreateIndex
+CREATE INDEX "Operation_path_idx" ON "Operation"("path");
+
+-- CreateIndex
+CREATE INDEX "Operation_deletedAt_idx" ON "Operation"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Operation_discussionId_resultExact_idx" ON "Operation"("discussionId", "resultExact");
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "Session"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RefreshToken_tokenHash_key" ON "RefreshToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_sessionId_idx" ON "RefreshToken"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "OperationRevision_operationId_createdAt_idx" ON "OperationRevision"("operationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OperationVote_operationId_idx" ON "OperationVote"("operationId");
+
+-- CreateIndex
+CREATE INDEX "OperationReaction_operationId_idx" ON "OperationReaction"("operationId");
+
+-- CreateIndex
+CREATE INDEX "IdempotencyKey_expiresAt_idx" ON "IdempotencyKey"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_updatedAt_idx" ON "Notification"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "Notification"("userId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_discussionId_operationId_readAt_idx" ON "Notification"("userId", "discussionId", "operationId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLogEntry_createdAt_idx" ON "AuditLogEntry"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLogEntry_actorId_createdAt_idx" ON "AuditLogEntry"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLogEntry_targetType_targetId_createdAt_idx" ON "AuditLogEntry"("targetType", "targetId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RefreshToken" ADD CONSTRAINT "RefreshToken_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationRevision" ADD CONSTRAINT "OperationRevision_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationVote" ADD CONSTRAINT "OperationVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationVote" ADD CONSTRAINT "OperationVote_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationReaction" ADD CONSTRAINT "OperationReaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OperationReaction" ADD CONSTRAINT "OperationReaction_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IdempotencyKey" ADD CONSTRAINT "IdempotencyKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_lastActorId_fkey" FOREIGN KEY ("lastActorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_discussionId_fkey" FOREIGN KEY ("discussionId") REFERENCES "Discussion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Notification" ADD CONSTRAINT "Notification_operationId_fkey" FOREIGN KEY ("operationId") REFERENCES "Operation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiscussionMute" ADD CONSTRAINT "DiscussionMute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DiscussionMute" ADD CONSTRAINT "DiscussionMute_discussionId_fkey" FOREIGN KEY ("discussionId") REFERENCES "Discussion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuditLogEntry" ADD CONSTRAINT "AuditLogEntry_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,417 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../lib/config';
+import { createMemoryRepositories } from '../models/memory';
+import { serveApp } from './helpers';
+
+// Every test user registers from the same IP
+const config = loadConfig({ JWT_SECRET: 'test-secret-that-is-long-enough-0123456789', RATE_LIMIT_REGISTER: '100/1h' });
+const { request } = serveApp({ ...createMemoryRepositories(), config });
+
+async function register(username: string) {
+  const { status, body } = await request('POST', '/api/auth/register', {
+    body: { email: `${username}@example.com`, username, password: 'correct horse' },
+  });
+
+  assert.equal(status, 201);
+  return body as { user: { id: string; username: string }; token: string; refreshToken: string };
+}
+
+describe('auth', () => {
+  it('registers, logs in and never returns the password', async () => {
+    const registered = await register('ada');
+    assert.equal(registered.user.username, 'ada');
+    assert.equal('password' in registered.user, false);
+
+    const login = await request('POST', '/api/auth/login', { body: { username: 'ada', password: 'correct horse' } });
+    assert.equal(login.status, 200);
+    assert.equal(typeof login.body.token, 'string');
+
+    const wrong = await request('POST', '/api/auth/login', { body: { username: 'ada', password: 'wrong' } });
+    assert.equal(wrong.status, 401);
+    assert.equal(wrong.body.error.code, 'INVALID_CREDENTIALS');
+  });
+
+  it('rejects taken usernames and emails', async () => {
+    await register('grace');
+
+    const sameUsername = await request('POST', '/api/auth/register', {
+      body: { email: 'other@example.com', username: 'grace', password: 'pw' },
+    });
+    assert.equal(sameUsername.status, 409);
+    assert.equal(sameUsername.body.error.code, 'USERNAME_TAKEN');
+
+    const sameEmail = await request('POST', '/api/auth/register', {
+      body: { email: 'grace@example.com', username: 'grace2', password: 'pw' },
+    });
+    assert.equal(sameEmail.status, 409);
+    assert.equal(sameEmail.body.error.code, 'EMAIL_TAKEN');
+  });
+
+  it('rotates refresh tokens and revokes the session when one is reused', async () => {
+    const { refreshToken } = await register('linus');
+
+    const rotated = await request('POST', '/api/auth/refresh', { body: { refreshToken } });
+    assert.equal(rotated.status, 200);
+    assert.notEqual(rotated.body.refreshToken, refreshToken);
+
+    const reused = await request('POST', '/api/auth/refresh', { body: { refreshToken } });
+    assert.equal(reused.status, 401);
+    assert.equal(reused.body.error.code, 'REFRESH_TOKEN_REUSED');
+
+    const afterReuse = await request('POST', '/api/auth/refresh', { body: { refreshToken: rotated.body.refreshToken } });
+    assert.equal(afterReuse.status, 401);
+    assert.equal(afterReuse.body.error.code, 'SESSION_REVOKED');
+  });
+
+  it('stops accepting the access token after logout', async () => {
+    const { token } = await register('barbara');
+
+    assert.equal((await request('POST', '/api/auth/logout', { token })).status, 204);
+
+    const afterLogout = await request('POST', '/api/auth/logout', { token });
+    assert.equal(afterLogout.status, 401);
+    assert.equal(afterLogout.body.error.code, 'SESSION_REVOKED');
+  });
+
+  it('keeps guests read-only until they register', async () => {
+    const guest = await request('POST', '/api/auth/guest');
+    assert.equal(guest.status, 201);
+
+    const create = await request('POST', '/api/discussions', { token: guest.body.token, body: { startingNumber: 1 } });
+    assert.equal(create.status, 403);
+    assert.equal(create.body.error.code, 'REGISTERED_ONLY');
+
+    const upgraded = await request('POST', '/api/auth/register', {
+      token: guest.body.token,
+      body: { email: 'ken@example.com', username: 'ken', password: 'pw' },
+    });
+    assert.equal(upgraded.status, 200);
+    assert.equal(upgraded.body.user.id, guest.body.user.id);
+    assert.equal(upgraded.body.user.role, 'User');
+  });
+});
+
+describe('discussions', () => {
+  let author: Awaited<ReturnType<typeof register>>;
+  let other: Awaited<ReturnType<typeof register>>;
+
+  before(async () => {
+    author = await register('dijkstra');
+    other = await register('hopper');
+  });
+
+  it('creates a discussion and rejects an equal starting number', async () => {
+    const created = await request('POST', '/api/discussions', { token: author.token, body: { startingNumber: '1/3' } });
+    assert.equal(created.status, 201);
+    assert.equal(created.body.startingNumberExact, '1/3');
+    assert.equal(created.body.author.username, 'dijkstra');
+
+    const taken = await request('POST', '/api/discussions', { token: other.token, body: { startingNumber: '2/6' } });
+    assert.equal(taken.status, 409);
+    assert.equal(taken.body.error.code, 'STARTING_NUMBER_TAKEN');
+    assert.equal(taken.body.existingDiscussion.id, created.body.id);
+  });
+
+  it('lists newest first with cursors', async () => {
+    for (const startingNumber of [100, 101, 102]) {
+      await request('POST', '/api/discussions', { token: author.token, body: { startingNumber } });
+    }
+
+    const first = await request('GET', '/api/discussions?limit=2');
+    assert.equal(first.status, 200);
+    assert.deepEqual(
+      first.body.items.map((item: any) => item.startingNumberExact),
+      ['102', '101']
+    );
+
+    const second = await request('GET', `/api/discussions?limit=2&cursor=${first.body.nextCursor}`);
+    assert.equal(second.body.items[0].startingNumberExact, '100');
+  });
+
+  it('only lets the author change or delete a discussion', async () => {
+    const created = await request('POST', '/api/discussions', { token: author.token, body: { startingNumber: 7 } });
+    const id = created.body.id;
+
+    const foreign = await request('PATCH', `/api/discussions/${id}`, { token: other.token, body: { startingNumber: 8 } });
+    assert.equal(foreign.status, 403);
+
+    const updated = await request('PATCH', `/api/discussions/${id}`, { token: author.token, body: { startingNumber: 8 } });
+    assert.equal(updated.status, 200);
+    assert.equal(updated.body.startingNumberExact, '8');
+
+    assert.equal((await request('DELETE', `/api/discussions/${id}`, { token: other.token })).status, 403);
+    assert.equal((await request('DELETE', `/api/discussions/${id}`, { token: author.token })).status, 200);
+    assert.equal((await request('GET', `/api/discussions/${id}`)).status, 404);
+
+    const restored = await request('POST', `/api/discussions/${id}/restore`, { token: author.token });
+    assert.equal(restored.status, 200);
+    assert.equal((await request('GET', `/api/discussions/${id}`)).status, 200);
+  });
+
+  it('recomputes results when the starting number changes, or refuses to break them', async () => {
+    const created = await request('POST', '/api/discussions', { token: author.token, body: { startingNumber: 16 } });
+    const id = created.body.id;
+    const log = await request('POST', '/api/operations', {
+      token: other.token,
+      body: { discussionId: id, operationType: 'LOG', operand: 2 },
+    });
+    const reply = await request('POST', '/api/operations', {
+      token: author.token,
+      body: { discussionId: id, parentId: log.body.id, operationType: 'ADD', operand: 1 },
+    });
+    assert.equal(reply.body.resultExact, '5');
+
+    const changed = await request('PATCH', `/api/discussions/${id}`, { token: author.token, body: { startingNumber: 64 } });
+    assert.equal(changed.status, 200);
+    assert.equal(changed.body.recomputedOperations, 2);
+    assert.equal((await request('GET', `/api/operations/${reply.body.id}`)).body.resultExact, '7');
+
+    const rejected = await request('PATCH', `/api/discussions/${id}`, { token: author.token, body: { startingNumber: -4 } });
+    assert.equal(rejected.status, 422);
+    assert.equal(rejected.body.error.code, 'INVALID_TREE');
+    assert.equal((await request('GET', `/api/discussions/${id}`)).body.startingNumberExact, '64');
+
+    const flagged = await request('PATCH', `/api/discussions/${id}`, {
+      token: author.token,
+      body: { startingNumber: -4, onInvalid: 'flag' },
+    });
+    assert.equal(flagged.status, 200);
+    assert.deepEqual(
+      flagged.body.flaggedOperations.map((failure: any) => failure.id),
+      [log.body.id, reply.body.id]
+    );
+  });
+
+  it('answers unknown discussions with 404', async () => {
+    const missing = await request('GET', '/api/discussions/00000000-0000-4000-8000-000000000000');
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.error.code, 'NOT_FOUND');
+  });
+});
+
+describe('operations', () => {
+  let author: Awaited<ReturnType<typeof register>>;
+  let replier: Awaited<ReturnType<typeof register>>;
+  let discussionId: string;
+
+  before(async () => {
+    author = await register('knuth');
+    replier = await register('lovelace');
+
+    const created = await request('POST', '/api/discussions', { token: author.token, body: { startingNumber: 6 } });
+    discussionId = created.body.id;
+  });
+
+  async function post(token: string, body: Record<string, unknown>) {
+    return await request('POST', '/api/operations', { token, body: { discussionId, ...body } });
+  }
+
+  it('computes exact results down a chain', async () => {
+    const divided = await post(author.token, { operationType: 'DIVIDE', operand: 4 });
+    assert.equal(divided.status, 201);
+    assert.equal(divided.body.resultExact, '3/2');
+
+    const added = await post(replier.token, { parentId: divided.body.id, operationType: 'ADD', operand: '1/2' });
+    assert.equal(added.status, 201);
+    assert.equal(added.body.resultExact, '2');
+    assert.equal(added.body.depth, 2);
+
+    const chain = await request('GET', `/api/operations/${added.body.id}/chain`);
+    assert.equal(chain.status, 200);
+    assert.deepEqual(
+      chain.body.chain.map((operation: any) => operation.id),
+      [divided.body.id, added.body.id]
+    );
+    assert.equal(chain.body.expression.text, '(6 ÷ 4) + (1/2) = 2');
+  });
+
+  it('rejects operations outside the operator domain', async () => {
+    const byZero = await post(author.token, { operationType: 'DIVIDE', operand: 0 });
+    assert.equal(byZero.status, 422);
+  });
+
+  it('recomputes replies when an operation is edited', async () => {
+    const root = await post(author.token, { operationType: 'MULTIPLY', operand: 2 });
+    const reply = await post(replier.token, { parentId: root.body.id, operationType: 'ADD', operand: 1 });
+    assert.equal(reply.body.resultExact, '13');
+
+    const foreign = await request('PATCH', `/api/operations/${root.body.id}`, { token: replier.token, body: { operand: 3 } });
+    assert.equal(foreign.status, 403);
+
+    const edited = await request('PATCH', `/api/operations/${root.body.id}`, { token: author.token, body: { operand: 3 } });
+    assert.equal(edited.status, 200);
+    assert.equal(edited.body.resultExact, '18');
+
+    const updatedReply = await request('GET', `/api/operations/${reply.body.id}`);
+    assert.equal(updatedReply.body.resultExact, '19');
+
+    const revisions = await request('GET', `/api/operations/${root.body.id}/revisions`);
+    assert.equal(revisions.body.current.operandExact, '3');
+    assert.deepEqual(
+      revisions.body.revisions.map((revision: any) => revision.operandExact),
+      ['2']
+    );
+  });
+
+  it('keeps deleted operations as tombstones in the tree', async () => {
+    const root = await post(author.token, { operationType: 'SUBTRACT', operand: 1 });
+    await post(replier.token, { parentId: root.body.id, operationType: 'NEGATE' });
+
+    const deleted = await request('DELETE', `/api/operations/${root.body.id}`, { token: author.token });
+    assert.equal(deleted.status, 200);
+
+    const operation = await request('GET', `/api/operations/${root.body.id}`);
+    assert.equal(operation.body.deleted, true);
+    assert.equal(operation.body.operationType, null);
+    assert.equal(operation.body.resultExact, '5');
+    assert.equal(operation.body.children.length, 1);
+  });
+
+  it('redacts deleted operations wherever they are nested', async () => {
+    const root = await post(author.token, { operationType: 'SUBTRACT', operand: 2 });
+    const reply = await post(replier.token, { parentId: root.body.id, operationType: 'NEGATE' });
+    await request('DELETE', `/api/operations/${root.body.id}`, { token: author.token });
+
+    const fetched = await request('GET', `/api/operations/${reply.body.id}`);
+    assert.equal(fetched.body.parent.deleted, true);
+    assert.equal(fetched.body.parent.authorId, null);
+
+    const listed = await request('GET', `/api/operations/discussion/${discussionId}`);
+    const listedReply = listed.body.find((operation: any) => operation.id === reply.body.id);
+    assert.equal(listedReply.parent.operandExact, null);
+    const listedRoot = listed.body.find((operation: any) => operation.id === root.body.id);
+    assert.equal(listedRoot.author, null);
+  });
+
+  it('lets only the author delete and restore an operation', async () => {
+    const root = await post(author.token, { operationType: 'ADD', operand: 3 });
+    const path = `/api/operations/${root.body.id}`;
+
+    assert.equal((await request('DELETE', path, { token: replier.token })).status, 403);
+    const deleted = await request('DELETE', path, { token: author.token });
+    assert.equal(deleted.status, 200);
+    assert.ok(new Date(deleted.body.restorableUntil) > new Date(deleted.body.deletedAt));
+    assert.equal((await request('DELETE', path, { token: author.token })).status, 404);
+
+    assert.equal((await request('POST', `${path}/restore`, { token: replier.token })).status, 403);
+    const restored = await request('POST', `${path}/restore`, { token: author.token });
+    assert.equal(restored.status, 200);
+    assert.equal(restored.body.deletedAt, null);
+    assert.equal((await request('GET', path)).body.operandExact, '3');
+
+    const again = await request('POST', `${path}/restore`, { token: author.token });
+    assert.equal(again.body.error.code, 'NOT_DELETED');
+  });
+
+  it('hides the operations of a deleted discussion', async () => {
+    const created = await request('POST', '/api/discussions', { token: author.token, body: { startingNumber: 61 } });
+    const operation = await request('POST', '/api/operations', {
+      token: author.token,
+      body: { discussionId: created.body.id, operationType: 'ADD', operand: 1 },
+    });
+    await request('DELETE', `/api/discussions/${created.body.id}`, { token: author.token });
+
+    assert.equal((await request('GET', `/api/operations/discussion/${created.body.id}`)).status, 404);
+    assert.equal((await request('GET', `/api/operations/${operation.body.id}`)).status, 404);
+    assert.equal((await request('GET', `/api/operations/${operation.body.id}/chain`)).status, 404);
+    assert.equal((await request('GET', `/api/operations/${operation.body.id}/revisions`)).status, 404);
+  });
+
+  it('tells the author about replies', async () => {
+    const root = await post(author.token, { operationType: 'ADD', operand: 10 });
+    await post(replier.token, { parentId: root.body.id, operationType: 'ADD', operand: 1 });
+
+    const notifications = await request('GET', '/api/notifications?unread=true', { token: author.token });
+    assert.equal(notifications.status, 200);
+    assert.ok(notifications.body.items.some((item: any) => item.operationId === root.body.id));
+  });
+});
+
+describe('votes and reactions', () => {
+  let author: Awaited<ReturnType<typeof register>>;
+  let voters: Awaited<ReturnType<typeof register>>[];
+  let discussionId: string;
+
+  before(async () => {
+    author = await register('noether');
+    voters = [await register('euler'), await register('gauss'), await register('riemann')];
+
+    const created = await request('POST', '/api/discussions', { token: author.token, body: { startingNumber: 9 } });
+    discussionId = created.body.id;
+  });
+
+  async function post(body: Record<string, unknown>) {
+    const created = await request('POST', '/api/operations', { token: author.token, body: { discussionId, ...body } });
+    return created.body.id as string;
+  }
+
+  it('gives each user one vote, never on their own operations', async () => {
+    const id = await post({ operationType: 'ADD', operand: 1 });
+
+    const own = await request('POST', `/api/operations/${id}/vote`, { token: author.token, body: { direction: 'up' } });
+    assert.equal(own.status, 403);
+    assert.equal(own.body.error.code, 'OWN_OPERATION');
+
+    const [euler, gauss] = voters as [typeof author, typeof author];
+    await request('POST', `/api/operations/${id}/vote`, { token: euler.token, body: { direction: 'up' } });
+    await request('POST', `/api/operations/${id}/vote`, { token: euler.token, body: { direction: 'up' } });
+    const changed = await request('POST', `/api/operations/${id}/vote`, { token: gauss.token, body: { direction: 'up' } });
+    assert.equal(changed.body.upvotes, 2);
+
+    const down = await request('POST', `/api/operations/${id}/vote`, { token: gauss.token, body: { direction: 'down' } });
+    assert.deepEqual([down.body.upvotes, down.body.downvotes, down.body.mine.vote], [1, 1, 'down']);
+
+    const withdrawn = await request('DELETE', `/api/operations/${id}/vote`, { token: gauss.token });
+    assert.deepEqual([withdrawn.body.upvotes, withdrawn.body.downvotes, withdrawn.body.mine.vote], [1, 0, null]);
+  });
+
+  it('counts reactions once per user and kind', async () => {
+    const id = await post({ operationType: 'MULTIPLY', operand: 3 });
+    const [euler, gauss] = voters as [typeof author, typeof author];
+
+    await request('POST', `/api/operations/${id}/reactions`, { token: euler.token, body: { reaction: 'clever' } });
+    await request('POST', `/api/operations/${id}/reactions`, { token: euler.token, body: { reaction: 'clever' } });
+    await request('POST', `/api/operations/${id}/reactions`, { token: gauss.token, body: { reaction: 'clever' } });
+    const reacted = await request('POST', `/api/operations/${id}/reactions`, {
+      token: gauss.token,
+      body: { reaction: 'wrong-turn' },
+    });
+    assert.deepEqual(reacted.body.reactions, { clever: 2, elegant: 0, 'wrong-turn': 1 });
+    assert.deepEqual(reacted.body.mine.reactions, ['clever', 'wrong-turn']);
+
+    const unknown = await request('POST', `/api/operations/${id}/reactions`, { token: gauss.token, body: { reaction: 'meh' } });
+    assert.equal(unknown.status, 400);
+
+    const removed = await request('DELETE', `/api/operations/${id}/reactions/clever`, { token: gauss.token });
+    assert.equal(removed.body.reactions.clever, 1);
+
+    const listed = await request('GET', `/api/operations/discussion/${discussionId}`);
+    const counted = listed.body.find((operation: any) => operation.id === id);
+    assert.deepEqual(counted.reactions, { clever: 1, elegant: 0, 'wrong-turn': 1 });
+    assert.equal(counted.upvotes, 0);
+  });
+
+  it('ranks the best branches first in the tree', async () => {
+    const weak = await post({ operationType: 'SUBTRACT', operand: 2 });
+    const strong = await post({ operationType: 'SUBTRACT', operand: 3 });
+
+    for (const voter of voters) {
+      await request('POST', `/api/operations/${strong}/vote`, { token: voter.token, body: { direction: 'up' } });
+    }
+    for (const [index, voter] of voters.entries()) {
+      const direction = index === 0 ? 'up' : 'down';
+      await request('POST', `/api/operations/${weak}/vote`, { token: voter.token, body: { direction } });
+    }
+
+    const tree = await request('GET', `/api/discussions/${discussionId}/tree?sort=best`);
+    assert.equal(tree.status, 200);
+
+    // 3 of 3, then the single upvote from above, then 1 of 3, then nothing
+    const ids = tree.body.children.map((child: any) => child.id);
+    assert.equal(ids.length, 4);
+    assert.equal(ids[0], strong);
+    assert.equal(ids[2], weak);
+    assert.equal(tree.body.children[0].upvotes, 3);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAppContext } from '../app';
+import { loadConfig } from '../lib/config';
+import { createMemoryRepositories } from '../models/memory';
+import { serveApp, type ServedApp } from './helpers';
+
+describe('createApp', () => {
+  const servers = [
+    serveApp({
+      ...createMemoryRepositories(),
+      config: loadConfig({ JWT_SECRET: 'first-secret-that-is-long-enough-0123456789', RATE_LIMIT_REGISTER: '1/1h' }),
+    }),
+    serveApp({
+      ...createMemoryRepositories(),
+      config: loadConfig({ JWT_SECRET: 'second-secret-that-is-long-enough-012345678', RATE_LIMIT_REGISTER: '5/1h' }),
+    }),
+  ];
+
+  function register(served: ServedApp, username: string) {
+    return served.post('/api/auth/register', { email: `${username}@example.com`, username, password: 'correct horse' });
+  }
+
+  it('keeps the repositories, config and rate limits of several apps apart', async () => {
+    const [first, second] = servers as [ServedApp, ServedApp];
+
+    const ada = await register(first, 'ada');
+    assert.equal(ada.status, 201);
+    assert.equal((await register(second, 'ada')).status, 201);
+
+    // The first app allows one registration per hour, the second five
+    assert.equal((await register(first, 'bob')).status, 429);
+    assert.equal((await register(second, 'bob')).status, 201);
+
+    // Tokens are signed with the secret of the app that issued them
+    const notifications = (served: ServedApp) =>
+      served.request('GET', '/api/notifications', { token: ada.body.token });
+    assert.equal((await notifications(first)).status, 200);
+    assert.equal((await notifications(second)).status, 401);
+  });
+
+  it('exposes what each app was created with', () => {
+    const [first, second] = servers.map((served) => getAppContext(served.app));
+
+    assert.notEqual(first!.repositories.userRepository, second!.repositories.userRepository);
+    assert.notEqual(first!.eventBus, second!.eventBus);
+    assert.notEqual(first!.rateLimitStore, second!.rateLimitStore);
+  });
+});
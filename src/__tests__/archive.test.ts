@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { importDiscussionSchema } from '../schemas/discussions';
+import { planImport, toCsv, toDot, toMermaid, type DiscussionArchive } from '../services/archive';
+import { UnprocessableError } from '../lib/errors';
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+function node(id: string, operationType: string | null, operandExact: string | null, resultExact: string, children: any[] = []) {
+  return {
+    id,
+    operationType,
+    operand: operandExact === null ? null : Number(operandExact),
+    operandExact,
+    result: Number(resultExact),
+    resultExact,
+    resultApproximate: false,
+    invalidReason: null,
+    deleted: operationType === null,
+    hidden: false,
+    depth: 1,
+    author: { id: 'u1', username: 'ada' },
+    createdAt,
+    editedAt: null,
+    children,
+  };
+}
+
+const archive: DiscussionArchive = {
+  format: 'number-discussion',
+  version: 1,
+  exportedAt: createdAt,
+  discussion: { id: 'd1', startingNumber: 42, startingNumberExact: '42', author: null, createdAt },
+  operations: [
+    node('a', 'ADD', '10', '52', [node('b', 'MULTIPLY', '2', '104')]),
+    node('c', null, null, '6', [node('d', 'ADD', '1', '7')]),
+  ],
+};
+
+function parse(body: unknown) {
+  return importDiscussionSchema.body.parse(JSON.parse(JSON.stringify(body)));
+}
+
+describe('planImport', () => {
+  it('recomputes the tree and keeps parents before children', () => {
+    const plan = planImport(parse(archive));
+
+    assert.equal(plan.startingNumber.toString(), '42');
+    assert.deepEqual(
+      plan.operations.map((operation) => [operation.key, operation.parentKey, operation.result.toString()]),
+      [
+        ['operations[0]', null, '52'],
+        ['operations[0].children[0]', 'operations[0]', '104'],
+      ]
+    );
+  });
+
+  it('leaves out deleted operations together with their replies', () => {
+    assert.equal(planImport(parse(archive)).skipped, 2);
+  });
+
+  it('rejects results that do not match', () => {
+    const tampered = { ...archive, operations: [node('a', 'ADD', '10', '53')] };
+
+    assert.throws(
+      () => planImport(parse(tampered)),
+      (error: any) =>
+        error instanceof UnprocessableError &&
+        error.code === 'IMPORT_INVALID' &&
+        (error.details as any[])[0].path === 'operations[0]'
+    );
+  });
+
+  it('rejects operations outside the operator domain', () => {
+    const divideByZero = { ...archive, operations: [node('a', 'DIVIDE', '0', '0')] };
+
+    assert.throws(() => planImport(parse(divideByZero)), UnprocessableError);
+  });
+});
+
+describe('export formats', () => {
+  it('writes one CSV row per operation with parent and depth', () => {
+    const lines = toCsv(archive).trim().split('\r\n');
+
+    assert.equal(lines.length, 5);
+    assert.ok(lines[0]!.startsWith('id,parentId,depth,'));
+    assert.ok(lines[2]!.startsWith('b,a,1,MULTIPLY,2,'));
+  });
+
+  it('draws every edge from the starting number down', () => {
+    const dot = toDot(archive);
+    assert.match(dot, /start -> "a";/);
+    assert.match(dot, /"a" -> "b";/);
+
+    const mermaid = toMermaid(archive);
+    assert.match(mermaid, /^flowchart TD/);
+    assert.match(mermaid, /start --> op1/);
+    assert.match(mermaid, /op1 --> op2/);
+  });
+});
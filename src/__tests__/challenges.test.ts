@@ -0,0 +1,204 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankSolvers, readChallenge } from '../models';
+import type { IChallengeRepository, IDiscussionRepository, SolutionRecord } from '../models';
+import { createMemoryRepositories } from '../models/memory';
+import { isWinningOperation, makeChallengeService } from '../services/challenges';
+import Rational from '../lib/rational';
+
+const challenge = { target: Rational.parse('24'), stepBudget: 3 };
+
+function operation(id: string, resultExact: string, depth: number, extra: Record<string, unknown> = {}) {
+  return { id, resultExact, resultApproximate: false, depth, invalidReason: null, deletedAt: null, ...extra };
+}
+
+describe('isWinningOperation', () => {
+  it('needs the exact target within the step budget', () => {
+    assert.equal(isWinningOperation(operation('a', '24', 3), challenge), true);
+    assert.equal(isWinningOperation(operation('b', '24', 4), challenge), false);
+    assert.equal(isWinningOperation(operation('c', '25', 1), challenge), false);
+    assert.equal(isWinningOperation(operation('d', '24', 40), { ...challenge, stepBudget: null }), true);
+  });
+
+  it('never counts approximate, invalid, deleted or hidden operations', () => {
+    assert.equal(isWinningOperation(operation('a', '24', 1, { resultApproximate: true }), challenge), false);
+    assert.equal(isWinningOperation(operation('b', '24', 1, { invalidReason: 'x' }), challenge), false);
+    assert.equal(isWinningOperation(operation('c', '24', 1, { deletedAt: new Date() }), challenge), false);
+    assert.equal(isWinningOperation(operation('d', '24', 1, { hiddenAt: new Date() }), challenge), false);
+  });
+});
+
+describe('readChallenge', () => {
+  it('is null for plain discussions', () => {
+    assert.equal(readChallenge({ targetNumberExact: null }), null);
+    assert.equal(readChallenge({ targetNumberExact: '1/3', stepBudget: null })?.target.toString(), '1/3');
+  });
+});
+
+describe('rankSolvers', () => {
+  const ada = { id: 'ada', username: 'ada' };
+  const bob = { id: 'bob', username: 'bob' };
+
+  function solution(discussionId: string, author: typeof ada, day: number, discussionAuthorId = 'owner'): SolutionRecord {
+    return {
+      discussionId,
+      discussionAuthorId,
+      operationId: `${discussionId}-${author.id}-${day}`,
+      author,
+      createdAt: new Date(Date.UTC(2026, 0, day)),
+    };
+  }
+
+  it('counts each challenge once per user, most solved first', () => {
+    const leaderboard = rankSolvers(
+      [solution('d1', ada, 1), solution('d1', ada, 2), solution('d2', ada, 3), solution('d1', bob, 1)],
+      10
+    );
+
+    assert.deepEqual(
+      leaderboard.map((entry) => [entry.user.username, entry.solved]),
+      [
+        ['ada', 2],
+        ['bob', 1],
+      ]
+    );
+  });
+
+  it('ignores solutions of your own challenge and breaks ties by who got there first', () => {
+    const leaderboard = rankSolvers(
+      [solution('d1', bob, 5), solution('d2', ada, 6), solution('d3', ada, 1, 'ada')],
+      10
+    );
+
+    assert.deepEqual(
+      leaderboard.map((entry) => [entry.user.username, entry.solved]),
+      [
+        ['bob', 1],
+        ['ada', 1],
+      ]
+    );
+  });
+});
+
+describe('getSolutions', () => {
+  const discussion = { id: 'd1', startingNumberExact: '3', targetNumberExact: '24', stepBudget: 3, deletedAt: null };
+  const first = { ...operation('o1', '6', 1, { path: 'o1' }), author: { id: 'ada', username: 'ada' } };
+  const winner = { ...operation('o2', '24', 2, { path: 'o1/o2' }), author: { id: 'bob', username: 'bob' } };
+  const other = { ...operation('o3', '24', 1, { path: 'o3' }), author: { id: 'eve', username: 'eve' } };
+  const lookups: string[][] = [];
+
+  const discussionRepository = {
+    findById: async (id: string) => (id === 'd1' ? discussion : null),
+  } as unknown as IDiscussionRepository;
+  const challengeRepository = {
+    findSolutions: async () => ({ items: [other, winner], total: 2 }),
+    findPathOperations: async (paths: string[]) => {
+      lookups.push(paths);
+      return [winner, other, first];
+    },
+  } as unknown as IChallengeRepository;
+
+  const service = makeChallengeService(discussionRepository, challengeRepository);
+
+  it('returns each winning path from the starting number', async () => {
+    const result = await service.getSolutions('d1', 20);
+
+    assert.equal(result?.targetNumberExact, '24');
+    assert.equal(result?.solutions.length, 2);
+    assert.equal(result?.solutions[1]!.steps, 2);
+    assert.deepEqual(
+      result?.solutions.map((solution) => solution.path.map((step: any) => step.id)),
+      [['o3'], ['o1', 'o2']]
+    );
+  });
+
+  it('loads the paths of all solutions at once', async () => {
+    lookups.length = 0;
+    await service.getSolutions('d1', 20);
+
+    assert.deepEqual(lookups, [['o3', 'o1/o2']]);
+  });
+
+  it('follows stored paths on the memory backend', async () => {
+    const repositories = createMemoryRepositories();
+    const owner = await repositories.userRepository.create({ username: 'owner' });
+    const created = await repositories.discussionRepository.create({
+      startingNumber: Rational.parse(3),
+      authorId: owner.id,
+      challenge: { target: Rational.parse(24), stepBudget: 3 },
+    });
+    const step = (parentId: string | null, operationType: string, operand: number, result: number) =>
+      repositories.operationRepository.create({
+        discussionId: created.id,
+        parentId,
+        operationType,
+        operand: Rational.parse(operand),
+        result: Rational.parse(result),
+        authorId: owner.id,
+      });
+
+    const root = await step(null, 'MULTIPLY', 2, 6);
+    const win = await step(root.id, 'MULTIPLY', 4, 24);
+    const shortcut = await step(null, 'MULTIPLY', 8, 24);
+
+    const result = await makeChallengeService(
+      repositories.discussionRepository,
+      repositories.challengeRepository
+    ).getSolutions(created.id, 20);
+
+    assert.deepEqual(
+      result?.solutions.map((solution) => solution.path.map((operation: any) => operation.id)),
+      [[shortcut.id], [root.id, win.id]]
+    );
+  });
+
+  it('is null for missing discussions', async () => {
+    assert.equal(await service.getSolutions('nope', 20), null);
+  });
+});
+
+describe('getLeaderboard', () => {
+  it('ranks the best solvers of live challenges', async () => {
+    const { userRepository, discussionRepository, operationRepository, challengeRepository } = createMemoryRepositories();
+    const [owner, ada, bob, eve] = await Promise.all(
+      ['owner', 'ada', 'bob', 'eve'].map((username) => userRepository.create({ username }))
+    );
+
+    const challengeFrom = (startingNumber: number) =>
+      discussionRepository.create({
+        startingNumber: Rational.parse(startingNumber),
+        authorId: owner!.id,
+        challenge: { target: Rational.parse(24), stepBudget: null },
+      });
+    const solve = (discussionId: string, authorId: string) =>
+      operationRepository.create({
+        discussionId,
+        parentId: null,
+        operationType: 'ADD',
+        operand: Rational.parse(1),
+        result: Rational.parse(24),
+        authorId,
+      });
+
+    const first = await challengeFrom(23);
+    const second = await challengeFrom(23.5);
+    const deleted = await challengeFrom(23.25);
+    await solve(first.id, ada!.id);
+    await solve(second.id, ada!.id);
+    await solve(second.id, bob!.id);
+    await solve(first.id, owner!.id);
+    await solve(deleted.id, eve!.id);
+    await discussionRepository.softDelete(deleted.id);
+
+    const service = makeChallengeService(discussionRepository, challengeRepository);
+
+    assert.deepEqual(
+      (await service.getLeaderboard(10)).map((entry) => [entry.rank, entry.user.username, entry.solved]),
+      [
+        [1, 'ada', 2],
+        [2, 'bob', 1],
+      ]
+    );
+    assert.equal((await service.getLeaderboard(1)).length, 1);
+  });
+});
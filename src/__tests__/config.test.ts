@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac, generateKeyPairSync } from 'crypto';
+import { ConfigError, loadConfig } from '../lib/config';
+import { signToken, TokenError, verifyToken } from '../lib/jwt';
+
+const SECRET = 'test-secret-that-is-long-enough-0123456789';
+const OTHER_SECRET = 'another-secret-that-is-long-enough-9876543210';
+
+function pem(type: 'rsa' | 'ed25519') {
+  const { privateKey, publicKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ed25519');
+
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  };
+}
+
+function problemsOf(env: Record<string, string>): string[] {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.problems;
+  }
+
+  assert.fail('Expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+  it('refuses to start without a signing key', () => {
+    assert.deepEqual(problemsOf({}), ['JWT_SECRET or JWT_KEYS must be set']);
+  });
+
+  it('rejects short and placeholder secrets', () => {
+    assert.match(problemsOf({ JWT_SECRET: 'secret' })[0]!, /at least 32 characters/);
+    assert.match(problemsOf({ JWT_SECRET: 'ab'.repeat(20) })[0]!, /placeholder/);
+  });
+
+  it('lists every problem at once', () => {
+    const problems = problemsOf({
+      SALT_ROUNDS: '4',
+      ACCESS_TOKEN_TTL: 'soon',
+      JWT_SECRET: 'short',
+      JWT_KEYS: JSON.stringify([{ kid: 'b', alg: 'none' }]),
+    });
+
+    assert.equal(problems.length, 4);
+    for (const name of ['SALT_ROUNDS', 'ACCESS_TOKEN_TTL', 'JWT_SECRET', 'JWT_KEYS[0]']) {
+      assert.ok(problems.some((problem) => problem.startsWith(name)), name);
+    }
+  });
+
+  it('rejects duplicate kids, weak RSA keys and unknown active kids', () => {
+    const duplicate = JSON.stringify([
+      { kid: 'a', alg: 'HS256', secret: SECRET },
+      { kid: 'a', alg: 'HS256', secret: OTHER_SECRET },
+    ]);
+    assert.match(problemsOf({ JWT_KEYS: duplicate })[0]!, /used more than once/);
+
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+    const weak = JSON.stringify([
+      { kid: 'rsa', alg: 'RS256', privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString() },
+    ]);
+    assert.match(problemsOf({ JWT_KEYS: weak })[0]!, /at least 2048 bits/);
+
+    assert.match(problemsOf({ JWT_SECRET: SECRET, JWT_ACTIVE_KID: 'missing' })[0]!, /no key has kid "missing"/);
+  });
+
+  it('reads durations and defaults', () => {
+    const config = loadConfig({ JWT_SECRET: SECRET, ACCESS_TOKEN_TTL: '1h', PORT: '' });
+
+    assert.equal(config.accessTokenTtlSeconds, 3600);
+    assert.equal(config.port, 3000);
+    assert.equal(config.jwt.activeKid, 'default');
+  });
+});
+
+describe('signToken and verifyToken', () => {
+  it('round-trip with HS256, RS256 and EdDSA keys', async () => {
+    const keys = [
+      { kid: 'hmac', alg: 'HS256', secret: SECRET },
+      { kid: 'rsa', alg: 'RS256', ...pem('rsa') },
+      { kid: 'ed', alg: 'EdDSA', ...pem('ed25519') },
+    ];
+
+    for (const { kid } of keys) {
+      const { jwt } = loadConfig({ JWT_KEYS: JSON.stringify(keys), JWT_ACTIVE_KID: kid });
+      const token = await signToken({ userId: 'u1' }, 60, jwt);
+
+      assert.equal(JSON.parse(Buffer.from(token.split('.')[0]!, 'base64url').toString()).kid, kid);
+      assert.equal((await verifyToken(token, jwt)).userId, 'u1');
+    }
+  });
+
+  it('keep verifying tokens from a retired key after rotation', async () => {
+    const old = pem('ed25519');
+    const before = loadConfig({ JWT_KEYS: JSON.stringify([{ kid: 'old', alg: 'EdDSA', ...old }]) });
+    const token = await signToken({ userId: 'u1' }, 60, before.jwt);
+
+    // The new key goes in front; the old one stays, without its private half
+    const after = loadConfig({
+      JWT_KEYS: JSON.stringify([
+        { kid: 'new', alg: 'HS256', secret: SECRET },
+        { kid: 'old', alg: 'EdDSA', publicKey: old.publicKey },
+      ]),
+    });
+
+    assert.equal(after.jwt.activeKid, 'new');
+    assert.equal((await verifyToken(token, after.jwt)).userId, 'u1');
+
+    const dropped = loadConfig({ JWT_KEYS: JSON.stringify([{ kid: 'new', alg: 'HS256', secret: SECRET }]) });
+    await assert.rejects(verifyToken(token, dropped.jwt), TokenError);
+  });
+
+  it('accept tokens without a kid against JWT_SECRET', async () => {
+    const { jwt } = loadConfig({ JWT_SECRET: SECRET });
+    const [, payload, signature] = (await signToken({ userId: 'u1' }, 60, jwt)).split('.');
+    const legacyHeader = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+    // Re-signed with the same secret, since the kid is part of the signed header
+    const legacySignature = createHmac('sha256', SECRET).update(`${legacyHeader}.${payload}`).digest('base64url');
+
+    assert.notEqual(legacySignature, signature);
+    assert.equal((await verifyToken(`${legacyHeader}.${payload}.${legacySignature}`, jwt)).userId, 'u1');
+  });
+
+  it('reject tampered, expired and mismatched tokens', async () => {
+    const { jwt } = loadConfig({ JWT_SECRET: SECRET });
+    const token = await signToken({ userId: 'u1', role: 'User' }, 60, jwt);
+    const [header, , signature] = token.split('.');
+
+    const forged = Buffer.from(JSON.stringify({ userId: 'u1', role: 'Admin', exp: 9999999999 })).toString('base64url');
+    await assert.rejects(verifyToken(`${header}.${forged}.${signature}`, jwt), /Invalid signature/);
+
+    const none = Buffer.from(JSON.stringify({ alg: 'none', kid: 'default' })).toString('base64url');
+    await assert.rejects(verifyToken(`${none}.${forged}.`, jwt), /Invalid signature/);
+
+    await assert.rejects(verifyToken(token, jwt, new Date(Date.now() + 61_000)), /expired/);
+    await assert.rejects(verifyToken('not-a-token', jwt), /Malformed/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkRules, type DiscussionRules } from '../models';
+import { discussionRules } from '../schemas/discussions';
+import Rational from '../lib/rational';
+
+const now = new Date('2026-03-06T12:00:00Z');
+
+function attempt(operationType: string, operand: string | null, depth = 1) {
+  return { operationType, operand: operand === null ? null : Rational.parse(operand), depth };
+}
+
+describe('checkRules', () => {
+  const rules: DiscussionRules = {
+    allowedOperators: ['MULTIPLY', 'DIVIDE', 'NEGATE'],
+    integerOperands: true,
+    minOperand: '1',
+    maxOperand: '10',
+    maxDepth: 5,
+  };
+
+  it('allows operations within every rule', () => {
+    assert.equal(checkRules(rules, attempt('MULTIPLY', '10', 5), now), null);
+    assert.equal(checkRules({}, attempt('ADD', '-1/3', 40), now), null);
+  });
+
+  it('names the rule that failed', () => {
+    assert.equal(checkRules(rules, attempt('ADD', '2'), now)?.rule, 'allowedOperators');
+    assert.equal(checkRules(rules, attempt('MULTIPLY', '3/2'), now)?.rule, 'integerOperands');
+    assert.equal(checkRules(rules, attempt('DIVIDE', '0'), now)?.rule, 'minOperand');
+    assert.equal(checkRules(rules, attempt('DIVIDE', '11'), now)?.rule, 'maxOperand');
+    assert.equal(checkRules(rules, attempt('MULTIPLY', '2', 6), now)?.rule, 'maxDepth');
+  });
+
+  it('ignores operand rules for unary operators', () => {
+    assert.equal(checkRules(rules, attempt('NEGATE', null), now), null);
+  });
+
+  it('closes the discussion at closesAt', () => {
+    const closing = { closesAt: '2026-03-06T18:00:00.000Z' };
+
+    assert.equal(checkRules(closing, attempt('ADD', '1'), now), null);
+    assert.equal(checkRules(closing, attempt('ADD', '1'), new Date('2026-03-07T00:00:00Z'))?.rule, 'closesAt');
+  });
+});
+
+describe('discussionRules schema', () => {
+  it('stores canonical operator names and exact bounds', () => {
+    const parsed = discussionRules.parse({
+      allowedOperators: ['MULTIPLY', 'MULTIPLY'],
+      minOperand: 0.5,
+      maxOperand: '10',
+      closesAt: '2026-03-06T18:00:00+02:00',
+    });
+
+    assert.deepEqual(parsed, {
+      allowedOperators: ['MULTIPLY'],
+      minOperand: '1/2',
+      maxOperand: '10',
+      closesAt: '2026-03-06T16:00:00.000Z',
+    });
+  });
+
+  it('rejects unknown operators, unknown rules and inverted bounds', () => {
+    assert.equal(discussionRules.safeParse({ allowedOperators: ['NOPE'] }).success, false);
+    assert.equal(discussionRules.safeParse({ maxReplies: 3 }).success, false);
+    assert.equal(discussionRules.safeParse({ minOperand: 5, maxOperand: 1 }).success, false);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderChain } from '../lib/expression';
+import { Rational } from '../lib/rational';
+
+function step(operationType: string, operand: string | number | null = null) {
+  return { operationType, operand: operand === null ? null : Rational.parse(operand) };
+}
+
+describe('renderChain', () => {
+  it('parenthesises each infix step as text, LaTeX and MathML', () => {
+    const rendered = renderChain(
+      Rational.parse(42),
+      [step('ADD', 10), step('MULTIPLY', 2), step('DIVIDE', 8)],
+      Rational.parse(13)
+    );
+
+    assert.equal(rendered.text, '((42 + 10) × 2) ÷ 8 = 13');
+    assert.equal(rendered.latex, '\\left(\\left(42 + 10\\right) \\times 2\\right) \\div 8 = 13');
+    assert.match(rendered.mathml, /^<math xmlns="http:\/\/www\.w3\.org\/1998\/Math\/MathML"><mrow>.*<\/mrow><\/math>$/);
+    assert.match(rendered.mathml, /<mn>42<\/mn><mo>\+<\/mo><mn>10<\/mn>/);
+  });
+
+  it('writes fractions, negatives and powers in their own notation', () => {
+    const rendered = renderChain(Rational.parse('-1/2'), [step('POWER', 2), step('NEGATE')], Rational.parse('-1/4'));
+
+    assert.equal(rendered.text, '−((-1/2)^2) = -1/4');
+    assert.equal(rendered.latex, '-\\left({\\left(-\\frac{1}{2}\\right)}^{2}\\right) = -\\frac{1}{4}');
+    assert.match(rendered.mathml, /<msup><mrow><mrow><mo>\(<\/mo><mrow><mo>−<\/mo><mfrac><mn>1<\/mn><mn>2<\/mn><\/mfrac>/);
+  });
+
+  it('uses function notation for logarithms, min/max and absolute values', () => {
+    const rendered = renderChain(Rational.parse(8), [step('LOG', 2), step('MAX', -1), step('ABS')], Rational.parse(3));
+
+    assert.equal(rendered.text, '|max(log_2(8), -1)| = 3');
+    assert.equal(rendered.latex, '\\left|\\max\\left(\\log_{2}\\left(8\\right), -1\\right)\\right| = 3');
+  });
+
+  it('shows approximate results with ≈ and their rounded value', () => {
+    const rendered = renderChain(Rational.parse(2), [step('ROOT', 2)], Rational.approximate(Math.SQRT2));
+
+    assert.equal(rendered.text, '2√(2) ≈ 1.4142135623730951');
+    assert.equal(rendered.latex, '\\sqrt[2]{2} \\approx 1.4142135623730951');
+    assert.match(rendered.mathml, /<mroot><mrow><mn>2<\/mn><\/mrow><mrow><mn>2<\/mn><\/mrow><\/mroot><mo>≈<\/mo>/);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import { createApp, type AppDependencies } from '../app';
+import { loadConfig } from '../lib/config';
+import { HealthRepository } from '../models';
+import { createMemoryRepositories } from '../models/memory';
+import { listen } from './helpers';
+
+const JWT_SECRET = 'test-secret-that-is-long-enough-0123456789';
+const ROOT = path.join(__dirname, '..', '..');
+
+async function get(deps: AppDependencies, urlPath: string) {
+  const app = createApp({ ...createMemoryRepositories(), config: loadConfig({ JWT_SECRET }), ...deps });
+  const { server, baseUrl } = await listen(app);
+
+  try {
+    const response = await fetch(`${baseUrl}${urlPath}`);
+    return { status: response.status, body: await response.json() };
+  } finally {
+    server.close();
+  }
+}
+
+/**
+ * Runs `args` with ts-node from the project root, like `npm run dev` does
+ */
+function run(args: string[]) {
+  return spawn(process.execPath, ['--require', 'ts-node/register/transpile-only', ...args], {
+    cwd: ROOT,
+    env: { ...process.env, JWT_SECRET, PORT: '0' },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+}
+
+function exitCode(child: ReturnType<typeof run>) {
+  return new Promise<number | null>((resolve) => child.on('exit', resolve));
+}
+
+describe('probes', () => {
+  it('report live and ready', async () => {
+    assert.deepEqual((await get({}, '/healthz')).body, { status: 'ok' });
+
+    const ready = await get({}, '/readyz');
+    assert.equal(ready.status, 200);
+    assert.equal(ready.body.status, 'ready');
+  });
+
+  it('report not ready while the database is down, but stay live', async () => {
+    const healthRepository = {
+      ping: async () => {
+        throw new Error('connect ECONNREFUSED');
+      },
+      migrationStatus: async () => ({ pending: [], failed: [] }),
+    };
+
+    const ready = await get({ healthRepository }, '/readyz');
+    assert.equal(ready.status, 503);
+    assert.equal(ready.body.checks.database.status, 'failing');
+    assert.equal(JSON.stringify(ready.body).includes('ECONNREFUSED'), false);
+
+    assert.equal((await get({ healthRepository }, '/healthz')).status, 200);
+  });
+
+  it('report not ready with unapplied or failed migrations', async () => {
+    const pending = await get(
+      { healthRepository: { ping: async () => {}, migrationStatus: async () => ({ pending: ['2_votes'], failed: [] }) } },
+      '/readyz'
+    );
+    assert.equal(pending.status, 503);
+    assert.deepEqual(pending.body.checks.migrations.pending, ['2_votes']);
+
+    const failed = await get(
+      { healthRepository: { ping: async () => {}, migrationStatus: async () => ({ pending: ['2_votes'], failed: ['2_votes'] }) } },
+      '/readyz'
+    );
+    assert.deepEqual(failed.body.checks.migrations.failed, ['2_votes']);
+  });
+
+  it('report not ready when the migrations directory is missing', async () => {
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    try {
+      await assert.rejects(HealthRepository.migrationStatus(), /No migrations found in/);
+    } finally {
+      process.chdir(cwd);
+    }
+
+    const migrationStatus = async () => {
+      throw new Error('No migrations found');
+    };
+    const unknown = await get({ healthRepository: { ping: async () => {}, migrationStatus } }, '/readyz');
+    assert.equal(unknown.status, 503);
+    assert.equal(unknown.body.checks.migrations.message, 'Migration status is unknown');
+  });
+});
+
+describe('bootstrap', () => {
+  it('does not listen when imported', async () => {
+    const child = run(['-e', "require('./src/index')"]);
+
+    // Nothing keeps the process alive, so it ends on its own
+    assert.equal(await exitCode(child), 0);
+  });
+
+  it('listens when run directly and shuts down cleanly on SIGTERM', async () => {
+    const child = run(['src/index.ts']);
+    const exited = exitCode(child);
+
+    const port = await new Promise<string>((resolve, reject) => {
+      let output = '';
+      child.stdout!.on('data', (chunk) => {
+        output += chunk;
+        const match = /port: (\d+)/.exec(output);
+        if (match) resolve(match[1]!);
+      });
+      child.on('exit', () => reject(new Error(`Exited before listening:\n${output}`)));
+    });
+
+    assert.equal((await fetch(`http://127.0.0.1:${port}/healthz`)).status, 200);
+
+    child.kill('SIGTERM');
+    assert.equal(await exited, 0);
+  });
+});
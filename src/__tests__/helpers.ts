@@ -0,0 +1,63 @@
+import { after, before } from 'node:test';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createApp, type AppDependencies } from '../app';
+
+export type TestResponse = { status: number; headers: Headers; body: any };
+
+export type RequestOptions = { body?: unknown; token?: string | undefined; headers?: Record<string, string> };
+
+/**
+ * Starts an app on a free port
+ */
+export async function listen(app: ReturnType<typeof createApp>) {
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+/**
+ * Serves `createApp(deps)` from before the first test of the current suite
+ * (or file) until after the last one, with fetch helpers for JSON requests
+ */
+export function serveApp(deps: AppDependencies) {
+  let server: Server;
+
+  const served = {
+    app: createApp(deps),
+    baseUrl: '',
+
+    async request(method: string, path: string, options: RequestOptions = {}): Promise<TestResponse> {
+      const response = await fetch(`${served.baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+          ...options.headers,
+        },
+        ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+      });
+
+      const text = await response.text();
+      return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+    },
+
+    async post(path: string, body: unknown, token?: string, headers?: Record<string, string>) {
+      return await served.request('POST', path, { body, token, ...(headers ? { headers } : {}) });
+    },
+  };
+
+  before(async () => {
+    ({ server, baseUrl: served.baseUrl } = await listen(served.app));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  return served;
+}
+
+export type ServedApp = ReturnType<typeof serveApp>;
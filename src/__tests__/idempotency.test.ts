@@ -0,0 +1,123 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../lib/config';
+import { InMemoryRateLimitStore } from '../lib/rate-limit';
+import { createMemoryRepositories, MemoryStore } from '../models/memory';
+import { serveApp } from './helpers';
+
+describe('memory IdempotencyRepository', () => {
+  it('claims a key once, replays what was stored and frees expired keys', async () => {
+    const store = new MemoryStore();
+    const { userRepository, idempotencyRepository } = createMemoryRepositories(store);
+    const user = await userRepository.create({ email: 'a@example.com', username: 'alice', password: 'hash' });
+    const inADay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    assert.equal(await idempotencyRepository.claim(user.id, 'k', 'hash', inADay), null);
+
+    const running = await idempotencyRepository.claim(user.id, 'k', 'hash', inADay);
+    assert.equal(running?.response, null);
+
+    await idempotencyRepository.complete(user.id, 'k', { statusCode: 201, body: { id: 'x' } });
+    const done = await idempotencyRepository.claim(user.id, 'k', 'other', inADay);
+    assert.equal(done?.requestHash, 'hash');
+    assert.deepEqual(done?.response, { statusCode: 201, body: { id: 'x' } });
+
+    await idempotencyRepository.claim(user.id, 'old', 'hash', new Date(Date.now() - 1000));
+    assert.equal(await idempotencyRepository.claim(user.id, 'old', 'new', inADay), null);
+
+    assert.equal(await idempotencyRepository.purgeExpired(new Date(Date.now() + 25 * 60 * 60 * 1000)), 2);
+
+    await idempotencyRepository.claim(user.id, 'k', 'hash', inADay);
+    store.deleteUser(user.id);
+    assert.equal(store.idempotencyKeys.size, 0);
+  });
+});
+
+describe('Idempotency-Key header', () => {
+  const served = serveApp({
+    ...createMemoryRepositories(),
+    config: loadConfig({
+      JWT_SECRET: 'test-secret-that-is-long-enough-0123456789',
+      RATE_LIMIT_REGISTER: '10/1h',
+      RATE_LIMIT_CREATE_OPERATION: '2/1m',
+    }),
+    rateLimitStore: new InMemoryRateLimitStore(),
+  });
+  let token: string;
+  let otherToken: string;
+
+  const post = (path: string, body: unknown, auth?: string, key?: string) =>
+    served.post(path, body, auth, key !== undefined ? { 'Idempotency-Key': key } : undefined);
+
+  before(async () => {
+    token = (await post('/api/auth/register', { email: 'retry@example.com', username: 'retrier', password: 'correct horse' }))
+      .body.token;
+    otherToken = (await post('/api/auth/register', { email: 'other@example.com', username: 'other', password: 'correct horse' }))
+      .body.token;
+  });
+
+  it('replays a created discussion instead of reporting its starting number as taken', async () => {
+    const first = await post('/api/discussions', { startingNumber: 77, title: 'Retried' }, token, 'discussion-1');
+    assert.equal(first.status, 201);
+    assert.equal(first.headers.get('idempotent-replayed'), null);
+
+    // Same payload with the keys in another order
+    const retry = await post('/api/discussions', { title: 'Retried', startingNumber: 77 }, token, 'discussion-1');
+    assert.equal(retry.status, 201);
+    assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(retry.body, first.body);
+
+    const withoutKey = await post('/api/discussions', { startingNumber: 77, title: 'Retried' }, token);
+    assert.equal(withoutKey.status, 409);
+  });
+
+  it('rejects a key reused for a different payload, but not by another user', async () => {
+    await post('/api/discussions', { startingNumber: 78 }, token, 'discussion-2');
+
+    const reused = await post('/api/discussions', { startingNumber: 79 }, token, 'discussion-2');
+    assert.equal(reused.status, 422);
+    assert.equal(reused.body.error.code, 'IDEMPOTENCY_KEY_REUSED');
+
+    assert.equal((await post('/api/discussions', { startingNumber: 79 }, otherToken, 'discussion-2')).status, 201);
+  });
+
+  it('replays a posted operation without counting it against the rate limit', async () => {
+    const { body: discussion } = await post('/api/discussions', { startingNumber: 5 }, token);
+    const reply = { discussionId: discussion.id, operationType: 'MULTIPLY', operand: 3 };
+
+    const first = await post('/api/operations', reply, token, 'operation-1');
+    assert.equal(first.status, 201);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const retry = await post('/api/operations', reply, token, 'operation-1');
+      assert.equal(retry.status, 201);
+      assert.equal(retry.body.id, first.body.id);
+    }
+
+    const tree = (await served.request('GET', `/api/discussions/${discussion.id}/tree`)).body;
+    assert.equal(tree.children.length, 1);
+
+    // The bucket still has its second token
+    assert.equal((await post('/api/operations', { ...reply, operand: 4 }, token)).status, 201);
+  });
+
+  it('does not store rate-limited responses', async () => {
+    const { body: discussion } = await post('/api/discussions', { startingNumber: 6 }, otherToken);
+    const reply = (operand: number, key?: string) =>
+      post('/api/operations', { discussionId: discussion.id, operationType: 'ADD', operand }, otherToken, key);
+
+    await reply(1);
+    await reply(2);
+    const limited = await reply(3, 'operation-2');
+    assert.equal(limited.status, 429);
+
+    // Released, so the same key may be tried with another payload
+    assert.equal((await reply(4, 'operation-2')).status, 429);
+  });
+
+  it('rejects invalid keys', async () => {
+    const invalid = await post('/api/discussions', { startingNumber: 80 }, token, 'has spaces');
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error.details[0].path, 'headers.idempotency-key');
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryRepositories } from '../models/memory';
+import Rational from '../lib/rational';
+
+function setup() {
+  return createMemoryRepositories();
+}
+
+describe('memory repositories', () => {
+  it('reject duplicate usernames, emails and starting numbers like the database', async () => {
+    const { userRepository, discussionRepository } = setup();
+
+    const ada = await userRepository.create({ username: 'ada', email: 'ada@example.com' });
+    await assert.rejects(userRepository.create({ username: 'ada' }), { code: 'P2002' });
+    await assert.rejects(userRepository.create({ username: 'ada2', email: 'ada@example.com' }), { code: 'P2002' });
+
+    // Guests have no email, and any number of them can exist
+    await userRepository.create({ username: 'guest-1', email: null });
+    await userRepository.create({ username: 'guest-2', email: null });
+
+    await discussionRepository.create({ startingNumber: Rational.parse('1/2'), authorId: ada.id });
+    await assert.rejects(
+      discussionRepository.create({ startingNumber: Rational.parse('2/4'), authorId: ada.id }),
+      { code: 'P2002' }
+    );
+  });
+
+  it('hand out copies, never the stored rows', async () => {
+    const { userRepository } = setup();
+
+    const user = await userRepository.create({ username: 'grace' });
+    user.username = 'changed';
+
+    assert.equal((await userRepository.findById(user.id))?.username, 'grace');
+  });
+
+  it('cascade deletes from discussions to their operations', async () => {
+    const { userRepository, discussionRepository, operationRepository } = setup();
+
+    const user = await userRepository.create({ username: 'knuth' });
+    const discussion = await discussionRepository.create({ startingNumber: Rational.parse('3'), authorId: user.id });
+    const operation = await operationRepository.create({
+      discussionId: discussion.id,
+      parentId: null,
+      operationType: 'ADD',
+      operand: Rational.parse('1'),
+      result: Rational.parse('4'),
+      authorId: user.id,
+    });
+
+    await discussionRepository.delete(discussion.id);
+
+    assert.equal(await operationRepository.findById(operation.id), null);
+  });
+
+  it('purge tombstones leaf by leaf, keeping those with live replies', async () => {
+    const { userRepository, discussionRepository, operationRepository } = setup();
+
+    const user = await userRepository.create({ username: 'hopper' });
+    const discussion = await discussionRepository.create({ startingNumber: Rational.parse('5'), authorId: user.id });
+    const create = (parentId: string | null) =>
+      operationRepository.create({
+        discussionId: discussion.id,
+        parentId,
+        operationType: 'NEGATE',
+        operand: null,
+        result: Rational.parse('-5'),
+        authorId: user.id,
+      });
+
+    const kept = await create(null);
+    await create(kept.id);
+    const purged = await create(null);
+    const purgedReply = await create(purged.id);
+
+    for (const operation of [kept, purged, purgedReply]) await operationRepository.softDelete(operation.id);
+
+    assert.equal(await operationRepository.purgeDeleted(new Date(Date.now() + 60_000)), 2);
+    assert.notEqual(await operationRepository.findById(kept.id), null);
+    assert.equal(await operationRepository.findById(purged.id), null);
+  });
+
+  it('leave deleted and hidden operations out of the discussion list preview', async () => {
+    const { userRepository, discussionRepository, operationRepository } = setup();
+
+    const user = await userRepository.create({ username: 'lovelace' });
+    const discussion = await discussionRepository.create({ startingNumber: Rational.parse('7'), authorId: user.id });
+    const create = (operand: number) =>
+      operationRepository.create({
+        discussionId: discussion.id,
+        parentId: null,
+        operationType: 'ADD',
+        operand: Rational.parse(operand),
+        result: Rational.parse(7 + operand),
+        authorId: user.id,
+      });
+
+    const visible = await create(1);
+    await operationRepository.softDelete((await create(2)).id);
+    await operationRepository.setHidden((await create(3)).id, true);
+
+    const { items } = await discussionRepository.findAll({ limit: 10, sort: 'newest' });
+    assert.deepEqual(items[0].preview.map((operation: any) => operation.id), [visible.id]);
+  });
+
+  it('leave deleted and hidden operations out of profiles and their stats', async () => {
+    const { userRepository, discussionRepository, operationRepository } = setup();
+
+    const user = await userRepository.create({ username: 'noether' });
+    const discussion = await discussionRepository.create({ startingNumber: Rational.parse('2'), authorId: user.id });
+    const create = (operationType: string, operand: number) =>
+      operationRepository.create({
+        discussionId: discussion.id,
+        parentId: null,
+        operationType,
+        operand: Rational.parse(operand),
+        result: Rational.parse(2 + operand),
+        authorId: user.id,
+      });
+
+    const visible = await create('ADD', 1);
+    await operationRepository.softDelete((await create('MULTIPLY', 2)).id);
+    await operationRepository.setHidden((await create('MULTIPLY', 3)).id, true);
+
+    assert.deepEqual((await operationRepository.findByAuthor(user.id)).map((operation: any) => operation.id), [
+      visible.id,
+    ]);
+    const stats = await userRepository.getStats(user.id);
+    assert.equal(stats.operationsPosted, 1);
+    assert.deepEqual(stats.mostUsedOperator, { operationType: 'ADD', count: 1 });
+  });
+
+  it('leave operations of deleted discussions out of profiles and their stats', async () => {
+    const { userRepository, discussionRepository, operationRepository } = setup();
+
+    const user = await userRepository.create({ username: 'germain' });
+    const discussion = await discussionRepository.create({ startingNumber: Rational.parse('4'), authorId: user.id });
+    await operationRepository.create({
+      discussionId: discussion.id,
+      parentId: null,
+      operationType: 'NEGATE',
+      operand: null,
+      result: Rational.parse('-4'),
+      authorId: user.id,
+    });
+
+    await discussionRepository.softDelete(discussion.id);
+
+    assert.deepEqual(await operationRepository.findByAuthor(user.id), []);
+    assert.equal((await userRepository.getStats(user.id)).operationsPosted, 0);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { accountRestriction } from '../models';
+import type { IAuditLogRepository, ISessionRepository, IUserRepository } from '../models';
+import { requireModerator } from '../middleware/auth';
+import { makeModerationService } from '../services/moderation';
+import { ForbiddenError } from '../lib/errors';
+
+const admin = { id: 'admin', role: 'Admin' };
+const moderator = { id: 'mod', role: 'Moderator' };
+
+describe('accountRestriction', () => {
+  const now = new Date('2026-06-01T12:00:00Z');
+
+  it('blocks banned users and users with a running suspension', () => {
+    assert.equal(accountRestriction({ bannedAt: new Date('2026-01-01') }, now)?.code, 'ACCOUNT_BANNED');
+    assert.equal(accountRestriction({ suspendedUntil: new Date('2026-06-02') }, now)?.code, 'ACCOUNT_SUSPENDED');
+  });
+
+  it('lets expired suspensions go', () => {
+    assert.equal(accountRestriction({ suspendedUntil: new Date('2026-05-31') }, now), null);
+    assert.equal(accountRestriction({ bannedAt: null, suspendedUntil: null }, now), null);
+  });
+});
+
+describe('requireModerator', () => {
+  function run(userRole: string) {
+    let passed: unknown = 'not called';
+    requireModerator({ userRole } as any, {} as any, (error?: unknown) => (passed = error));
+    return passed;
+  }
+
+  it('lets moderators and admins through', () => {
+    assert.equal(run('Moderator'), undefined);
+    assert.equal(run('Admin'), undefined);
+  });
+
+  it('rejects everyone else with ROLE_REQUIRED', () => {
+    const error = run('User');
+    assert.ok(error instanceof ForbiddenError);
+    assert.equal(error.code, 'ROLE_REQUIRED');
+  });
+});
+
+describe('moderation service', () => {
+  function setup(users: any[]) {
+    const stored = new Map(users.map((user) => [user.id, { bannedAt: null, suspendedUntil: null, ...user }]));
+    const audit: any[] = [];
+    // The transaction client each write went through
+    const transaction = { id: 'tx' };
+    const writes: unknown[] = [];
+    let revoked = 0;
+
+    const userRepository = {
+      findById: async (id: string) => stored.get(id) ?? null,
+      update: async (id: string, data: any, tx?: unknown) => {
+        writes.push(tx);
+        stored.set(id, { ...stored.get(id), ...data });
+        return stored.get(id);
+      },
+    } as unknown as IUserRepository;
+    const sessionRepository = {
+      revokeAllForUser: async (userId: string, tx?: unknown) => {
+        writes.push(tx);
+        return ++revoked;
+      },
+    } as unknown as ISessionRepository;
+    const auditLogRepository = {
+      recordAction: async (action: (tx: unknown) => Promise<unknown>, entry: any) => {
+        const result = await action(transaction);
+        audit.push(typeof entry === 'function' ? entry(result) : entry);
+        return result;
+      },
+    } as unknown as IAuditLogRepository;
+
+    const service = makeModerationService(userRepository, sessionRepository, {} as any, {} as any, auditLogRepository);
+    return { service, stored, audit, writes, transaction, revoked: () => revoked };
+  }
+
+  it('records a suspension in the audit log', async () => {
+    const { service, audit } = setup([{ id: 'u1', username: 'ada', role: 'User' }]);
+
+    const user = await service.suspendUser(moderator, 'u1', 24, 'spam');
+
+    assert.ok(user.suspendedUntil! > new Date());
+    assert.equal(audit.length, 1);
+    assert.equal(audit[0].action, 'user.suspend');
+    assert.equal(audit[0].actorId, 'mod');
+    assert.equal(audit[0].reason, 'spam');
+  });
+
+  it('revokes every session of a banned user', async () => {
+    const { service, stored, revoked } = setup([{ id: 'u1', username: 'ada', role: 'User' }]);
+
+    await service.banUser(admin, 'u1', 'abuse');
+
+    assert.ok(stored.get('u1').bannedAt);
+    assert.equal(revoked(), 1);
+  });
+
+  it('writes a ban in the transaction of its audit entry', async () => {
+    const { service, audit, writes, transaction } = setup([{ id: 'u1', username: 'ada', role: 'User' }]);
+
+    await service.banUser(admin, 'u1', 'abuse');
+
+    assert.deepEqual(writes, [transaction, transaction]);
+    assert.deepEqual(audit[0].metadata, { revokedSessions: 1 });
+  });
+
+  it('keeps moderators away from staff accounts, themselves and bans', async () => {
+    const { service, audit } = setup([
+      { id: 'mod', username: 'mod', role: 'Moderator' },
+      { id: 'other', username: 'other', role: 'Moderator' },
+      { id: 'u1', username: 'ada', role: 'User', bannedAt: new Date() },
+    ]);
+
+    await assert.rejects(service.suspendUser(moderator, 'other', 1, 'x'), { code: 'ROLE_REQUIRED' });
+    await assert.rejects(service.suspendUser(moderator, 'mod', 1, 'x'), { code: 'SELF_MODERATION' });
+    await assert.rejects(service.reinstateUser(moderator, 'u1', 'x'), { code: 'ROLE_REQUIRED' });
+    assert.equal(audit.length, 0);
+  });
+});
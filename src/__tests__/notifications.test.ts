@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeNotification, makeNotificationService } from '../services/notifications';
+import type { INotificationRepository } from '../models';
+
+const discussion = { id: 'd1', startingNumber: 42, startingNumberExact: '42' };
+const multiplyByTwo = { id: 'o1', operationType: 'MULTIPLY', operandExact: '2', resultExact: '84', deletedAt: null };
+const ada = { id: 'ada', username: 'ada' };
+
+describe('describeNotification', () => {
+  it('groups several people into one line', () => {
+    const message = describeNotification({
+      actorIds: ['a', 'b', 'c', 'd', 'e'],
+      replyCount: 6,
+      lastActor: ada,
+      operation: multiplyByTwo,
+      discussion,
+    });
+
+    assert.equal(message, '5 people replied to your ×2');
+  });
+
+  it('names a single replier', () => {
+    const base = { actorIds: ['a'], lastActor: ada, operation: null, discussion };
+
+    assert.equal(describeNotification({ ...base, replyCount: 1 }), 'ada replied to your discussion 42');
+    assert.equal(describeNotification({ ...base, replyCount: 3 }), 'ada replied 3 times to your discussion 42');
+  });
+});
+
+describe('notifyReply', () => {
+  function fakeRepository(muted: boolean) {
+    const recorded: any[] = [];
+    const repository = {
+      recordReply: async (data: any) => recorded.push(data),
+      isMuted: async () => muted,
+    } as unknown as INotificationRepository;
+    return { repository, recorded };
+  }
+
+  const reply = { id: 'r1', discussionId: 'd1', parentId: 'o1', authorId: 'bob' };
+
+  it('records a reply for the author of the parent', async () => {
+    const { repository, recorded } = fakeRepository(false);
+    await makeNotificationService(repository).notifyReply(reply, 'ada');
+
+    assert.deepEqual(recorded, [{ userId: 'ada', discussionId: 'd1', operationId: 'o1', actorId: 'bob', replyId: 'r1' }]);
+  });
+
+  it('skips own replies and muted discussions', async () => {
+    const own = fakeRepository(false);
+    await makeNotificationService(own.repository).notifyReply(reply, 'bob');
+    assert.equal(own.recorded.length, 0);
+
+    const muted = fakeRepository(true);
+    await makeNotificationService(muted.repository).notifyReply(reply, 'ada');
+    assert.equal(muted.recorded.length, 0);
+  });
+});
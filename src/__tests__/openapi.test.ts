@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { apiRoutes } from '../routes';
+import { generateOpenApiDocument, toOpenApiPath } from '../lib/openapi';
+import { loadConfig } from '../lib/config';
+import { createMemoryRepositories } from '../models/memory';
+import { serveApp } from './helpers';
+
+const document = generateOpenApiDocument(apiRoutes);
+const paths = document.paths as Record<string, Record<string, any>>;
+
+/**
+ * What Express actually serves, read from the router stacks rather than from
+ * the definitions, so routes registered by hand are caught too
+ */
+function mountedRoutes() {
+  return apiRoutes.flatMap((group) =>
+    (group.router.stack as any[])
+      .filter((layer) => layer.route)
+      .flatMap((layer) =>
+        Object.keys(layer.route.methods).map((method) => ({
+          method,
+          path: toOpenApiPath(group.prefix, layer.route.path),
+        }))
+      )
+  );
+}
+
+function documentedRoutes() {
+  return Object.entries(paths).flatMap(([path, operations]) =>
+    Object.keys(operations).map((method) => ({ method, path }))
+  );
+}
+
+describe('OpenAPI document', () => {
+  it('is an OpenAPI 3.1 document', () => {
+    assert.equal(document.openapi, '3.1.0');
+    assert.ok(document.components.securitySchemes.bearerAuth);
+  });
+
+  it('documents every mounted route', () => {
+    const undocumented = mountedRoutes().filter(({ method, path }) => !paths[path]?.[method]);
+    assert.deepEqual(undocumented, [], 'Add these routes to the route definitions');
+  });
+
+  it('only documents routes that are mounted', () => {
+    const mounted = new Set(mountedRoutes().map(({ method, path }) => `${method} ${path}`));
+    const stale = documentedRoutes().filter(({ method, path }) => !mounted.has(`${method} ${path}`));
+    assert.deepEqual(stale, []);
+  });
+
+  it('gives every operation a unique id, a summary and a success response', () => {
+    const ids = new Set<string>();
+
+    for (const { method, path } of documentedRoutes()) {
+      const operation = paths[path]![method];
+
+      assert.ok(operation.summary, `${method} ${path} has no summary`);
+      assert.ok(!ids.has(operation.operationId), `Duplicate operationId ${operation.operationId}`);
+      ids.add(operation.operationId);
+      assert.ok(
+        Object.keys(operation.responses).some((status) => status.startsWith('2')),
+        `${method} ${path} has no success response`
+      );
+    }
+  });
+
+  it('describes auth requirements', () => {
+    const create = paths['/api/discussions']!.post;
+    assert.deepEqual(create.security, [{ bearerAuth: [] }]);
+    assert.equal(create['x-auth'], 'registered');
+    assert.ok(create.responses['401']);
+    assert.ok(create.responses['403']);
+
+    const list = paths['/api/discussions']!.get;
+    assert.deepEqual(list.security, []);
+    assert.equal(list.responses['401'], undefined);
+
+    const register = paths['/api/auth/register']!.post;
+    assert.deepEqual(register.security, [{}, { bearerAuth: [] }]);
+  });
+
+  it('describes the starting number conflict payload', () => {
+    const conflict = paths['/api/discussions']!.post.responses['409'];
+    assert.deepEqual(conflict.content['application/json'].schema, {
+      $ref: '#/components/schemas/StartingNumberConflict',
+    });
+
+    const schema = document.components.schemas.StartingNumberConflict!;
+    assert.ok(schema.properties.existingDiscussion);
+    assert.ok(schema.properties.error);
+  });
+
+  it('documents parameters and request bodies from the validation schemas', () => {
+    const tree = paths['/api/discussions/{id}/tree']!.get;
+    const names = tree.parameters.map((parameter: any) => `${parameter.in}:${parameter.name}`);
+    assert.deepEqual(names, ['path:id', 'query:maxDepth', 'query:sort', 'query:cursor']);
+
+    const create = paths['/api/operations']!.post;
+    const body = create.requestBody.content['application/json'].schema;
+    assert.deepEqual([...body.required].sort(), ['discussionId', 'operationType']);
+    assert.deepEqual(create.responses['400'].content['application/json'].schema, {
+      $ref: '#/components/schemas/ErrorResponse',
+    });
+  });
+});
+
+describe('GET /api/docs', () => {
+  const served = serveApp({
+    ...createMemoryRepositories(),
+    config: loadConfig({ JWT_SECRET: 'test-secret-that-is-long-enough-0123456789' }),
+  });
+
+  it('loads Swagger UI from this server, not a CDN', async () => {
+    const page = await (await fetch(`${served.baseUrl}/api/docs`)).text();
+    assert.doesNotMatch(page, /https?:\/\//);
+
+    const script = await fetch(`${served.baseUrl}/api/docs/assets/swagger-ui-bundle.js`);
+    assert.equal(script.status, 200);
+    assert.match(script.headers.get('content-type')!, /javascript/);
+    await script.body?.cancel();
+  });
+});
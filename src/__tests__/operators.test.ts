@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidOperandError } from '../lib/errors';
+import { Rational } from '../lib/rational';
+import { computeResult, getOperator, listOperators, registerOperator } from '../models';
+
+function compute(input: string | number, operation: string, operand: string | number | null = null) {
+  return computeResult(Rational.parse(input), operation, operand === null ? null : Rational.parse(operand));
+}
+
+describe('operator registry', () => {
+  it('lists the built-in operators with their arity', () => {
+    const arities = Object.fromEntries(listOperators().map((operator) => [operator.name, operator.arity]));
+
+    assert.equal(arities.ADD, 2);
+    assert.equal(arities.NEGATE, 1);
+    assert.equal(getOperator('SQUARE_CIRCLE'), undefined);
+  });
+
+  it('refuses to register a name twice', () => {
+    assert.throws(
+      () => registerOperator({ name: 'ADD', symbol: '+', label: 'Add', description: '', arity: 1, evaluate: (x) => x }),
+      /already registered: ADD/
+    );
+  });
+});
+
+describe('computeResult', () => {
+  it('applies binary operators to the previous value and the operand', () => {
+    const cases: [string | number, string, string | number, string][] = [
+      [6, 'ADD', '1/2', '13/2'],
+      [6, 'SUBTRACT', 10, '-4'],
+      ['2/3', 'MULTIPLY', '3/4', '1/2'],
+      [1, 'DIVIDE', 3, '1/3'],
+      ['2/3', 'POWER', -2, '9/4'],
+      [8, 'POWER', '2/3', '4'],
+      [-7, 'MODULO', 3, '-1'],
+      [-27, 'ROOT', 3, '-3'],
+      [1000, 'LOG', 10, '3'],
+      [2, 'MIN', '5/2', '2'],
+      [2, 'MAX', '5/2', '5/2'],
+    ];
+
+    for (const [input, operation, operand, expected] of cases) {
+      assert.equal(compute(input, operation, operand).toString(), expected, `${input} ${operation} ${operand}`);
+    }
+  });
+
+  it('applies unary operators to the previous value alone', () => {
+    assert.equal(compute('3/2', 'NEGATE').toString(), '-3/2');
+    assert.equal(compute('-3/2', 'ABS').toString(), '3/2');
+    assert.equal(compute('-3/2', 'FLOOR').toString(), '-2');
+  });
+
+  it('marks irrational results as approximate', () => {
+    const root = compute(2, 'ROOT', 2);
+
+    assert.equal(root.exact, false);
+    assert.ok(Math.abs(root.toNumber() - Math.SQRT2) < 1e-12);
+    assert.equal(compute(4, 'ROOT', 2).exact, true);
+  });
+
+  it("rejects unknown operators, missing operands and inputs outside an operator's domain", () => {
+    const rejects = (fn: () => unknown, message: RegExp) =>
+      assert.throws(fn, (error) => error instanceof InvalidOperandError && message.test(error.message));
+
+    rejects(() => compute(1, 'SQUARE_CIRCLE', 1), /Invalid operation type/);
+    rejects(() => compute(1, 'ADD'), /ADD requires an operand/);
+    rejects(() => compute(1, 'DIVIDE', 0), /Division by zero/);
+    rejects(() => compute(-4, 'ROOT', 2), /odd integer roots/);
+    rejects(() => compute(0, 'LOG', 2), /only defined for positive numbers/);
+    rejects(() => compute(-8, 'POWER', '1/3'), /fractional power/);
+    rejects(() => compute(10, 'POWER', 1000), /too large to store/);
+  });
+
+  it('rounds powers whose exact result would be too large to keep', () => {
+    const started = Date.now();
+    let value = Rational.parse('1/3');
+    for (const exponent of [1024, 1024, 100]) {
+      value = computeResult(value, 'POWER', Rational.parse(exponent));
+    }
+
+    assert.ok(Date.now() - started < 1000);
+    assert.equal(value.exact, false);
+    assert.equal(value.toString(), '0');
+    assert.equal(compute('1/3', 'POWER', 1024).exact, true);
+    assert.equal(compute(`1/${'3'.repeat(1000)}`, 'MULTIPLY', `1/${'7'.repeat(1000)}`).exact, false);
+    assert.equal(compute(2, 'LOG', `1/${'3'.repeat(1000)}`).exact, false);
+  });
+});
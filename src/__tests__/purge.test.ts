@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createApp, getAppContext } from '../app';
+import { purgeDeleted } from '../jobs/purge-deleted';
+import { loadConfig } from '../lib/config';
+import { runInAppContext } from '../lib/app-context';
+import { createMemoryRepositories } from '../models/memory';
+
+describe('purgeDeleted', () => {
+  it('deletes guests whose session expired, without anyone signing in', async () => {
+    const config = loadConfig({ JWT_SECRET: 'test-secret-that-is-long-enough-0123456789' });
+    const context = getAppContext(createApp({ ...createMemoryRepositories(), config }))!;
+    const { userRepository } = context.repositories;
+
+    const now = new Date();
+    const expired = await userRepository.create({ username: 'guest-old', role: 'Guest', expiresAt: now });
+    const current = await userRepository.create({
+      username: 'guest-new',
+      role: 'Guest',
+      expiresAt: new Date(now.getTime() + 60_000),
+    });
+
+    const purged = await runInAppContext(context, () => purgeDeleted(now));
+
+    assert.equal(purged.guests, 1);
+    assert.equal(await userRepository.findById(expired.id), null);
+    assert.notEqual(await userRepository.findById(current.id), null);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../lib/config';
+import { InMemoryRateLimitStore } from '../lib/rate-limit';
+import { createMemoryRepositories } from '../models/memory';
+import { serveApp } from './helpers';
+
+describe('InMemoryRateLimitStore', () => {
+  const rule = { limit: 3, windowSeconds: 60 };
+
+  it('allows a burst of `limit`, then refills at limit per window', async () => {
+    const store = new InMemoryRateLimitStore();
+    const start = new Date('2026-01-01T00:00:00Z');
+    const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+    for (const remaining of [2, 1, 0]) {
+      assert.equal((await store.take('a', rule, start)).remaining, remaining);
+    }
+
+    const refused = await store.take('a', rule, start);
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.retryAfterSeconds, 20);
+    assert.equal(refused.resetSeconds, 60);
+
+    // One token every 20 seconds
+    assert.equal((await store.take('a', rule, at(20))).allowed, true);
+    assert.equal((await store.take('a', rule, at(21))).allowed, false);
+
+    // Other keys have their own bucket
+    assert.equal((await store.take('b', rule, start)).remaining, 2);
+  });
+});
+
+describe('rate-limited routes', () => {
+  const { post } = serveApp({
+    ...createMemoryRepositories(),
+    config: loadConfig({
+      JWT_SECRET: 'test-secret-that-is-long-enough-0123456789',
+      RATE_LIMIT_LOGIN: '2/1m',
+      RATE_LIMIT_REGISTER: '10/1h',
+      RATE_LIMIT_CREATE_OPERATION: '3/1m',
+    }),
+    rateLimitStore: new InMemoryRateLimitStore(),
+  });
+
+  it('refuses logins past the limit with RateLimit and Retry-After headers', async () => {
+    const first = await post('/api/auth/login', { username: 'nobody', password: 'guess' });
+    assert.equal(first.status, 401);
+    assert.equal(first.headers.get('ratelimit-limit'), '2');
+    assert.equal(first.headers.get('ratelimit-remaining'), '1');
+
+    await post('/api/auth/login', { username: 'nobody', password: 'guess' });
+    const limited = await post('/api/auth/login', { username: 'nobody', password: 'guess' });
+
+    assert.equal(limited.status, 429);
+    assert.equal(limited.body.error.code, 'RATE_LIMITED');
+    assert.equal(limited.headers.get('retry-after'), '30');
+    assert.equal(limited.headers.get('ratelimit-remaining'), '0');
+  });
+
+  it('limits operations per user and rejects identical replies', async () => {
+    const { body: user } = await post('/api/auth/register', {
+      email: 'spam@example.com',
+      username: 'spammer',
+      password: 'correct horse',
+    });
+    const { body: discussion } = await post('/api/discussions', { startingNumber: 12 }, user.token);
+    const reply = (operand: number) =>
+      post('/api/operations', { discussionId: discussion.id, operationType: 'ADD', operand }, user.token);
+
+    const first = await reply(1);
+    assert.equal(first.status, 201);
+
+    const duplicate = await reply(1);
+    assert.equal(duplicate.status, 409);
+    assert.equal(duplicate.body.error.code, 'DUPLICATE_OPERATION');
+    assert.equal(duplicate.body.existingOperation.id, first.body.id);
+
+    assert.equal((await reply(2)).status, 201);
+    assert.equal((await reply(3)).status, 429);
+  });
+});
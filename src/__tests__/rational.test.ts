@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_EXACT_BITS, MAX_TEXT_LENGTH, Rational } from '../lib/rational';
+
+describe('Rational', () => {
+  it('parses integers, decimals, exponents and fractions exactly', () => {
+    assert.equal(Rational.parse(42).toString(), '42');
+    assert.equal(Rational.parse('0.1').toString(), '1/10');
+    assert.equal(Rational.parse('-1.5e3').toString(), '-1500');
+    assert.equal(Rational.parse('2.5e-2').toString(), '1/40');
+    assert.equal(Rational.parse('6/-4').toString(), '-3/2');
+    assert.equal(Rational.parse(0.1).add(Rational.parse(0.2)).toString(), '3/10');
+  });
+
+  it('rejects values that are not finite numbers or too large to keep', () => {
+    for (const value of ['abc', '', '1/0', '1e1001', Infinity, NaN, null]) {
+      assert.equal(Rational.tryParse(value), null, String(value));
+    }
+
+    assert.equal(Rational.tryParse(`1/${'3'.repeat(1300)}`), null);
+    assert.equal(Rational.tryParse('1'.repeat(MAX_TEXT_LENGTH + 1)), null);
+    assert.ok(Rational.tryParse(`1/${'3'.repeat(1200)}`));
+  });
+
+  it('keeps exactness through arithmetic unless an approximation is involved', () => {
+    const third = Rational.parse('1/3');
+
+    assert.equal(third.mul(Rational.parse(3)).toString(), '1');
+    assert.equal(third.exact, true);
+    assert.equal(third.add(Rational.approximate(0.5)).exact, false);
+    assert.equal(Rational.parse('-7/2').floor().toString(), '-4');
+    assert.equal(Rational.parse(-7).mod(Rational.parse(3)).toString(), '-1');
+    assert.throws(() => third.div(Rational.ZERO), /Division by zero/);
+  });
+
+  it('takes exact roots and powers', () => {
+    assert.equal(Rational.parse('8/27').root(3n)?.toString(), '2/3');
+    assert.equal(Rational.parse(2).root(2n), null);
+    assert.equal(Rational.parse('2/3').pow(-2n).toString(), '9/4');
+  });
+
+  it('refuses powers whose exact result would exceed MAX_EXACT_BITS', () => {
+    const third = Rational.parse('1/3');
+
+    assert.equal(third.canPow(1024n), true);
+    assert.equal(third.pow(1024n).bitLength(), 1624);
+    assert.equal(third.pow(1024n).canPow(1024n), false);
+    assert.throws(() => third.pow(BigInt(MAX_EXACT_BITS)), /too large to compute exactly/);
+    assert.equal(Rational.ONE.neg().canPow(10n ** 9n), true);
+  });
+
+  it('rounds to the nearest double for display', () => {
+    assert.equal(Rational.parse('1/3').toNumber(), 1 / 3);
+    assert.equal(Rational.parse('-2/3').toNumber(), -2 / 3);
+    assert.equal(Rational.parse('1e300').toNumber(), 1e300);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Rational } from '../lib/rational';
+import { recomputeTree } from '../models';
+
+// 8 ─ a (log₂) ─ b (−3) ─ c (+1)
+//   ─ d (×2)
+const operations = [
+  { id: 'a', parentId: null, operationType: 'LOG', operandExact: '2' },
+  { id: 'b', parentId: 'a', operationType: 'SUBTRACT', operandExact: '3' },
+  { id: 'c', parentId: 'b', operationType: 'ADD', operandExact: '1' },
+  { id: 'd', parentId: null, operationType: 'MULTIPLY', operandExact: '2' },
+];
+
+function results(plan: ReturnType<typeof recomputeTree>) {
+  return Object.fromEntries(plan.updates.map((update) => [update.id, update.result.toString()]));
+}
+
+describe('recomputeTree', () => {
+  it('recomputes every result from the new starting number', () => {
+    const plan = recomputeTree(operations, null, Rational.parse(32));
+
+    assert.deepEqual(results(plan), { a: '5', b: '2', c: '3', d: '64' });
+    assert.deepEqual(plan.failures, []);
+  });
+
+  it('recomputes only the subtree below an edited operation', () => {
+    const plan = recomputeTree(operations, 'a', Rational.parse('1/2'));
+
+    assert.deepEqual(results(plan), { b: '-5/2', c: '-3/2' });
+  });
+
+  it('reports operations that break and everything that depends on them', () => {
+    const plan = recomputeTree(operations, null, Rational.parse(-8));
+
+    assert.deepEqual(results(plan), { d: '-16' });
+    assert.deepEqual(
+      plan.failures.map((failure) => [failure.id, failure.input]),
+      [
+        ['a', '-8'],
+        ['b', null],
+        ['c', null],
+      ]
+    );
+    assert.equal(plan.failures[0]!.reason, 'Logarithm is only defined for positive numbers');
+    assert.equal(plan.failures[1]!.reason, 'Depends on invalid operation a');
+  });
+});
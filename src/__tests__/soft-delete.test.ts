@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactDeleted, redactWithRelatives } from '../models';
+
+const live = {
+  id: 'live',
+  operationType: 'ADD',
+  operand: 1,
+  operandExact: '1',
+  resultExact: '8',
+  authorId: 'ada',
+  author: { id: 'ada', username: 'ada' },
+  deletedAt: null,
+  hiddenAt: null,
+};
+const deleted = { ...live, id: 'deleted', deletedAt: new Date('2026-10-01') };
+const hidden = { ...live, id: 'hidden', hiddenAt: new Date('2026-10-01') };
+
+describe('redactDeleted', () => {
+  it('leaves live operations untouched', () => {
+    assert.equal(redactDeleted(live), live);
+  });
+
+  it('keeps the place and result of deleted and hidden operations, not what was posted or by whom', () => {
+    const redacted = { operationType: null, operand: null, operandExact: null, authorId: null, author: null };
+
+    assert.deepEqual(redactDeleted(deleted), { ...deleted, ...redacted, deleted: true });
+    assert.deepEqual(redactDeleted(hidden), { ...hidden, ...redacted, hidden: true });
+    assert.equal(redactDeleted(deleted).resultExact, '8');
+  });
+});
+
+describe('redactWithRelatives', () => {
+  it('redacts the parent and children loaded with an operation', () => {
+    const redacted = redactWithRelatives({ ...live, parent: deleted, children: [live, hidden] });
+
+    assert.equal(redacted.operationType, 'ADD');
+    assert.equal(redacted.parent.author, null);
+    assert.deepEqual(
+      redacted.children.map((child) => child.authorId),
+      ['ada', null]
+    );
+  });
+
+  it('leaves relations that were not loaded out', () => {
+    assert.equal('parent' in redactWithRelatives(deleted), false);
+    assert.equal(redactWithRelatives({ ...live, parent: null }).parent, null);
+  });
+});
@@ -0,0 +1,122 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadConfig } from '../lib/config';
+import { InMemoryEventBus } from '../lib/event-bus';
+import { createMemoryRepositories } from '../models/memory';
+import { serveApp } from './helpers';
+
+describe('InMemoryEventBus', () => {
+  it('numbers events per channel and replays what came after an id', async () => {
+    const bus = new InMemoryEventBus(2);
+    const received: string[] = [];
+    const unsubscribe = bus.subscribe('a', (event) => received.push(event.type));
+
+    await bus.publish('a', 'one', {});
+    await bus.publish('b', 'other', {});
+    unsubscribe();
+    await bus.publish('a', 'two', {});
+    await bus.publish('a', 'three', {});
+
+    assert.deepEqual(received, ['one']);
+    assert.deepEqual((await bus.since('a', '2'))?.map((event) => event.type), ['three']);
+    assert.deepEqual(await bus.since('a', '3'), []);
+
+    // Event 1 fell out of the history, 4 was never sent
+    assert.equal(await bus.since('a', '0'), null);
+    assert.equal(await bus.since('a', '4'), null);
+    assert.equal(await bus.since('a', 'abc'), null);
+  });
+
+  it('forgets channels that went without subscribers and events for longer than the TTL', async () => {
+    const bus = new InMemoryEventBus(10, 20);
+    bus.subscribe('watched', () => {});
+
+    await bus.publish('idle', 'one', {});
+    await bus.publish('watched', 'one', {});
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    await bus.publish('busy', 'one', {});
+
+    // Clients that saw the evicted history have to resync
+    assert.equal(await bus.since('idle', '1'), null);
+    assert.deepEqual(await bus.since('watched', '1'), []);
+    assert.equal((await bus.publish('idle', 'two', {})).id, '1');
+  });
+});
+
+describe('GET /api/discussions/:id/stream', () => {
+  const served = serveApp({
+    ...createMemoryRepositories(),
+    config: loadConfig({ JWT_SECRET: 'test-secret-that-is-long-enough-0123456789' }),
+    eventBus: new InMemoryEventBus(),
+  });
+  let token: string;
+  let discussionId: string;
+
+  async function post(path: string, body: unknown) {
+    const response = await served.post(path, body, token);
+    assert.equal(response.status, 201);
+    return response.body;
+  }
+
+  before(async () => {
+    token = (await post('/api/auth/register', { email: 'live@example.com', username: 'live', password: 'correct horse' }))
+      .token;
+    discussionId = (await post('/api/discussions', { startingNumber: 10 })).id;
+  });
+
+  /**
+   * Opens the stream and reads until `until` appears in what was received
+   */
+  async function listen(headers: Record<string, string>, until: string, action?: () => Promise<unknown>) {
+    const controller = new AbortController();
+    const response = await fetch(`${served.baseUrl}/api/discussions/${discussionId}/stream`, {
+      headers,
+      signal: controller.signal,
+    });
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    // The first chunk arrives once the stream is subscribed
+    text += decoder.decode((await reader.read()).value);
+    await action?.();
+
+    while (!text.includes(until)) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+
+    controller.abort();
+    return text;
+  }
+
+  it('sends events published after connecting', async () => {
+    const text = await listen({}, 'event: operation.created', () =>
+      post('/api/operations', { discussionId, operationType: 'ADD', operand: 5 })
+    );
+
+    assert.match(text, /^: connected/);
+    assert.match(text, /id: 1\nevent: operation\.created\ndata: \{.*"resultExact":"15"/);
+    assert.match(text, /"author":\{"id":"[^"]+","username":"live"\}/);
+    assert.doesNotMatch(text, /live@example\.com/);
+  });
+
+  it('replays missed events after Last-Event-ID', async () => {
+    await post('/api/operations', { discussionId, operationType: 'MULTIPLY', operand: 2 });
+
+    const text = await listen({ 'Last-Event-ID': '1' }, 'event: operation.created');
+    assert.match(text, /^id: 2\nevent: operation\.created\ndata: \{.*"resultExact":"20"/);
+  });
+
+  it('asks clients to resync when their last event is unknown', async () => {
+    const text = await listen({ 'Last-Event-ID': '99' }, 'event: resync');
+    assert.equal(text, `event: resync\ndata: {"discussionId":"${discussionId}"}\n\n`);
+  });
+
+  it('404s for unknown discussions', async () => {
+    assert.equal((await served.request('GET', '/api/discussions/missing/stream')).status, 404);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Rational } from '../lib/rational';
+import { createMemoryRepositories } from '../models/memory';
+import { decodeTreeCursor, makeTreeService } from '../services/tree';
+
+/**
+ * A discussion starting at 10 with this tree, created in this order:
+ *
+ *   a (+1) ─ b (×2) ─ c (−3)
+ *   d (+5)
+ *   e (+7) ─ f (+1)
+ */
+async function seed() {
+  const repositories = createMemoryRepositories();
+  const { userRepository, discussionRepository, operationRepository } = repositories;
+
+  const user = await userRepository.create({ email: 'a@example.com', username: 'alice', password: 'hash' });
+  const discussion = await discussionRepository.create({ startingNumber: Rational.parse(10), authorId: user.id });
+
+  const ids: Record<string, string> = {};
+  const post = async (name: string, parent: string | null, operationType: string, operand: number, result: number) => {
+    const operation = await operationRepository.create({
+      discussionId: discussion.id,
+      parentId: parent === null ? null : ids[parent]!,
+      operationType,
+      operand: Rational.parse(operand),
+      result: Rational.parse(result),
+      authorId: user.id,
+    });
+    ids[name] = operation.id;
+  };
+
+  await post('a', null, 'ADD', 1, 11);
+  await post('b', 'a', 'MULTIPLY', 2, 22);
+  await post('c', 'b', 'SUBTRACT', 3, 19);
+  await post('d', null, 'ADD', 5, 15);
+  await post('e', null, 'ADD', 7, 17);
+  await post('f', 'e', 'ADD', 1, 18);
+
+  const service = makeTreeService(discussionRepository, operationRepository, repositories.voteRepository);
+  return { repositories, service, discussion, ids };
+}
+
+describe('makeTreeService', () => {
+  it('nests operations under the starting number and sorts siblings', async () => {
+    const { service, discussion, ids } = await seed();
+
+    const newest = await service.getDiscussionTree(discussion.id, { maxDepth: 5, sort: 'newest' });
+    assert.equal(newest?.startingNumberExact, '10');
+    assert.deepEqual(newest?.children.map((node) => node.id), [ids.e, ids.d, ids.a]);
+    assert.deepEqual(newest?.children[2]!.children[0]!.children.map((node) => node.resultExact), ['19']);
+
+    const oldest = await service.getDiscussionTree(discussion.id, { maxDepth: 5, sort: 'oldest' });
+    assert.deepEqual(oldest?.children.map((node) => node.id), [ids.a, ids.d, ids.e]);
+
+    const replies = await service.getDiscussionTree(discussion.id, { maxDepth: 5, sort: 'replies' });
+    assert.deepEqual(replies?.children.map((node) => node.id), [ids.e, ids.a, ids.d]);
+  });
+
+  it('cuts the tree at maxDepth and lazy-loads the rest through cursors', async () => {
+    const { service, discussion, ids } = await seed();
+
+    const tree = await service.getDiscussionTree(discussion.id, { maxDepth: 1, sort: 'oldest' });
+    const a = tree!.children[0]!;
+    assert.deepEqual(a.children, []);
+    assert.equal(a.replyCount, 1);
+    assert.equal(decodeTreeCursor(a.cursor!), ids.a);
+    assert.equal(tree!.children[1]!.cursor, null);
+
+    const subtree = await service.getSubtree(discussion.id, a.cursor!, { maxDepth: 1, sort: 'oldest' });
+    assert.equal(subtree?.id, ids.a);
+    assert.deepEqual(subtree?.children.map((node) => node.id), [ids.b]);
+    assert.equal(decodeTreeCursor(subtree!.children[0]!.cursor!), ids.b);
+
+    assert.equal(await service.getSubtree('other', a.cursor!, { maxDepth: 1, sort: 'oldest' }), null);
+    assert.equal(await service.getSubtree(discussion.id, 'not-a-cursor', { maxDepth: 1, sort: 'oldest' }), null);
+  });
+
+  it('roots the tree without loading every operation of the discussion', async () => {
+    const { repositories, discussion } = await seed();
+    const discussionRepository = {
+      ...repositories.discussionRepository,
+      findById: async () => assert.fail('findById loads every operation'),
+    };
+    const service = makeTreeService(discussionRepository, repositories.operationRepository, repositories.voteRepository);
+
+    assert.equal((await service.getDiscussionTree(discussion.id, { maxDepth: 1, sort: 'newest' }))?.replyCount, 3);
+    assert.equal(await service.getDiscussionTree('missing', { maxDepth: 1, sort: 'newest' }), null);
+
+    await repositories.discussionRepository.softDelete(discussion.id);
+    assert.equal(await service.getDiscussionTree(discussion.id, { maxDepth: 1, sort: 'newest' }), null);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { tallyFeedback } from '../models';
+import { buildTree, wilsonScore } from '../services/tree';
+
+function node(id: string, upvotes: number, downvotes: number, createdAt: number) {
+  return {
+    id,
+    parentId: null,
+    operationType: 'ADD',
+    operand: 1,
+    operandExact: '1',
+    result: 2,
+    resultExact: '2',
+    resultApproximate: false,
+    depth: 1,
+    author: { id: 'u', username: 'u' },
+    createdAt: new Date(createdAt),
+    upvotes,
+    downvotes,
+  };
+}
+
+describe('wilsonScore', () => {
+  it('trusts many votes over a few', () => {
+    assert.equal(wilsonScore(0, 0), 0);
+    assert.ok(wilsonScore(40, 10) > wilsonScore(1, 0));
+    assert.ok(wilsonScore(10, 0) > wilsonScore(10, 5));
+    assert.ok(wilsonScore(1, 0) > wilsonScore(0, 1));
+  });
+
+  it('stays between 0 and 1', () => {
+    for (const [up, down] of [[0, 50], [1, 1], [500, 0]] as const) {
+      const score = wilsonScore(up, down);
+      assert.ok(score >= 0 && score <= 1, `${up}/${down}: ${score}`);
+    }
+  });
+});
+
+describe('buildTree with sort=best', () => {
+  it('ranks siblings by score, newest first on ties', () => {
+    const tree = buildTree(
+      [node('lucky', 1, 0, 1), node('strong', 40, 10, 2), node('unvoted-old', 0, 0, 3), node('unvoted-new', 0, 0, 4)],
+      { rootId: null, maxDepth: 5, sort: 'best' }
+    );
+
+    assert.deepEqual(
+      tree.map((child) => child.id),
+      ['strong', 'lucky', 'unvoted-new', 'unvoted-old']
+    );
+    assert.equal(tree[0]!.upvotes, 40);
+    assert.deepEqual(tree[2]!.reactions, { clever: 0, elegant: 0, 'wrong-turn': 0 });
+  });
+});
+
+describe('tallyFeedback', () => {
+  it('groups counts per operation and ignores retired reactions', () => {
+    const counts = tallyFeedback(
+      [
+        { operationId: 'a', value: 1, count: 3 },
+        { operationId: 'a', value: -1, count: 1 },
+      ],
+      [
+        { operationId: 'a', reaction: 'clever', count: 2 },
+        { operationId: 'b', reaction: 'retired', count: 5 },
+      ]
+    );
+
+    assert.deepEqual(counts.get('a'), { upvotes: 3, downvotes: 1, reactions: { clever: 2, elegant: 0, 'wrong-turn': 0 } });
+    assert.equal(counts.has('b'), false);
+  });
+});
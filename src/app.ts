@@ -0,0 +1,76 @@
+import express, { Request, Response, type Express } from 'express';
+import cors from 'cors';
+import { prismaRepositories, type Repositories } from './models';
+import { loadConfig, type Config } from './lib/config';
+import { runInAppContext, type AppContext } from './lib/app-context';
+import { InMemoryEventBus, type IEventBus } from './lib/event-bus';
+import { InMemoryRateLimitStore, type IRateLimitStore } from './lib/rate-limit';
+import { errorHandler, notFoundHandler } from './middleware/error-handler';
+import { apiRoutes } from './routes';
+import docsRouter from './routes/docs';
+import healthRouter from './routes/health';
+
+export type AppDependencies = Partial<Repositories> & {
+  eventBus?: IEventBus;
+  rateLimitStore?: IRateLimitStore;
+  config?: Config;
+};
+
+/**
+ * Builds the Express app on the given storage backend. Repositories that are
+ * not given are the Prisma-backed ones, so `createApp()` is the production app
+ * and `createApp(createMemoryRepositories())` needs no database at all.
+ * Without a `config`, it is read from the environment, so an app with missing
+ * or weak secrets is never built.
+ *
+ * Each app keeps its dependencies in `app.locals.context` and serves every
+ * request in that context, so several apps in one process never share
+ * repositories, config, event bus or rate limit buckets. Without an
+ * `eventBus` or `rateLimitStore`, the app gets in-memory ones of its own.
+ *
+ * @throws ConfigError listing every invalid setting
+ */
+export function createApp(deps: AppDependencies = {}) {
+  const { eventBus, rateLimitStore, config = loadConfig(), ...repositories } = deps;
+
+  const context: AppContext = {
+    config,
+    repositories: { ...prismaRepositories, ...repositories },
+    eventBus: eventBus ?? new InMemoryEventBus(),
+    rateLimitStore: rateLimitStore ?? new InMemoryRateLimitStore(),
+  };
+
+  const app = express();
+  app.locals.context = context;
+  app.use((req, res, next) => runInAppContext(context, next));
+
+  // Behind a proxy, req.ip (used for rate limits) comes from X-Forwarded-For
+  app.set('trust proxy', config.trustProxy);
+
+  app.use(cors());
+  app.use(express.json());
+
+  app.get("/", async (req: Request, res: Response) => {
+    res.json({ status: "API running successfully on Vercel" });
+  });
+  app.use(healthRouter);
+
+  for (const group of apiRoutes) {
+    app.use(group.prefix, group.router);
+  }
+  app.use('/api', docsRouter);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+}
+
+/**
+ * What `app` was created with, e.g. to run jobs on the same backend
+ */
+export function getAppContext(app: Express): AppContext {
+  return app.locals.context;
+}
+
+export default createApp;
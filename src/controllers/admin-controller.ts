@@ -0,0 +1,189 @@
+import { Response } from 'express';
+import { AuditLogFilter, getRepositories, redactDeleted, withPublicAuthor } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { publishDiscussionEvent } from '../lib/event-bus';
+import makeModerationService, { Moderator } from '../services/moderation';
+import type {
+  AuditLogQuery,
+  ChangeRoleBody,
+  ReasonBody,
+  ReassignDiscussionBody,
+  SuspendUserBody,
+} from '../schemas/admin';
+
+// Built per request, from whichever storage backend the app was created with
+function moderationService() {
+  const { userRepository, sessionRepository, discussionRepository, operationRepository, auditLogRepository } =
+    getRepositories();
+  return makeModerationService(
+    userRepository,
+    sessionRepository,
+    discussionRepository,
+    operationRepository,
+    auditLogRepository
+  );
+}
+
+function moderator(req: AuthRequest): Moderator {
+  return { id: req.userId!, role: req.userRole! };
+}
+
+export const AdminController = {
+  /**
+   * Suspends a user for a number of hours (moderators and admins)
+   * POST /api/admin/users/:id/suspend
+   */
+  async suspendUser(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { hours, reason } = req.body as SuspendUserBody;
+
+    const user = await moderationService().suspendUser(moderator(req), id, hours, reason);
+
+    return res.json(user);
+  },
+
+  /**
+   * Bans a user and revokes their sessions (admins only)
+   * POST /api/admin/users/:id/ban
+   */
+  async banUser(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    const user = await moderationService().banUser(moderator(req), id, reason);
+
+    return res.json(user);
+  },
+
+  /**
+   * Lifts a suspension, or a ban when called by an admin
+   * POST /api/admin/users/:id/reinstate
+   */
+  async reinstateUser(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    const user = await moderationService().reinstateUser(moderator(req), id, reason);
+
+    return res.json(user);
+  },
+
+  /**
+   * Makes a user a User, Moderator or Admin (admins only)
+   * PATCH /api/admin/users/:id/role
+   */
+  async changeRole(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { role, reason } = req.body as ChangeRoleBody;
+
+    const user = await moderationService().changeRole(moderator(req), id, role, reason);
+
+    return res.json(user);
+  },
+
+  /**
+   * POST /api/admin/discussions/:id/lock
+   */
+  async lockDiscussion(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    const discussion = await moderationService().setDiscussionLocked(moderator(req), id, true, reason);
+
+    await publishDiscussionEvent(id, 'discussion.locked', { id, lockedAt: discussion.lockedAt });
+
+    return res.json({ id, lockedAt: discussion.lockedAt });
+  },
+
+  /**
+   * POST /api/admin/discussions/:id/unlock
+   */
+  async unlockDiscussion(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    await moderationService().setDiscussionLocked(moderator(req), id, false, reason);
+
+    await publishDiscussionEvent(id, 'discussion.unlocked', { id, lockedAt: null });
+
+    return res.json({ id, lockedAt: null });
+  },
+
+  /**
+   * Hands a discussion over to another registered user (admins only)
+   * POST /api/admin/discussions/:id/reassign
+   */
+  async reassignDiscussion(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { username, reason } = req.body as ReassignDiscussionBody;
+
+    const discussion = await moderationService().reassignDiscussion(moderator(req), id, username, reason);
+
+    await publishDiscussionEvent(id, 'discussion.updated', withPublicAuthor(discussion));
+
+    return res.json(discussion);
+  },
+
+  /**
+   * Permanently deletes a discussion with all its operations (admins only)
+   * DELETE /api/admin/discussions/:id
+   */
+  async deleteDiscussion(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    await moderationService().deleteDiscussion(moderator(req), id, reason);
+
+    await publishDiscussionEvent(id, 'discussion.deleted', { id });
+
+    return res.status(204).send();
+  },
+
+  /**
+   * POST /api/admin/operations/:id/hide
+   */
+  async hideOperation(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    const operation = await moderationService().setOperationHidden(moderator(req), id, true, reason);
+
+    await publishDiscussionEvent(operation.discussionId, 'operation.hidden', redactDeleted(operation));
+
+    return res.json({ id, hiddenAt: operation.hiddenAt });
+  },
+
+  /**
+   * POST /api/admin/operations/:id/unhide
+   */
+  async unhideOperation(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { reason } = req.body as ReasonBody;
+
+    const operation = await moderationService().setOperationHidden(moderator(req), id, false, reason);
+
+    await publishDiscussionEvent(operation.discussionId, 'operation.unhidden', withPublicAuthor(operation));
+
+    return res.json({ id, hiddenAt: null });
+  },
+
+  /**
+   * Moderation actions, newest first
+   * GET /api/admin/audit-log?limit=&cursor=&actorId=&action=&targetType=&targetId=
+   */
+  async getAuditLog(req: AuthRequest, res: Response) {
+    const { limit, cursor, ...filters } = req.query as unknown as AuditLogQuery;
+
+    const filter: AuditLogFilter = {};
+    if (filters.actorId !== undefined) filter.actorId = filters.actorId;
+    if (filters.action !== undefined) filter.action = filters.action;
+    if (filters.targetType !== undefined) filter.targetType = filters.targetType;
+    if (filters.targetId !== undefined) filter.targetId = filters.targetId;
+
+    const page = await moderationService().auditLog(filter, cursor === undefined ? { limit } : { limit, cursor });
+
+    return res.json(page);
+  },
+};
+
+export default AdminController;
@@ -1,44 +1,75 @@
 import { Request, Response } from 'express';
-import { UserRepository } from '../models';
+import { getRepositories } from '../models';
+import { AuthRequest } from '../middleware/auth';
 import makeAuthService from '../services/auth';
+import type { LoginBody, RefreshBody, RegisterBody } from '../schemas/auth';
 
-const authService = makeAuthService(UserRepository);
+// Built per request, from whichever storage backend the app was created with
+function authService() {
+  const { userRepository, sessionRepository } = getRepositories();
+  return makeAuthService(userRepository, sessionRepository);
+}
 
 export const AuthController = {
   /**
    * POST /api/auth/register
+   * Called with a Guest token, upgrades that guest to a full user and keeps its id.
    */
-  async register(req: Request, res: Response) {
-    try {
-      const { email, username, password } = req.body;
-
-      if (!email || !username || !password) {
-        return res.status(400).json({ error: 'Email, username, and password are required' });
-      }
-
-      const result = await authService.register({ email, username, password });
-      return res.status(201).json(result);
-    } catch (error: any) {
-      return res.status(400).json({ error: error.message });
-    }
+  async register(req: AuthRequest, res: Response) {
+    const { email, username, password } = req.body as RegisterBody;
+
+    const guestId = req.userRole === 'Guest' ? req.userId : undefined;
+
+    const result = await authService().register({ email, username, password }, guestId);
+    return res.status(guestId ? 200 : 201).json(result);
   },
 
   /**
    * POST /api/auth/login
    */
   async login(req: Request, res: Response) {
-    try {
-      const { username, password } = req.body;
-
-      if (!username || !password) {
-        return res.status(400).json({ error: 'Username and password are required' });
-      }
-
-      const result = await authService.login({ username, password });
-      return res.status(200).json(result);
-    } catch (error: any) {
-      return res.status(401).json({ error: error.message });
-    }
+    const { username, password } = req.body as LoginBody;
+
+    const result = await authService().login({ username, password });
+    return res.status(200).json(result);
+  },
+
+  /**
+   * Rotates a refresh token into a new access/refresh token pair
+   * POST /api/auth/refresh
+   */
+  async refresh(req: Request, res: Response) {
+    const { refreshToken } = req.body as RefreshBody;
+
+    const result = await authService().refresh(refreshToken);
+    return res.status(200).json(result);
+  },
+
+  /**
+   * Ends the current session
+   * POST /api/auth/logout
+   */
+  async logout(req: AuthRequest, res: Response) {
+    await authService().logout(req.sessionId!);
+    return res.status(204).send();
+  },
+
+  /**
+   * Ends every session of the current user
+   * POST /api/auth/logout-all
+   */
+  async logoutAll(req: AuthRequest, res: Response) {
+    const revokedSessions = await authService().logoutAll(req.userId!);
+    return res.status(200).json({ revokedSessions });
+  },
+
+  /**
+   * Anonymous, read-only guest session
+   * POST /api/auth/guest
+   */
+  async guest(req: Request, res: Response) {
+    const result = await authService().createGuest();
+    return res.status(201).json(result);
   },
 };
 
@@ -0,0 +1,45 @@
+import { Response } from 'express';
+import { getRepositories } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { NotFoundError } from '../lib/errors';
+import makeChallengeService from '../services/challenges';
+import type { LeaderboardQuery, SolutionsQuery } from '../schemas/challenges';
+
+// Built per request, from whichever storage backend the app was created with
+function challengeService() {
+  const { discussionRepository, challengeRepository } = getRepositories();
+  return makeChallengeService(discussionRepository, challengeRepository);
+}
+
+export const ChallengeController = {
+  /**
+   * Winning paths of a challenge discussion, shortest first, then earliest
+   * GET /api/discussions/:id/solutions?limit=
+   */
+  async getSolutions(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { limit } = req.query as unknown as SolutionsQuery;
+
+    const solutions = await challengeService().getSolutions(id, limit);
+
+    if (!solutions) {
+      throw new NotFoundError('Challenge');
+    }
+
+    return res.json(solutions);
+  },
+
+  /**
+   * Users by number of challenges solved
+   * GET /api/challenges/leaderboard?limit=
+   */
+  async getLeaderboard(req: AuthRequest, res: Response) {
+    const { limit } = req.query as unknown as LeaderboardQuery;
+
+    const leaderboard = await challengeService().getLeaderboard(limit);
+
+    return res.json(leaderboard);
+  },
+};
+
+export default ChallengeController;
@@ -1,130 +1,436 @@
 import { Response } from 'express';
-import { DiscussionRepository, DiscussionModel } from '../models';
+import {
+  getRepositories,
+  InvalidTreeError,
+  recomputeTree,
+  readStartingNumber,
+  DiscussionListOptions,
+  redactDeleted,
+  restoreDeadline,
+  withPublicAuthor,
+} from '../models';
 import { AuthRequest } from '../middleware/auth';
-import { Prisma } from '@prisma/client';
+import { BadRequestError, ConflictError, ForbiddenError, GoneError, NotFoundError } from '../lib/errors';
+import { DiscussionEvent, discussionChannel, getEventBus, publishDiscussionEvent } from '../lib/event-bus';
+import makeTreeService from '../services/tree';
+import makeArchiveService, { planImport, renderArchive } from '../services/archive';
+import makeNotificationService from '../services/notifications';
+import type {
+  CreateDiscussionBody,
+  DiscussionTreeQuery,
+  ExportFormat,
+  ImportDiscussionBody,
+  ListDiscussionsQuery,
+  UpdateDiscussionBody,
+} from '../schemas/discussions';
+
+// Built per request, from whichever storage backend the app was created with
+function treeService() {
+  const { discussionRepository, operationRepository, voteRepository } = getRepositories();
+  return makeTreeService(discussionRepository, operationRepository, voteRepository);
+}
+
+function archiveService() {
+  const { discussionRepository, operationRepository } = getRepositories();
+  return makeArchiveService(discussionRepository, operationRepository);
+}
+
+function notificationService() {
+  return makeNotificationService(getRepositories().notificationRepository);
+}
+
+const STREAM_HEARTBEAT_MS = 25_000;
+
+function startingNumberTaken(existing: any, message: string) {
+  return new ConflictError(
+    message,
+    {
+      existingDiscussion: {
+        id: existing.id,
+        startingNumber: existing.startingNumber,
+        startingNumberExact: existing.startingNumberExact,
+      },
+    },
+    'STARTING_NUMBER_TAKEN'
+  );
+}
+
+function writeEvent(res: Response, event: DiscussionEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
 
 export const DiscussionController = {
   /**
    * POST /api/discussions
    */
   async create(req: AuthRequest, res: Response) {
-    try {
-      const { startingNumber } = req.body;
+    const { discussionRepository } = getRepositories();
+    const { startingNumber, rules, challenge } = req.body as CreateDiscussionBody;
 
-      if (startingNumber === undefined || startingNumber === null) {
-        return res.status(400).json({ error: 'startingNumber is required' });
-      }
+    const existing = await discussionRepository.findByStartingNumber(startingNumber);
 
-      const numberValue = parseFloat(startingNumber);
+    if (existing) {
+      throw startingNumberTaken(
+        existing,
+        existing.deletedAt
+          ? 'This starting number belongs to a deleted discussion that can still be restored'
+          : 'This starting number is already taken'
+      );
+    }
 
-      const existing = await DiscussionModel.findByStartingNumber(numberValue);
+    const discussion = await discussionRepository.create({
+      startingNumber,
+      authorId: req.userId!,
+      ...(rules ? { rules } : {}),
+      ...(challenge ? { challenge: { target: challenge.target, stepBudget: challenge.stepBudget } } : {}),
+    });
 
-      if (existing) {
-        return res.status(409).json({
-          error: 'This starting number is already taken',
-          existingDiscussion: {
-            id: existing.id,
-            startingNumber: existing.startingNumber,
-          },
-        });
+    return res.status(201).json(discussion);
+  },
+
+  /**
+   * GET /api/discussions?limit=&cursor=&sort=newest|operations|active&author=
+   *   &minStartingNumber=&maxStartingNumber=&createdAfter=&createdBefore=
+   */
+  async getAll(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const query = req.query as unknown as ListDiscussionsQuery;
+
+    const options: DiscussionListOptions = { limit: query.limit, sort: query.sort };
+
+    if (query.cursor !== undefined) options.cursor = query.cursor;
+    if (query.author !== undefined) options.author = query.author;
+    if (query.minStartingNumber !== undefined) options.minStartingNumber = query.minStartingNumber;
+    if (query.maxStartingNumber !== undefined) options.maxStartingNumber = query.maxStartingNumber;
+    if (query.createdAfter !== undefined) options.createdAfter = query.createdAfter;
+    if (query.createdBefore !== undefined) options.createdBefore = query.createdBefore;
+
+    const page = await discussionRepository.findAll(options);
+
+    return res.json(page);
+  },
+
+  /**
+   * GET /api/discussions/:id
+   */
+  async getById(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const discussion = await discussionRepository.findById(id);
+
+    if (!discussion || discussion.deletedAt) {
+      throw new NotFoundError('Discussion');
+    }
+
+    return res.json({ ...discussion, operations: discussion.operations.map(redactDeleted) });
+  },
+
+  /**
+   * Nested computation tree, rooted at the starting number
+   * GET /api/discussions/:id/tree?maxDepth=&sort=newest|oldest|replies|best&cursor=
+   */
+  async getTree(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { maxDepth, sort, cursor } = req.query as unknown as DiscussionTreeQuery;
+
+    const options = { maxDepth, sort };
+
+    if (cursor !== undefined) {
+      const subtree = await treeService().getSubtree(id, cursor, options);
+
+      if (!subtree) {
+        throw new BadRequestError('Invalid cursor for this discussion', 'INVALID_CURSOR');
       }
 
-      const discussion = await DiscussionRepository.create({
-        startingNumber: numberValue,
-        authorId: req.userId!,
-      });
+      return res.json(subtree);
+    }
+
+    const tree = await treeService().getDiscussionTree(id, options);
 
-      return res.status(201).json(discussion);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
+    if (!tree) {
+      throw new NotFoundError('Discussion');
     }
+
+    return res.json(tree);
   },
 
   /**
-   * GET /api/discussions
+   * Download the whole tree as JSON (importable), CSV, Graphviz DOT or Mermaid
+   * GET /api/discussions/:id/export?format=json|csv|dot|mermaid
    */
-  async getAll(req: AuthRequest, res: Response) {
-    try {
-      const discussions = await DiscussionRepository.findAll();
+  async export(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+    const { format } = req.query as unknown as { format: ExportFormat };
 
-      return res.json(discussions);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
+    const archive = await archiveService().exportDiscussion(id);
+
+    if (!archive) {
+      throw new NotFoundError('Discussion');
     }
+
+    const { contentType, extension, body } = renderArchive(archive, format);
+
+    res.attachment(`discussion-${id}.${extension}`);
+    return res.type(contentType).send(body);
   },
 
   /**
-   * GET /api/discussions/:id
+   * Creates a new discussion from a JSON export. Every result is recomputed
+   * and must match; deleted and invalid operations are left out.
+   * POST /api/discussions/import
    */
-  async getById(req: AuthRequest, res: Response) {
-    try {
-      const { id } = req.params;
+  async import(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const plan = planImport(req.body as ImportDiscussionBody);
 
-      if (!id) {
-        return res.status(400).json({ error: 'Discussion ID is required' });
-      }
+    const existing = await discussionRepository.findByStartingNumber(plan.startingNumber);
+
+    if (existing) {
+      throw startingNumberTaken(
+        existing,
+        existing.deletedAt
+          ? 'This starting number belongs to a deleted discussion that can still be restored'
+          : 'This starting number is already taken'
+      );
+    }
 
-      const discussion = await DiscussionRepository.findById(id);
+    const discussion = await archiveService().importDiscussion(plan, req.userId!);
 
-      if (!discussion) {
-        return res.status(404).json({ error: 'Discussion not found' });
-      }
+    return res.status(201).json(discussion);
+  },
+
+  /**
+   * Live updates as Server-Sent Events: operation.created, discussion.updated
+   * and subtree.recomputed. Reconnecting clients send Last-Event-ID and get
+   * what they missed; a `resync` event means they have to reload instead.
+   * GET /api/discussions/:id/stream
+   */
+  async stream(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const { id } = req.params as { id: string };
 
-      return res.json(discussion);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
+    if (!(await discussionRepository.exists(id))) {
+      throw new NotFoundError('Discussion');
     }
+
+    const channel = discussionChannel(id);
+    const bus = getEventBus();
+    const lastEventId = req.header('Last-Event-ID') ?? (req.query.lastEventId as string | undefined);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    // Subscribe before replaying so nothing published in between is lost
+    let lastSentId = lastEventId ? Number(lastEventId) : 0;
+    let replaying = true;
+    const pending: DiscussionEvent[] = [];
+
+    const send = (event: DiscussionEvent) => {
+      if (Number(event.id) <= lastSentId) return;
+      lastSentId = Number(event.id);
+      writeEvent(res, event);
+    };
+
+    const unsubscribe = bus.subscribe(channel, (event) => (replaying ? pending.push(event) : send(event)));
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    try {
+      if (lastEventId) {
+        const missed = await bus.since(channel, lastEventId);
+
+        if (missed === null) {
+          lastSentId = 0;
+          res.write(`event: resync\ndata: ${JSON.stringify({ discussionId: id })}\n\n`);
+        } else {
+          missed.forEach(send);
+        }
+      } else {
+        res.write(': connected\n\n');
+      }
+    } catch (error) {
+      // The stream is already open, so there is no error response to send
+      console.error(`Failed to replay events for discussion ${id}`, error);
+      return res.end();
+    }
+
+    replaying = false;
+    pending.forEach(send);
   },
 
   /**
-   * Update a discussion's starting number (only by author)
+   * Update a discussion's starting number and/or rules (only by author)
+   * Every operation result is recomputed from a new starting number.
+   * Operations that can no longer be computed reject the update, or get
+   * flagged as invalid when `onInvalid` is "flag". New rules only apply to
+   * operations posted from now on.
    * PATCH /api/discussions/:id
    */
   async update(req: AuthRequest, res: Response) {
-    try {
-      const { id } = req.params;
-      const { startingNumber } = req.body;
+    const { discussionRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+    const { startingNumber, rules, onInvalid } = req.body as UpdateDiscussionBody;
 
-      if (!id) {
-        return res.status(400).json({ error: 'Discussion ID is required' });
-      }
+    const discussion = await discussionRepository.findById(id);
 
-      if (startingNumber === undefined || startingNumber === null) {
-        return res.status(400).json({ error: 'startingNumber is required' });
-      }
+    if (!discussion || discussion.deletedAt) {
+      throw new NotFoundError('Discussion');
+    }
 
-      const discussion = await DiscussionRepository.findById(id);
+    if (discussion.authorId !== req.userId) {
+      throw new ForbiddenError('Not authorized to update this discussion');
+    }
 
-      if (!discussion) {
-        return res.status(404).json({ error: 'Discussion not found' });
-      }
+    if (discussion.lockedAt) {
+      throw new ForbiddenError('This discussion is locked', 'DISCUSSION_LOCKED');
+    }
 
-      if (discussion.authorId !== req.userId) {
-        return res.status(403).json({ error: 'Not authorized to update this discussion' });
-      }
+    const unchanged = !startingNumber || startingNumber.equals(readStartingNumber(discussion));
 
-      const numberValue = parseFloat(startingNumber);
+    if (!unchanged) {
+      const existing = await discussionRepository.findByStartingNumber(startingNumber);
 
-      if (numberValue !== discussion.startingNumber) {
-        const existing = await DiscussionModel.findByStartingNumber(numberValue);
+      if (existing) {
+        throw startingNumberTaken(existing, 'This starting number is already taken by another discussion');
+      }
+    }
+
+    if (unchanged) {
+      const updated = await discussionRepository.update(id, rules ? { rules } : {});
+      await publishDiscussionEvent(id, 'discussion.updated', withPublicAuthor(updated));
+      return res.json({ ...updated, recomputedOperations: 0, flaggedOperations: [] });
+    }
 
-        if (existing) {
-          return res.status(409).json({
-            error: 'This starting number is already taken by another discussion',
-            existingDiscussion: {
-              id: existing.id,
-              startingNumber: existing.startingNumber,
-            },
-          });
+    const { discussion: updated, plan } = await discussionRepository.updateStartingNumber(
+      id,
+      startingNumber,
+      (operations) => {
+        const plan = recomputeTree(operations, null, startingNumber);
+        if (plan.failures.length > 0 && onInvalid === 'reject') {
+          throw new InvalidTreeError(plan.failures, 'The new starting number makes some operations invalid');
         }
-      }
+        return plan;
+      },
+      rules
+    );
 
-      const updated = await DiscussionRepository.update(id, { startingNumber: numberValue });
+    await publishDiscussionEvent(id, 'discussion.updated', withPublicAuthor(updated));
+    await publishDiscussionEvent(id, 'subtree.recomputed', {
+      rootOperationId: null,
+      results: plan.updates.map((update) => ({
+        id: update.id,
+        result: update.result.toNumber(),
+        resultExact: update.result.toString(),
+        resultApproximate: !update.result.exact,
+      })),
+      flaggedOperations: plan.failures,
+    });
 
-      return res.json(updated);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
+    return res.json({
+      ...updated,
+      recomputedOperations: plan.updates.length,
+      flaggedOperations: plan.failures,
+    });
+  },
+
+  /**
+   * Stops reply notifications from this discussion for the current user
+   * POST /api/discussions/:id/mute
+   */
+  async mute(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    if (!(await discussionRepository.exists(id))) {
+      throw new NotFoundError('Discussion');
     }
+
+    await notificationService().mute(req.userId!, id);
+
+    return res.json({ discussionId: id, muted: true });
+  },
+
+  /**
+   * DELETE /api/discussions/:id/mute
+   */
+  async unmute(req: AuthRequest, res: Response) {
+    const { id } = req.params as { id: string };
+
+    await notificationService().unmute(req.userId!, id);
+
+    return res.json({ discussionId: id, muted: false });
+  },
+
+  /**
+   * Soft-deletes a discussion (only by author). It disappears from listings
+   * and can be restored until the grace period is over.
+   * DELETE /api/discussions/:id
+   */
+  async delete(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const discussion = await discussionRepository.findById(id);
+
+    if (!discussion || discussion.deletedAt) {
+      throw new NotFoundError('Discussion');
+    }
+
+    if (discussion.authorId !== req.userId) {
+      throw new ForbiddenError('Not authorized to delete this discussion');
+    }
+
+    const deleted = await discussionRepository.softDelete(id);
+
+    await publishDiscussionEvent(id, 'discussion.deleted', { id });
+
+    return res.json({
+      id: deleted.id,
+      deletedAt: deleted.deletedAt,
+      restorableUntil: restoreDeadline(deleted.deletedAt),
+    });
+  },
+
+  /**
+   * Restores a soft-deleted discussion (only by author, within the grace period)
+   * POST /api/discussions/:id/restore
+   */
+  async restore(req: AuthRequest, res: Response) {
+    const { discussionRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const discussion = await discussionRepository.findById(id);
+
+    if (!discussion) {
+      throw new NotFoundError('Discussion');
+    }
+
+    if (discussion.authorId !== req.userId) {
+      throw new ForbiddenError('Not authorized to restore this discussion');
+    }
+
+    if (!discussion.deletedAt) {
+      throw new BadRequestError('Discussion is not deleted', 'NOT_DELETED');
+    }
+
+    if (restoreDeadline(discussion.deletedAt) < new Date()) {
+      throw new GoneError('The restore grace period for this discussion is over');
+    }
+
+    const restored = await discussionRepository.restore(id);
+
+    await publishDiscussionEvent(id, 'discussion.restored', withPublicAuthor(restored));
+
+    return res.json(restored);
   },
 };
 
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { generateOpenApiDocument } from '../lib/openapi';
+import { apiRoutes } from '../routes';
+
+let document: ReturnType<typeof generateOpenApiDocument> | null = null;
+
+export const DocsController = {
+  /**
+   * GET /api/openapi.json
+   */
+  async getSpec(req: Request, res: Response) {
+    // Routes are fixed at startup, so the document only has to be built once
+    document ??= generateOpenApiDocument(apiRoutes);
+    return res.json(document);
+  },
+
+  /**
+   * Browsable docs for the OpenAPI document
+   * GET /api/docs
+   */
+  async getPage(req: Request, res: Response) {
+    const assets = `${req.baseUrl}/docs/assets`;
+
+    return res.type('html').send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Number Discussion API</title>
+  <link rel="stylesheet" href="${assets}/swagger-ui.css" />
+</head>
+<body>
+  <div id="docs"></div>
+  <script src="${assets}/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#docs', persistAuthorization: true });
+  </script>
+</body>
+</html>`);
+  },
+};
+
+export default DocsController;
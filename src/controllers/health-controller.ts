@@ -0,0 +1,70 @@
+import { Request, Response } from 'express';
+import { getRepositories } from '../models';
+
+// A database that takes longer than this to answer counts as down
+const CHECK_TIMEOUT_MS = 2000;
+
+type Check = { status: 'ok' } | { status: 'failing'; message: string; [detail: string]: unknown };
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+export const HealthController = {
+  /**
+   * Liveness: the process is up and the event loop is not stuck. Checks
+   * nothing else, so a database outage does not get the server restarted.
+   * GET /healthz
+   */
+  async live(req: Request, res: Response) {
+    return res.json({ status: 'ok' });
+  },
+
+  /**
+   * Readiness: the database answers and its schema is fully migrated. 503
+   * with the failing checks otherwise.
+   * GET /readyz
+   */
+  async ready(req: Request, res: Response) {
+    const { healthRepository } = getRepositories();
+    const checks: Record<'database' | 'migrations', Check> = {
+      database: { status: 'ok' },
+      migrations: { status: 'ok' },
+    };
+
+    try {
+      await withTimeout(healthRepository.ping(), CHECK_TIMEOUT_MS);
+    } catch (error) {
+      console.error('Readiness check: database ping failed', error);
+      checks.database = { status: 'failing', message: 'Database is unreachable' };
+      checks.migrations = { status: 'failing', message: 'Unknown while the database is unreachable' };
+    }
+
+    if (checks.database.status === 'ok') {
+      try {
+        const { pending, failed } = await withTimeout(healthRepository.migrationStatus(), CHECK_TIMEOUT_MS);
+
+        if (failed.length > 0) {
+          checks.migrations = { status: 'failing', message: 'Migrations failed', failed };
+        } else if (pending.length > 0) {
+          checks.migrations = { status: 'failing', message: 'Migrations have not been applied', pending };
+        }
+      } catch (error) {
+        console.error('Readiness check: reading the migration status failed', error);
+        checks.migrations = { status: 'failing', message: 'Migration status is unknown' };
+      }
+    }
+
+    const ready = Object.values(checks).every((check) => check.status === 'ok');
+    return res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'not ready', checks });
+  },
+};
+
+export default HealthController;
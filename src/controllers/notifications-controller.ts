@@ -0,0 +1,41 @@
+import { Response } from 'express';
+import { getRepositories, NotificationListOptions } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import makeNotificationService from '../services/notifications';
+import type { ListNotificationsQuery, MarkReadBody } from '../schemas/notifications';
+
+// Built per request, from whichever storage backend the app was created with
+function notificationService() {
+  return makeNotificationService(getRepositories().notificationRepository);
+}
+
+export const NotificationController = {
+  /**
+   * Reply notifications of the current user, most recently updated first
+   * GET /api/notifications?limit=&cursor=&unread=
+   */
+  async list(req: AuthRequest, res: Response) {
+    const query = req.query as unknown as ListNotificationsQuery;
+
+    const options: NotificationListOptions = { limit: query.limit, unreadOnly: query.unread };
+    if (query.cursor !== undefined) options.cursor = query.cursor;
+
+    const page = await notificationService().list(req.userId!, options);
+
+    return res.json(page);
+  },
+
+  /**
+   * Marks some (`ids`) or all (`all: true`) notifications as read
+   * POST /api/notifications/read
+   */
+  async markRead(req: AuthRequest, res: Response) {
+    const { ids } = req.body as MarkReadBody;
+
+    const result = await notificationService().markRead(req.userId!, ids ?? null);
+
+    return res.json(result);
+  },
+};
+
+export default NotificationController;
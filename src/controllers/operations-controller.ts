@@ -1,114 +1,568 @@
 import { Response } from 'express';
-import { OperationRepository, DiscussionRepository, OperationType, computeResult } from '../models';
+import {
+  getRepositories,
+  InvalidTreeError,
+  checkRules,
+  computeResult,
+  getOperator,
+  listOperators,
+  readChallenge,
+  readResult,
+  readRules,
+  readStartingNumber,
+  recomputeTree,
+  redactDeleted,
+  redactWithRelatives,
+  restoreDeadline,
+  emptyFeedback,
+  withPublicAuthor,
+  type Reaction,
+} from '../models';
 import { AuthRequest } from '../middleware/auth';
+import Rational from '../lib/rational';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  GoneError,
+  NotFoundError,
+  RuleViolationError,
+  ValidationError,
+} from '../lib/errors';
+import { publishDiscussionEvent } from '../lib/event-bus';
+import { renderChain } from '../lib/expression';
+import makeNotificationService from '../services/notifications';
+import { isWinningOperation } from '../services/challenges';
+import type { AddReactionBody, CreateOperationBody, UpdateOperationBody, VoteBody } from '../schemas/operations';
+
+// Built per request, from whichever storage backend the app was created with
+function notificationService() {
+  return makeNotificationService(getRepositories().notificationRepository);
+}
+
+function invalidField(field: string, message: string) {
+  return new ValidationError('Request validation failed', [{ path: `body.${field}`, message }]);
+}
+
+function unknownOperator() {
+  return invalidField('operationType', `Must be one of ${listOperators().map((op) => op.name).join(', ')}`);
+}
+
+/**
+ * @throws RuleViolationError naming the first of the discussion's rules the operation breaks
+ */
+function enforceRules(discussion: { rules?: unknown }, attempt: Parameters<typeof checkRules>[1]) {
+  const violation = checkRules(readRules(discussion), attempt);
+  if (violation) {
+    throw new RuleViolationError(violation.rule, violation.message);
+  }
+}
+
+/**
+ * The operation, if it can still be voted on and reacted to
+ * @throws NotFoundError for deleted operations and discussions
+ * @throws ForbiddenError for operations hidden by a moderator
+ */
+async function findRateable(id: string) {
+  const operation = await getRepositories().operationRepository.findById(id);
+
+  if (!operation || operation.deletedAt || operation.discussion.deletedAt) {
+    throw new NotFoundError('Operation');
+  }
+
+  if (operation.hiddenAt) {
+    throw new ForbiddenError('This operation was hidden by a moderator', 'OPERATION_HIDDEN');
+  }
+
+  return operation;
+}
+
+/**
+ * Current counts for everyone, plus what the user gave. Also pushed to
+ * subscribers of the discussion, without the user's part.
+ */
+async function sendFeedback(res: Response, operation: { id: string; discussionId: string }, userId: string) {
+  const { voteRepository } = getRepositories();
+
+  const counts = (await voteRepository.countFor([operation.id])).get(operation.id) ?? emptyFeedback();
+
+  await publishDiscussionEvent(operation.discussionId, 'operation.feedback', { operationId: operation.id, ...counts });
+
+  return res.json({ operationId: operation.id, ...counts, mine: await voteRepository.findByUser(operation.id, userId) });
+}
 
 export const OperationController = {
   /**
    * POST /api/operations
    */
   async create(req: AuthRequest, res: Response) {
-    try {
-      const { discussionId, parentId, operationType, operand } = req.body;
+    const { discussionRepository, operationRepository } = getRepositories();
+    const { discussionId, parentId, operationType, operand } = req.body as CreateOperationBody;
+
+    // Validate operation type against the operator registry
+    const operator = getOperator(operationType);
+    if (!operator) {
+      throw unknownOperator();
+    }
+
+    const operandValue = operand ?? null;
+
+    if (operator.arity === 2 && !operandValue) {
+      throw invalidField('operand', `Required for ${operator.name}`);
+    }
+
+    if (operator.arity === 1 && operandValue) {
+      throw invalidField('operand', `${operator.name} does not take an operand`);
+    }
 
-      if (!discussionId || !operationType || operand === undefined || operand === null) {
-        return res.status(400).json({
-          error: 'discussionId, operationType, and operand are required',
-        });
+    const discussion = await discussionRepository.findById(discussionId);
+
+    if (!discussion || discussion.deletedAt) {
+      throw new NotFoundError('Discussion');
+    }
+
+    if (discussion.lockedAt) {
+      throw new ForbiddenError('This discussion is locked', 'DISCUSSION_LOCKED');
+    }
+
+    let previousValue: Rational;
+    let depth = 1;
+    // Whoever posted what this replies to gets notified
+    let repliedToAuthorId: string | null = discussion.authorId;
+
+    if (parentId) {
+      // Responding to an existing operation
+      const parentOperation = await operationRepository.findById(parentId);
+
+      if (!parentOperation) {
+        throw new NotFoundError('Parent operation');
+      }
+
+      if (parentOperation.discussionId !== discussionId) {
+        throw new BadRequestError('Parent operation does not belong to this discussion', 'PARENT_MISMATCH');
       }
 
-      // Validate operation type
-      const validOperations: OperationType[] = ['ADD', 'SUBTRACT', 'MULTIPLY', 'DIVIDE'];
-      if (!validOperations.includes(operationType)) {
-        return res.status(400).json({
-          error: 'operationType must be ADD, SUBTRACT, MULTIPLY, or DIVIDE',
-        });
+      if (parentOperation.deletedAt) {
+        throw new BadRequestError('Parent operation has been deleted', 'PARENT_DELETED');
       }
 
-      const discussion = await DiscussionRepository.findById(discussionId);
+      if (parentOperation.hiddenAt) {
+        throw new BadRequestError('Parent operation has been hidden by a moderator', 'PARENT_HIDDEN');
+      }
 
-      if (!discussion) {
-        return res.status(404).json({ error: 'Discussion not found' });
+      if (parentOperation.invalidReason) {
+        throw new BadRequestError(
+          'Parent operation is flagged as invalid and cannot be replied to',
+          'PARENT_INVALID'
+        );
       }
 
-      let previousValue: number;
+      previousValue = readResult(parentOperation);
+      depth = parentOperation.depth + 1;
+      repliedToAuthorId = parentOperation.authorId;
+    } else {
+      // Responding directly to the discussion's starting number
+      previousValue = readStartingNumber(discussion);
+    }
 
-      if (parentId) {
-        // Responding to an existing operation
-        const parentOperation = await OperationRepository.findById(parentId);
+    enforceRules(discussion, { operationType: operator.name, operand: operandValue, depth });
 
-        if (!parentOperation) {
-          return res.status(404).json({ error: 'Parent operation not found' });
-        }
+    const result = computeResult(previousValue, operator.name, operandValue);
 
-        if (parentOperation.discussionId !== discussionId) {
-          return res.status(400).json({
-            error: 'Parent operation does not belong to this discussion',
-          });
-        }
+    // Posting the same reply twice is always a double submit or spam
+    const duplicate = await operationRepository.findDuplicate({
+      discussionId,
+      parentId: parentId || null,
+      operationType: operator.name,
+      operand: operandValue,
+      authorId: req.userId!,
+    });
 
-        previousValue = parentOperation.result;
-      } else {
-        // Responding directly to the discussion's starting number
-        previousValue = discussion.startingNumber;
-      }
+    if (duplicate) {
+      throw new ConflictError(
+        'You already posted this operation here',
+        { existingOperation: { id: duplicate.id, createdAt: duplicate.createdAt } },
+        'DUPLICATE_OPERATION'
+      );
+    }
 
-      const result = computeResult(previousValue, operationType, parseFloat(operand));
+    const operation = await operationRepository.create({
+      discussionId,
+      parentId: parentId || null,
+      operationType: operator.name,
+      operand: operandValue,
+      result,
+      authorId: req.userId!,
+    });
 
-      const operation = await OperationRepository.create({
-        discussionId,
-        parentId: parentId || null,
-        operationType,
-        operand: parseFloat(operand),
-        result,
-        authorId: req.userId!,
-      });
+    await publishDiscussionEvent(discussionId, 'operation.created', withPublicAuthor(operation));
 
-      return res.status(201).json(operation);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
+    const challenge = readChallenge(discussion);
+    if (challenge && isWinningOperation(operation, challenge)) {
+      await publishDiscussionEvent(discussionId, 'challenge.solved', {
+        operationId: operation.id,
+        authorId: operation.authorId,
+        steps: operation.depth,
+      });
     }
+    await notificationService().notifyReply(operation, repliedToAuthorId);
+
+    return res.status(201).json(operation);
+  },
+
+  /**
+   * Supported operators, so clients can build their pickers
+   * GET /api/operations/types
+   */
+  async getTypes(req: AuthRequest, res: Response) {
+    return res.json(
+      listOperators().map(({ name, symbol, label, description, arity }) => ({
+        name,
+        symbol,
+        label,
+        description,
+        arity,
+        requiresOperand: arity === 2,
+      }))
+    );
   },
 
   /**
    * GET /api/operations/discussion/:discussionId
    */
   async getByDiscussion(req: AuthRequest, res: Response) {
-    try {
-      const { discussionId } = req.params;
+    const { discussionRepository, operationRepository } = getRepositories();
+    const { discussionId } = req.params as { discussionId: string };
 
-      if (!discussionId) {
-        return res.status(400).json({ error: 'Discussion ID is required' });
-      }
+    if (!(await discussionRepository.exists(discussionId))) {
+      throw new NotFoundError('Discussion');
+    }
 
-      const operations = await OperationRepository.findByDiscussion(discussionId);
+    const operations = await operationRepository.findByDiscussion(discussionId);
 
-      return res.json(operations);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
-    }
+    return res.json(operations.map(redactWithRelatives));
   },
 
   /**
    * GET /api/operations/:id
    */
   async getById(req: AuthRequest, res: Response) {
-    try {
-      const { id } = req.params;
+    const { operationRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const operation = await operationRepository.findById(id);
+
+    if (!operation || operation.discussion.deletedAt) {
+      throw new NotFoundError('Operation');
+    }
+
+    return res.json(redactWithRelatives(operation));
+  },
+
+  /**
+   * Path from the starting number to this operation, with the whole path
+   * rendered as plain text, LaTeX and MathML
+   * GET /api/operations/:id/chain
+   */
+  async getChain(req: AuthRequest, res: Response) {
+    const { operationRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const chain = await operationRepository.findChain(id);
+
+    if (!chain || chain.discussion.deletedAt) {
+      throw new NotFoundError('Operation');
+    }
+
+    const last = chain.operations[chain.operations.length - 1];
+
+    // A deleted (or hidden) step hides how its result was reached, so the
+    // rendered expression starts from the result of the last such operation
+    const lastDeletedIndex = chain.operations
+      .map((operation) => Boolean(operation.deletedAt || operation.hiddenAt))
+      .lastIndexOf(true);
+    const lastDeleted = chain.operations[lastDeletedIndex];
+
+    const expression = renderChain(
+      lastDeleted ? readResult(lastDeleted) : readStartingNumber(chain.discussion),
+      chain.operations.slice(lastDeletedIndex + 1).map((operation) => ({
+        operationType: operation.operationType,
+        operand: operation.operandExact === null ? null : Rational.parse(operation.operandExact),
+      })),
+      readResult(last)
+    );
+
+    const { deletedAt, ...discussion } = chain.discussion;
+
+    return res.json({
+      discussion,
+      chain: chain.operations.map(redactDeleted),
+      expressionStartsAt: lastDeleted ? lastDeleted.id : null,
+      result: last.result,
+      resultExact: last.resultExact,
+      resultApproximate: last.resultApproximate,
+      expression,
+    });
+  },
+
+  /**
+   * Changes the operator and/or operand (only by author). The operation and
+   * everything below it is recomputed; the replaced version is kept as a
+   * revision. `onInvalid` decides what happens to descendants that can no
+   * longer be computed: `reject` (default) refuses the edit, `flag` marks them.
+   * PATCH /api/operations/:id
+   */
+  async update(req: AuthRequest, res: Response) {
+    const { operationRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+    const { operationType, operand, onInvalid } = req.body as UpdateOperationBody;
+
+    const operation = await operationRepository.findById(id);
+
+    if (!operation || operation.deletedAt || operation.discussion.deletedAt) {
+      throw new NotFoundError('Operation');
+    }
+
+    if (operation.authorId !== req.userId) {
+      throw new ForbiddenError('Not authorized to edit this operation');
+    }
+
+    if (operation.hiddenAt) {
+      throw new ForbiddenError('This operation was hidden by a moderator', 'OPERATION_HIDDEN');
+    }
+
+    if (operation.discussion.lockedAt) {
+      throw new ForbiddenError('This discussion is locked', 'DISCUSSION_LOCKED');
+    }
+
+    const operator = getOperator(operationType ?? operation.operationType);
+    if (!operator) {
+      throw unknownOperator();
+    }
+
+    // Switching to a unary operator drops the operand; switching between
+    // binary operators keeps it unless a new one is given
+    let operandValue: Rational | null = null;
+
+    if (operator.arity === 1) {
+      if (operand) {
+        throw invalidField('operand', `${operator.name} does not take an operand`);
+      }
+    } else if (operand) {
+      operandValue = operand;
+    } else if (operand === undefined && operation.operandExact !== null) {
+      operandValue = Rational.parse(operation.operandExact);
+    } else {
+      throw invalidField('operand', `Required for ${operator.name}`);
+    }
 
-      if (!id) {
-        return res.status(400).json({ error: 'Operation ID is required' });
+    let input: Rational;
+
+    if (operation.parent) {
+      if (operation.parent.invalidReason) {
+        throw new BadRequestError(
+          'Parent operation is flagged as invalid, so this operation cannot be recomputed',
+          'PARENT_INVALID'
+        );
       }
 
-      const operation = await OperationRepository.findById(id);
+      input = readResult(operation.parent);
+    } else {
+      input = readStartingNumber(operation.discussion);
+    }
+
+    enforceRules(operation.discussion, { operationType: operator.name, operand: operandValue, depth: operation.depth });
 
-      if (!operation) {
-        return res.status(404).json({ error: 'Operation not found' });
+    // Fails with InvalidOperandError before anything is written
+    computeResult(input, operator.name, operandValue);
+
+    const { operation: updated, plan } = await operationRepository.edit(
+      id,
+      { operationType: operator.name, operand: operandValue, editedById: req.userId! },
+      (operations) => {
+        const plan = recomputeTree(operations, operation.parentId, input);
+        if (plan.failures.length > 0 && (onInvalid === 'reject' || plan.failures.some((failure) => failure.id === id))) {
+          throw new InvalidTreeError(plan.failures, 'This edit makes some operations below it invalid');
+        }
+        return plan;
       }
+    );
+
+    await publishDiscussionEvent(updated.discussionId, 'operation.updated', withPublicAuthor(updated));
+    await publishDiscussionEvent(updated.discussionId, 'subtree.recomputed', {
+      rootOperationId: id,
+      results: plan.updates.map((update) => ({
+        id: update.id,
+        result: update.result.toNumber(),
+        resultExact: update.result.toString(),
+        resultApproximate: !update.result.exact,
+      })),
+      flaggedOperations: plan.failures,
+    });
+
+    return res.json({
+      ...updated,
+      recomputedOperations: plan.updates.length,
+      flaggedOperations: plan.failures,
+    });
+  },
+
+  /**
+   * Previous versions of an operation, most recently replaced first
+   * GET /api/operations/:id/revisions
+   */
+  async getRevisions(req: AuthRequest, res: Response) {
+    const { operationRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const operation = await operationRepository.findById(id);
+
+    // Revisions would reveal what a tombstone (or a moderator) hides, and
+    // deleted discussions are gone for everything but restore
+    if (!operation || operation.deletedAt || operation.hiddenAt || operation.discussion.deletedAt) {
+      throw new NotFoundError('Operation');
+    }
+
+    const revisions = await operationRepository.findRevisions(id);
+
+    return res.json({
+      operationId: id,
+      current: {
+        operationType: operation.operationType,
+        operand: operation.operand,
+        operandExact: operation.operandExact,
+        result: operation.result,
+        resultExact: operation.resultExact,
+        resultApproximate: operation.resultApproximate,
+        editedAt: operation.editedAt,
+      },
+      revisions,
+    });
+  },
+
+  /**
+   * Tombstones an operation (only by author): its content is hidden but the
+   * node stays so replies below it remain attached
+   * DELETE /api/operations/:id
+   */
+  async delete(req: AuthRequest, res: Response) {
+    const { operationRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const operation = await operationRepository.findById(id);
+
+    if (!operation || operation.deletedAt) {
+      throw new NotFoundError('Operation');
+    }
+
+    if (operation.authorId !== req.userId) {
+      throw new ForbiddenError('Not authorized to delete this operation');
+    }
+
+    const deleted = await operationRepository.softDelete(id);
+
+    await publishDiscussionEvent(deleted.discussionId, 'operation.deleted', redactDeleted(deleted));
+
+    return res.json({
+      id: deleted.id,
+      deletedAt: deleted.deletedAt,
+      restorableUntil: restoreDeadline(deleted.deletedAt),
+    });
+  },
+
+  /**
+   * Restores a tombstoned operation (only by author, within the grace period)
+   * POST /api/operations/:id/restore
+   */
+  async restore(req: AuthRequest, res: Response) {
+    const { operationRepository } = getRepositories();
+    const { id } = req.params as { id: string };
 
-      return res.json(operation);
-    } catch (error: any) {
-      return res.status(500).json({ error: error.message });
+    const operation = await operationRepository.findById(id);
+
+    if (!operation) {
+      throw new NotFoundError('Operation');
+    }
+
+    if (operation.authorId !== req.userId) {
+      throw new ForbiddenError('Not authorized to restore this operation');
+    }
+
+    if (!operation.deletedAt) {
+      throw new BadRequestError('Operation is not deleted', 'NOT_DELETED');
     }
+
+    if (restoreDeadline(operation.deletedAt) < new Date()) {
+      throw new GoneError('The restore grace period for this operation is over');
+    }
+
+    const restored = await operationRepository.restore(id);
+
+    await publishDiscussionEvent(restored.discussionId, 'operation.restored', withPublicAuthor(restored));
+
+    return res.json(restored);
+  },
+
+  /**
+   * Casts or changes the user's vote. Authors cannot vote on their own operations.
+   * POST /api/operations/:id/vote
+   */
+  async vote(req: AuthRequest, res: Response) {
+    const { voteRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+    const { direction } = req.body as VoteBody;
+
+    const operation = await findRateable(id);
+
+    if (operation.authorId === req.userId) {
+      throw new ForbiddenError('You cannot vote on your own operation', 'OWN_OPERATION');
+    }
+
+    await voteRepository.setVote(id, req.userId!, direction);
+
+    return await sendFeedback(res, operation, req.userId!);
+  },
+
+  /**
+   * Withdraws the user's vote, if there is one
+   * DELETE /api/operations/:id/vote
+   */
+  async unvote(req: AuthRequest, res: Response) {
+    const { voteRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+
+    const operation = await findRateable(id);
+    await voteRepository.setVote(id, req.userId!, null);
+
+    return await sendFeedback(res, operation, req.userId!);
+  },
+
+  /**
+   * Adds one of the fixed reactions; adding it again changes nothing
+   * POST /api/operations/:id/reactions
+   */
+  async react(req: AuthRequest, res: Response) {
+    const { voteRepository } = getRepositories();
+    const { id } = req.params as { id: string };
+    const { reaction } = req.body as AddReactionBody;
+
+    const operation = await findRateable(id);
+    await voteRepository.addReaction(id, req.userId!, reaction);
+
+    return await sendFeedback(res, operation, req.userId!);
+  },
+
+  /**
+   * DELETE /api/operations/:id/reactions/:reaction
+   */
+  async unreact(req: AuthRequest, res: Response) {
+    const { voteRepository } = getRepositories();
+    const { id, reaction } = req.params as { id: string; reaction: Reaction };
+
+    const operation = await findRateable(id);
+    await voteRepository.removeReaction(id, req.userId!, reaction);
+
+    return await sendFeedback(res, operation, req.userId!);
   },
 };
 
@@ -0,0 +1,63 @@
+import { Response } from 'express';
+import { getRepositories } from '../models';
+import { AuthRequest } from '../middleware/auth';
+import { NotFoundError } from '../lib/errors';
+
+export const UserController = {
+  /**
+   * Public profile with contribution stats
+   * GET /api/users/:username
+   */
+  async getProfile(req: AuthRequest, res: Response) {
+    const { userRepository } = getRepositories();
+    const { username } = req.params as { username: string };
+
+    const user = await userRepository.findProfile(username);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const stats = await userRepository.getStats(user.id);
+
+    return res.json({ ...user, stats });
+  },
+
+  /**
+   * GET /api/users/:username/discussions
+   */
+  async getDiscussions(req: AuthRequest, res: Response) {
+    const { userRepository, discussionRepository } = getRepositories();
+    const { username } = req.params as { username: string };
+
+    const user = await userRepository.findProfile(username);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const discussions = await discussionRepository.findByAuthor(user.id);
+
+    return res.json(discussions);
+  },
+
+  /**
+   * GET /api/users/:username/operations
+   */
+  async getOperations(req: AuthRequest, res: Response) {
+    const { userRepository, operationRepository } = getRepositories();
+    const { username } = req.params as { username: string };
+
+    const user = await userRepository.findProfile(username);
+
+    if (!user) {
+      throw new NotFoundError('User');
+    }
+
+    const operations = await operationRepository.findByAuthor(user.id);
+
+    return res.json(operations);
+  },
+};
+
+export default UserController;
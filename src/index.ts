@@ -1,18 +1,69 @@
-import express, { Request, Response } from 'express';
-import cors from "cors";
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createApp, getAppContext } from './app';
+import { startPurgeJob } from './jobs/purge-deleted';
+import { runInAppContext } from './lib/app-context';
+import { disconnectPrisma } from './lib/prisma';
 
-const app = express();
-const PORT = process.env.PORT || 3000;
+const app = createApp();
+const context = getAppContext(app);
 
-app.use(cors());
-app.use(express.json());
+/**
+ * Serves the app and runs the background jobs until SIGTERM or SIGINT. Then
+ * it stops accepting connections, lets in-flight requests finish (cutting them
+ * off after SHUTDOWN_TIMEOUT), stops the jobs and closes the database pool. A
+ * second signal exits right away.
+ */
+export function start(port: number = context.config.port): Server {
+  const server = app.listen(port, () => {
+    console.log(`🚀 Server running at port: ${(server.address() as AddressInfo).port}`);
+  });
+  // The job's timer, and so every run, stays in the app's context
+  const stopPurgeJob = runInAppContext(context, () => startPurgeJob());
+  let stopping = false;
 
-app.get("/", async (req: Request, res: Response) => {
-  res.json({ status: "API running successfully on Vercel" });
-});
+  function shutdown(signal: NodeJS.Signals) {
+    if (stopping) {
+      console.warn(`${signal} received again, exiting without waiting`);
+      process.exit(1);
+    }
 
-app.listen(PORT, () => {
-  console.log(`🚀 Server running at port: ${PORT}`);
-});
+    stopping = true;
+    console.log(`${signal} received, shutting down`);
+    stopPurgeJob();
+
+    const cutOff = setTimeout(() => {
+      console.warn('Requests still running at the shutdown timeout, closing their connections');
+      server.closeAllConnections();
+    }, context.config.shutdownTimeoutSeconds * 1000);
+    cutOff.unref();
+
+    server.close(async (error) => {
+      clearTimeout(cutOff);
+
+      try {
+        await disconnectPrisma();
+      } catch (disconnectError) {
+        console.error('Closing the database connection failed', disconnectError);
+        process.exit(1);
+      }
+
+      process.exit(error ? 1 : 0);
+    });
+    // Keep-alive connections without a request in flight would hold close() up
+    server.closeIdleConnections();
+  }
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+
+  return server;
+}
+
+// Imported (by api/index.ts for Vercel, which serves the app itself), this
+// module only builds the app
+if (require.main === module) {
+  start();
+}
 
 export default app;
@@ -0,0 +1,35 @@
+import { getRepositories } from '../models';
+import { getConfig } from '../lib/config';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Hard-deletes discussions and operation tombstones whose restore grace
+ * period has passed, expired guest accounts and idempotency keys that no
+ * longer replay
+ */
+export async function purgeDeleted(now: Date = new Date()) {
+  const before = new Date(now.getTime() - getConfig().restoreGraceDays * 24 * 60 * 60 * 1000);
+
+  const { discussionRepository, operationRepository, userRepository, idempotencyRepository } = getRepositories();
+
+  const discussions = await discussionRepository.purgeDeleted(before);
+  const operations = await operationRepository.purgeDeleted(before);
+  const guests = await userRepository.deleteExpiredGuests(now);
+  const idempotencyKeys = await idempotencyRepository.purgeExpired(now);
+
+  return { discussions, operations, guests, idempotencyKeys };
+}
+
+/**
+ * Runs purgeDeleted every hour
+ * @returns A function that stops the job
+ */
+export function startPurgeJob(intervalMs: number = PURGE_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    purgeDeleted().catch((error) => console.error('Purging deleted content failed', error));
+  }, intervalMs);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
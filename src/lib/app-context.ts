@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Repositories } from '../models/repositories';
+import type { Config } from './config';
+import type { IEventBus } from './event-bus';
+import type { IRateLimitStore } from './rate-limit';
+
+// ============================================================================
+// APP CONTEXT - What the app serving the current request was created with
+// ============================================================================
+
+export type AppContext = {
+  config: Config;
+  repositories: Repositories;
+  eventBus: IEventBus;
+  rateLimitStore: IRateLimitStore;
+};
+
+const storage = new AsyncLocalStorage<AppContext>();
+
+/**
+ * The context `fn` (and everything it starts, callbacks and timers included)
+ * runs in. createApp runs each request in its own app's context.
+ */
+export function runInAppContext<T>(context: AppContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * The current app's context, or undefined outside of one (e.g. in scripts),
+ * where getConfig, getRepositories, getEventBus and getRateLimitStore fall
+ * back to the process-wide defaults
+ */
+export function currentAppContext(): AppContext | undefined {
+  return storage.getStore();
+}
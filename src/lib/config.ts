@@ -0,0 +1,317 @@
+import { createPrivateKey, createPublicKey, createSecretKey, KeyObject } from 'crypto';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { currentAppContext } from './app-context';
+import { RATE_LIMIT_BUCKETS, type RateLimitBucket, type RateLimitRule } from './rate-limit';
+
+// ============================================================================
+// CONFIG - Every environment setting, validated once at startup
+// ============================================================================
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256', 'EdDSA'] as const;
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+/**
+ * A JWT key, found by the `kid` in the token header. Keys without a signing
+ * half (a retired asymmetric key given only as a public key) still verify the
+ * tokens they issued until those expire.
+ */
+export type JwtKey = {
+  kid: string;
+  alg: JwtAlgorithm;
+  signingKey: KeyObject | null;
+  verificationKey: KeyObject;
+};
+
+export type Config = {
+  port: number;
+  saltRounds: number;
+  guestTtlMinutes: number;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlDays: number;
+  restoreGraceDays: number;
+  // How long a shutdown waits for in-flight requests before closing their connections
+  shutdownTimeoutSeconds: number;
+  // Proxy hops in front of the server whose X-Forwarded-For is trusted for the client IP
+  trustProxy: number;
+  // Null turns the limit off
+  rateLimits: Record<RateLimitBucket, RateLimitRule | null>;
+  jwt: {
+    keys: JwtKey[];
+    // Signs every new token
+    activeKid: string;
+  };
+};
+
+// Kid of the key given as JWT_SECRET. Tokens without a kid header, issued
+// before keys had ids, are checked against it.
+export const LEGACY_KID = 'default';
+
+// RFC 7518 §3.2: an HS256 key must be at least as long as the hash output
+const MIN_SECRET_LENGTH = 32;
+const MIN_RSA_BITS = 2048;
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Unset and empty variables both mean "use the default"
+function setting<T extends z.ZodType>(schema: T) {
+  return z.preprocess((value) => (value === '' ? undefined : value), schema);
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+/**
+ * Seconds, either plain (`900`) or with a unit (`15m`, `12h`, `30d`)
+ */
+const duration = z
+  .string()
+  .regex(/^\d+[smhd]?$/, 'Must be a number of seconds or a duration like 15m, 12h or 30d')
+  .transform((value) => {
+    const unit = value[value.length - 1]!;
+    return unit in DURATION_UNITS ? parseInt(value, 10) * DURATION_UNITS[unit]! : parseInt(value, 10);
+  })
+  .refine((seconds) => seconds > 0, 'Must be longer than 0 seconds');
+
+/**
+ * `<requests>/<duration>`, e.g. `10/15m`, or `off`
+ */
+const rateLimit = z.string().transform((value, ctx): RateLimitRule | null => {
+  if (value === 'off') return null;
+
+  const [limit, window] = value.split('/');
+  const windowSeconds = duration.safeParse(window);
+
+  if (!limit || !/^\d+$/.test(limit) || parseInt(limit, 10) < 1 || !windowSeconds.success) {
+    ctx.addIssue({ code: 'custom', message: 'Must be off or like 10/15m: at least 1 request per duration' });
+    return z.NEVER;
+  }
+
+  return { limit: parseInt(limit, 10), windowSeconds: windowSeconds.data };
+});
+
+// Env variable of every bucket, e.g. RATE_LIMIT_CREATE_OPERATION
+function rateLimitVariable(bucket: RateLimitBucket) {
+  return `RATE_LIMIT_${bucket.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+}
+
+const DEFAULT_RATE_LIMITS: Record<RateLimitBucket, RateLimitRule> = {
+  login: { limit: 10, windowSeconds: 15 * 60 },
+  register: { limit: 5, windowSeconds: 60 * 60 },
+  createDiscussion: { limit: 10, windowSeconds: 60 * 60 },
+  createOperation: { limit: 30, windowSeconds: 60 },
+};
+
+const rateLimitEnvSchema = z.object(
+  Object.fromEntries(
+    RATE_LIMIT_BUCKETS.map((bucket) => [rateLimitVariable(bucket), setting(rateLimit.default(DEFAULT_RATE_LIMITS[bucket]))])
+  )
+);
+
+const envSchema = z.object({
+  PORT: setting(z.coerce.number().int().min(0).max(65535).default(3000)),
+  SALT_ROUNDS: setting(z.coerce.number().int().min(10).max(15).default(10)),
+  GUEST_TTL_MINUTES: setting(z.coerce.number().int().positive().default(120)),
+  ACCESS_TOKEN_TTL: setting(duration.default(15 * 60)),
+  REFRESH_TOKEN_TTL_DAYS: setting(z.coerce.number().int().positive().default(30)),
+  RESTORE_GRACE_DAYS: setting(z.coerce.number().int().min(0).default(7)),
+  SHUTDOWN_TIMEOUT: setting(duration.default(10)),
+  TRUST_PROXY: setting(z.coerce.number().int().min(0).default(0)),
+});
+
+const jwtEnvSchema = z.object({
+  JWT_SECRET: setting(z.string().optional()),
+  JWT_KEYS: setting(z.string().optional()),
+  JWT_ACTIVE_KID: setting(z.string().optional()),
+});
+
+const jwtKeySchema = z.discriminatedUnion('alg', [
+  z.object({ kid: z.string().min(1), alg: z.literal('HS256'), secret: z.string() }).strict(),
+  z
+    .object({
+      kid: z.string().min(1),
+      alg: z.enum(['RS256', 'EdDSA']),
+      privateKey: z.string().optional(),
+      publicKey: z.string().optional(),
+    })
+    .strict()
+    .refine((key) => key.privateKey || key.publicKey, 'Needs a privateKey, a publicKey or both'),
+]);
+
+type JwtKeySetting = z.infer<typeof jwtKeySchema>;
+
+function secretProblem(secret: string): string | null {
+  if (secret.length < MIN_SECRET_LENGTH) return `must be at least ${MIN_SECRET_LENGTH} characters`;
+  // "aaaa…", "abababab…": long enough, but not a secret anyone generated
+  if (new Set(secret).size < 8) return 'looks like a placeholder, generate a random one';
+  return null;
+}
+
+/**
+ * Turns one configured key into key objects, or describes what is wrong with it
+ */
+function readJwtKey(setting: JwtKeySetting, name: string): JwtKey | string {
+  if (setting.alg === 'HS256') {
+    const problem = secretProblem(setting.secret);
+    if (problem) return `${name}: the secret ${problem}`;
+
+    const key = createSecretKey(Buffer.from(setting.secret, 'utf8'));
+    return { kid: setting.kid, alg: 'HS256', signingKey: key, verificationKey: key };
+  }
+
+  let signingKey: KeyObject | null;
+  let verificationKey: KeyObject;
+
+  try {
+    signingKey = setting.privateKey ? createPrivateKey(setting.privateKey) : null;
+    verificationKey = setting.publicKey ? createPublicKey(setting.publicKey) : createPublicKey(signingKey!);
+  } catch {
+    return `${name}: not a valid PEM key`;
+  }
+
+  const type = verificationKey.asymmetricKeyType;
+
+  if (setting.alg === 'RS256') {
+    if (type !== 'rsa') return `${name}: RS256 needs an RSA key, got ${type}`;
+
+    const bits = verificationKey.asymmetricKeyDetails?.modulusLength ?? 0;
+    if (bits < MIN_RSA_BITS) return `${name}: RSA keys must be at least ${MIN_RSA_BITS} bits, got ${bits}`;
+  } else if (type !== 'ed25519' && type !== 'ed448') {
+    return `${name}: EdDSA needs an Ed25519 or Ed448 key, got ${type}`;
+  }
+
+  if (signingKey && setting.publicKey) {
+    const derived = createPublicKey(signingKey).export({ type: 'spki', format: 'der' });
+    if (!derived.equals(verificationKey.export({ type: 'spki', format: 'der' }))) {
+      return `${name}: publicKey does not belong to privateKey`;
+    }
+  }
+
+  return { kid: setting.kid, alg: setting.alg, signingKey, verificationKey };
+}
+
+function readJwtConfig(env: z.output<typeof jwtEnvSchema>, problems: string[]): Config['jwt'] {
+  const keys: JwtKey[] = [];
+
+  if (env.JWT_SECRET !== undefined) {
+    const key = readJwtKey({ kid: LEGACY_KID, alg: 'HS256', secret: env.JWT_SECRET }, 'JWT_SECRET');
+
+    if (typeof key === 'string') problems.push(key);
+    else keys.push(key);
+  }
+
+  if (env.JWT_KEYS !== undefined) {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(env.JWT_KEYS);
+    } catch {
+      problems.push('JWT_KEYS: must be a JSON array of keys');
+    }
+
+    const settings = z.array(jwtKeySchema).min(1).safeParse(parsed);
+
+    if (parsed !== undefined && !settings.success) {
+      for (const issue of settings.error.issues) {
+        problems.push(`JWT_KEYS${issue.path.map((part) => `[${JSON.stringify(part)}]`).join('')}: ${issue.message}`);
+      }
+    }
+
+    for (const [index, setting] of (settings.data ?? []).entries()) {
+      const name = `JWT_KEYS[${index}] (${setting.kid})`;
+
+      if (keys.some((key) => key.kid === setting.kid)) {
+        problems.push(`${name}: kid is used more than once`);
+        continue;
+      }
+
+      const key = readJwtKey(setting, name);
+
+      if (typeof key === 'string') problems.push(key);
+      else keys.push(key);
+    }
+  }
+
+  if (env.JWT_SECRET === undefined && env.JWT_KEYS === undefined) {
+    problems.push('JWT_SECRET or JWT_KEYS must be set');
+  }
+
+  // Without JWT_ACTIVE_KID, the first key of JWT_KEYS that can sign is used,
+  // so adding a key in front rotates to it
+  const signing = keys.filter((key) => key.signingKey !== null);
+  const activeKid =
+    env.JWT_ACTIVE_KID ?? (signing.find((key) => key.kid !== LEGACY_KID) ?? signing[0])?.kid ?? LEGACY_KID;
+  const active = keys.find((key) => key.kid === activeKid);
+
+  if (keys.length > 0 && !active) {
+    problems.push(`JWT_ACTIVE_KID: no key has kid "${activeKid}"`);
+  } else if (active && !active.signingKey) {
+    problems.push(`JWT_ACTIVE_KID: key "${activeKid}" has no privateKey and cannot sign`);
+  }
+
+  return { keys, activeKid };
+}
+
+/**
+ * Reads and checks the whole configuration
+ * @throws ConfigError listing every problem at once
+ */
+export function loadConfig(env: Record<string, string | undefined> = readEnv()): Config {
+  const problems: string[] = [];
+  const parsed = envSchema.safeParse(env);
+  const rateLimits = rateLimitEnvSchema.safeParse(env);
+
+  for (const result of [parsed, rateLimits]) {
+    for (const issue of result.error?.issues ?? []) {
+      problems.push(`${issue.path.join('.')}: ${issue.message}`);
+    }
+  }
+
+  const jwt = readJwtConfig(jwtEnvSchema.parse(env), problems);
+  if (!parsed.success || !rateLimits.success || problems.length > 0) throw new ConfigError(problems);
+
+  return {
+    port: parsed.data.PORT,
+    saltRounds: parsed.data.SALT_ROUNDS,
+    guestTtlMinutes: parsed.data.GUEST_TTL_MINUTES,
+    accessTokenTtlSeconds: parsed.data.ACCESS_TOKEN_TTL,
+    refreshTokenTtlDays: parsed.data.REFRESH_TOKEN_TTL_DAYS,
+    restoreGraceDays: parsed.data.RESTORE_GRACE_DAYS,
+    shutdownTimeoutSeconds: parsed.data.SHUTDOWN_TIMEOUT,
+    trustProxy: parsed.data.TRUST_PROXY,
+    rateLimits: Object.fromEntries(
+      RATE_LIMIT_BUCKETS.map((bucket) => [bucket, rateLimits.data[rateLimitVariable(bucket)] as RateLimitRule | null])
+    ) as Config['rateLimits'],
+    jwt,
+  };
+}
+
+/**
+ * process.env, with a local .env file filled in
+ */
+function readEnv() {
+  dotenv.config({ quiet: true });
+  return process.env;
+}
+
+let config: Config | undefined;
+
+/**
+ * The configuration of the app serving the current request. Outside of one,
+ * the process-wide configuration, read from the environment on first use.
+ */
+export function getConfig(): Config {
+  return currentAppContext()?.config ?? (config ??= loadConfig());
+}
+
+/**
+ * Swaps the process-wide configuration, e.g. for fixed keys in scripts
+ */
+export function setConfig(next: Config): void {
+  config = next;
+}
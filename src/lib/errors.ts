@@ -0,0 +1,109 @@
+// ============================================================================
+// ERRORS - Typed domain errors mapped to HTTP responses by the error handler
+// ============================================================================
+
+export type ErrorDetail = {
+  // Where the problem is, e.g. `body.operand` or `query.limit`
+  path: string;
+  message: string;
+};
+
+/**
+ * Base class for errors that reach the client. Every error response has the
+ * same envelope: `{ error: { code, message, details } }`. `extra` is merged
+ * into the top level of the body for payloads clients already rely on, such
+ * as `existingDiscussion` on a starting number conflict.
+ */
+export class AppError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown,
+    public extra?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details: ErrorDetail[] = []) {
+    super(400, 'VALIDATION_FAILED', message, details);
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: string = 'BAD_REQUEST') {
+    super(400, code, message);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required', code: string = 'UNAUTHORIZED') {
+    super(401, code, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Not allowed', code: string = 'FORBIDDEN') {
+    super(403, code, message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(resource: string) {
+    super(404, 'NOT_FOUND', `${resource} not found`);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, extra?: Record<string, unknown>, code: string = 'CONFLICT') {
+    super(409, code, message, undefined, extra);
+  }
+}
+
+export class GoneError extends AppError {
+  constructor(message: string) {
+    super(410, 'GONE', message);
+  }
+}
+
+/**
+ * Well-formed input that cannot be processed, e.g. an import whose results do
+ * not match what the operators compute
+ */
+export class UnprocessableError extends AppError {
+  constructor(message: string, code: string, details?: unknown) {
+    super(422, code, message, details);
+  }
+}
+
+/**
+ * A rate limit ran out. The Retry-After header says when to try again.
+ */
+export class TooManyRequestsError extends AppError {
+  constructor(public retryAfterSeconds: number) {
+    super(429, 'RATE_LIMITED', `Too many requests, try again in ${retryAfterSeconds} seconds`, { retryAfterSeconds });
+  }
+}
+
+/**
+ * A new operation breaks one of the rules the discussion's author set, e.g.
+ * an operator that is not allowed or an operand out of bounds
+ */
+export class RuleViolationError extends AppError {
+  constructor(rule: string, message: string) {
+    super(422, 'RULE_VIOLATION', message, { rule });
+  }
+}
+
+/**
+ * An operand (or the value it is applied to) is outside the operator's domain:
+ * division by zero, even roots of negatives, results too large to store, ...
+ */
+export class InvalidOperandError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(422, 'INVALID_OPERAND', message, details);
+  }
+}
@@ -0,0 +1,136 @@
+import { currentAppContext } from './app-context';
+
+// ============================================================================
+// EVENT BUS - Pub/sub for live discussion updates
+// ============================================================================
+
+export type DiscussionEvent = {
+  // Increasing per channel, sent as the SSE `id:` so clients can resume
+  id: string;
+  type: string;
+  data: unknown;
+  createdAt: Date;
+};
+
+export type EventListener = (event: DiscussionEvent) => void;
+
+/**
+ * A channel is usually `discussion:<id>`. Implementations keep recent history
+ * per channel so `since` can replay what a reconnecting client missed; it
+ * returns null when the history no longer reaches back to `lastEventId` and
+ * the client has to reload instead.
+ */
+export interface IEventBus {
+  publish(channel: string, type: string, data: unknown): Promise<DiscussionEvent>;
+  subscribe(channel: string, listener: EventListener): () => void;
+  since(channel: string, lastEventId: string): Promise<DiscussionEvent[] | null>;
+}
+
+/**
+ * Single-process event bus. Keeps the last `historySize` events of every
+ * channel in memory for replay, until the channel has had no subscribers and
+ * no events for `idleTtlMs`. An evicted channel starts over like after a
+ * restart, so clients that come back with an id from before resync.
+ */
+export class InMemoryEventBus implements IEventBus {
+  private listeners = new Map<string, Set<EventListener>>();
+  // Least recently published to first
+  private history = new Map<string, DiscussionEvent[]>();
+  private sequence = new Map<string, number>();
+
+  constructor(
+    private historySize: number = 500,
+    private idleTtlMs: number = 60 * 60 * 1000
+  ) {}
+
+  async publish(channel: string, type: string, data: unknown) {
+    const next = (this.sequence.get(channel) ?? 0) + 1;
+    this.sequence.set(channel, next);
+
+    const event: DiscussionEvent = { id: String(next), type, data, createdAt: new Date() };
+
+    const events = this.history.get(channel) ?? [];
+    events.push(event);
+    if (events.length > this.historySize) events.splice(0, events.length - this.historySize);
+    this.history.delete(channel);
+    this.history.set(channel, events);
+
+    this.evictIdle(event.createdAt.getTime());
+
+    for (const listener of this.listeners.get(channel) ?? []) {
+      listener(event);
+    }
+
+    return event;
+  }
+
+  subscribe(channel: string, listener: EventListener) {
+    const listeners = this.listeners.get(channel) ?? new Set<EventListener>();
+    listeners.add(listener);
+    this.listeners.set(channel, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(channel);
+    };
+  }
+
+  async since(channel: string, lastEventId: string) {
+    const last = Number(lastEventId);
+    const current = this.sequence.get(channel) ?? 0;
+    const events = this.history.get(channel) ?? [];
+    const oldest = events[0] ? Number(events[0].id) : current + 1;
+
+    // Unknown ids, ids from before a restart and ids that fell out of the history
+    if (!Number.isInteger(last) || last > current || last < oldest - 1) return null;
+
+    return events.filter((event) => Number(event.id) > last);
+  }
+
+  private evictIdle(now: number) {
+    for (const [channel, events] of this.history) {
+      const latest = events[events.length - 1];
+
+      // Every channel after this one was published to more recently
+      if (latest && now - latest.createdAt.getTime() <= this.idleTtlMs) break;
+
+      if (!this.listeners.has(channel)) {
+        this.history.delete(channel);
+        this.sequence.delete(channel);
+      }
+    }
+  }
+}
+
+export function discussionChannel(discussionId: string) {
+  return `discussion:${discussionId}`;
+}
+
+let eventBus: IEventBus = new InMemoryEventBus();
+
+/**
+ * The event bus of the app serving the current request, or the process-wide
+ * one outside of a request
+ */
+export function getEventBus(): IEventBus {
+  return currentAppContext()?.eventBus ?? eventBus;
+}
+
+/**
+ * Swaps the process-wide backend
+ */
+export function setEventBus(bus: IEventBus): void {
+  eventBus = bus;
+}
+
+/**
+ * Publishes to a discussion's channel. Delivery is best effort: a failing
+ * backend is logged but never fails the request that caused the event.
+ */
+export async function publishDiscussionEvent(discussionId: string, type: string, data: unknown): Promise<void> {
+  try {
+    await getEventBus().publish(discussionChannel(discussionId), type, data);
+  } catch (error) {
+    console.error(`Failed to publish ${type} for discussion ${discussionId}`, error);
+  }
+}
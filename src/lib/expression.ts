@@ -0,0 +1,179 @@
+import Rational from './rational';
+import { getOperator } from '../models/operator-registry';
+
+// ============================================================================
+// EXPRESSION RENDERING - Chains as plain text, LaTeX and MathML
+// ============================================================================
+
+export type RenderedExpression = {
+  text: string;
+  latex: string;
+  mathml: string;
+};
+
+type Node = RenderedExpression & {
+  // Compound expressions (and negative numbers/fractions) get parenthesised
+  // when they appear as an operand of an infix operator
+  compound: boolean;
+};
+
+type Step = { operationType: string; operand: Rational | null };
+
+function numberNode(value: Rational): Node {
+  const negative = value.isNegative();
+  const magnitude = value.abs();
+  const numerator = `${magnitude.numerator}`;
+  const denominator = `${magnitude.denominator}`;
+
+  const text = magnitude.isInteger() ? numerator : `${numerator}/${denominator}`;
+  const latex = magnitude.isInteger() ? numerator : `\\frac{${numerator}}{${denominator}}`;
+  const mathml = magnitude.isInteger()
+    ? `<mn>${numerator}</mn>`
+    : `<mfrac><mn>${numerator}</mn><mn>${denominator}</mn></mfrac>`;
+
+  return {
+    text: negative ? `-${text}` : text,
+    latex: negative ? `-${latex}` : latex,
+    mathml: negative ? `<mrow><mo>−</mo>${mathml}</mrow>` : mathml,
+    compound: negative || !magnitude.isInteger(),
+  };
+}
+
+function decimalNode(value: number): Node {
+  const magnitude = `${Math.abs(value)}`;
+  return {
+    text: value < 0 ? `-${magnitude}` : magnitude,
+    latex: value < 0 ? `-${magnitude}` : magnitude,
+    mathml: value < 0 ? `<mrow><mo>−</mo><mn>${magnitude}</mn></mrow>` : `<mn>${magnitude}</mn>`,
+    compound: value < 0,
+  };
+}
+
+function group(node: Node): Node {
+  if (!node.compound) return node;
+  return {
+    text: `(${node.text})`,
+    latex: `\\left(${node.latex}\\right)`,
+    mathml: `<mrow><mo>(</mo>${node.mathml}<mo>)</mo></mrow>`,
+    compound: false,
+  };
+}
+
+function infix(lhs: Node, rhs: Node, text: string, latex: string, mathml: string): Node {
+  const [left, right] = [group(lhs), group(rhs)];
+  return {
+    text: `${left.text} ${text} ${right.text}`,
+    latex: `${left.latex} ${latex} ${right.latex}`,
+    mathml: `<mrow>${left.mathml}<mo>${mathml}</mo>${right.mathml}</mrow>`,
+    compound: true,
+  };
+}
+
+function call(name: string, latexName: string, args: Node[]): Node {
+  return {
+    text: `${name}(${args.map((arg) => arg.text).join(', ')})`,
+    latex: `${latexName}\\left(${args.map((arg) => arg.latex).join(', ')}\\right)`,
+    mathml: `<mrow><mi>${name}</mi><mo>(</mo>${args.map((arg) => arg.mathml).join('<mo>,</mo>')}<mo>)</mo></mrow>`,
+    compound: false,
+  };
+}
+
+function wrap(lhs: Node, open: string, close: string, latexOpen: string, latexClose: string): Node {
+  return {
+    text: `${open}${lhs.text}${close}`,
+    latex: `${latexOpen}${lhs.latex}${latexClose}`,
+    mathml: `<mrow><mo>${open}</mo>${lhs.mathml}<mo>${close}</mo></mrow>`,
+    compound: false,
+  };
+}
+
+/**
+ * Applies one operation to the expression built so far. Built-in operators
+ * have their usual notation; operators registered later fall back to infix
+ * with their symbol (binary) or function notation (unary).
+ */
+function applyStep(lhs: Node, step: Step): Node {
+  const rhs = step.operand ? numberNode(step.operand) : null;
+
+  switch (step.operationType) {
+    case 'ADD':
+      return infix(lhs, rhs!, '+', '+', '+');
+    case 'SUBTRACT':
+      return infix(lhs, rhs!, '−', '-', '−');
+    case 'MULTIPLY':
+      return infix(lhs, rhs!, '×', '\\times', '×');
+    case 'DIVIDE':
+      return infix(lhs, rhs!, '÷', '\\div', '÷');
+    case 'MODULO':
+      return infix(lhs, rhs!, 'mod', '\\bmod', 'mod');
+    case 'POWER': {
+      const base = group(lhs);
+      return {
+        text: `${base.text}^${group(rhs!).text}`,
+        latex: `{${base.latex}}^{${rhs!.latex}}`,
+        mathml: `<msup><mrow>${base.mathml}</mrow><mrow>${rhs!.mathml}</mrow></msup>`,
+        compound: true,
+      };
+    }
+    case 'ROOT':
+      return {
+        text: `${group(rhs!).text}√(${lhs.text})`,
+        latex: `\\sqrt[${rhs!.latex}]{${lhs.latex}}`,
+        mathml: `<mroot><mrow>${lhs.mathml}</mrow><mrow>${rhs!.mathml}</mrow></mroot>`,
+        compound: false,
+      };
+    case 'LOG':
+      return {
+        text: `log_${group(rhs!).text}(${lhs.text})`,
+        latex: `\\log_{${rhs!.latex}}\\left(${lhs.latex}\\right)`,
+        mathml: `<mrow><msub><mi>log</mi><mrow>${rhs!.mathml}</mrow></msub><mo>(</mo>${lhs.mathml}<mo>)</mo></mrow>`,
+        compound: false,
+      };
+    case 'MIN':
+      return call('min', '\\min', [lhs, rhs!]);
+    case 'MAX':
+      return call('max', '\\max', [lhs, rhs!]);
+    case 'NEGATE': {
+      const inner = group({ ...lhs, compound: true });
+      return {
+        text: `−${inner.text}`,
+        latex: `-${inner.latex}`,
+        mathml: `<mrow><mo>−</mo>${inner.mathml}</mrow>`,
+        compound: true,
+      };
+    }
+    case 'ABS':
+      return wrap(lhs, '|', '|', '\\left|', '\\right|');
+    case 'FLOOR':
+      return wrap(lhs, '⌊', '⌋', '\\left\\lfloor ', '\\right\\rfloor');
+  }
+
+  const operator = getOperator(step.operationType);
+  const symbol = operator?.symbol ?? step.operationType;
+
+  return rhs
+    ? infix(lhs, rhs, symbol, `\\mathbin{\\text{${symbol}}}`, symbol)
+    : call(step.operationType.toLowerCase(), `\\operatorname{${step.operationType.toLowerCase()}}`, [lhs]);
+}
+
+/**
+ * Renders a chain like `((42 + 10) × 2) ÷ 7 = 12`.
+ * Approximate results are shown with ≈ and their rounded value.
+ */
+export function renderChain(start: Rational, steps: Step[], result: Rational): RenderedExpression {
+  const expression = steps.reduce(applyStep, numberNode(start));
+
+  const value = result.exact ? numberNode(result) : decimalNode(result.toNumber());
+  const relation = result.exact
+    ? { text: '=', latex: '=', mathml: '=' }
+    : { text: '≈', latex: '\\approx', mathml: '≈' };
+
+  return {
+    text: `${expression.text} ${relation.text} ${value.text}`,
+    latex: `${expression.latex} ${relation.latex} ${value.latex}`,
+    mathml:
+      `<math xmlns="http://www.w3.org/1998/Math/MathML"><mrow>` +
+      `${expression.mathml}<mo>${relation.mathml}</mo>${value.mathml}` +
+      `</mrow></math>`,
+  };
+}
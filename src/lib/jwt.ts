@@ -0,0 +1,91 @@
+import type { KeyObject } from 'crypto';
+import { errors, jwtVerify, SignJWT, type JWTHeaderParameters } from 'jose';
+import { getConfig, LEGACY_KID, type Config } from './config';
+
+// ============================================================================
+// JWT - Compact JWS tokens signed with the configured keys, through jose
+// ============================================================================
+
+export type TokenClaims = Record<string, unknown> & { iat: number; exp: number };
+
+/**
+ * Why a token was not accepted. Callers report all of these the same way.
+ */
+export class TokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenError';
+  }
+}
+
+/**
+ * The configured key named by the token's `kid`. Tokens without one were
+ * issued before keys had ids and are checked against the JWT_SECRET key. The
+ * key decides the algorithm; the header's `alg` only has to agree with it.
+ */
+function findVerificationKey(header: JWTHeaderParameters, jwt: Config['jwt']): KeyObject {
+  const key = jwt.keys.find((candidate) => candidate.kid === (header.kid ?? LEGACY_KID));
+
+  if (!key) {
+    throw new TokenError('Unknown signing key');
+  }
+
+  if (header.alg !== key.alg) {
+    throw new TokenError('Invalid signature');
+  }
+
+  return key.verificationKey;
+}
+
+function describeFailure(error: unknown): TokenError {
+  if (error instanceof TokenError) return error;
+  if (error instanceof errors.JWTExpired) return new TokenError('Token has expired');
+  if (error instanceof errors.JWSSignatureVerificationFailed) return new TokenError('Invalid signature');
+  return new TokenError('Malformed token');
+}
+
+/**
+ * Signs `payload` with the active key, naming it in the `kid` header so the
+ * token keeps verifying after the active key changes
+ */
+export async function signToken(
+  payload: Record<string, unknown>,
+  expiresInSeconds: number,
+  jwt: Config['jwt'] = getConfig().jwt
+): Promise<string> {
+  const key = jwt.keys.find((candidate) => candidate.kid === jwt.activeKid);
+
+  if (!key?.signingKey) {
+    throw new Error(`JWT key ${jwt.activeKid} cannot sign`);
+  }
+
+  const iat = Math.floor(Date.now() / 1000);
+
+  return await new SignJWT(payload)
+    .setProtectedHeader({ alg: key.alg, typ: 'JWT', kid: key.kid })
+    .setIssuedAt(iat)
+    .setExpirationTime(iat + expiresInSeconds)
+    .sign(key.signingKey);
+}
+
+/**
+ * Checks the signature against the key named by `kid` and that the token has
+ * not expired
+ * @throws TokenError
+ */
+export async function verifyToken(
+  token: string,
+  jwt: Config['jwt'] = getConfig().jwt,
+  now: Date = new Date()
+): Promise<TokenClaims> {
+  try {
+    const { payload } = await jwtVerify(token, (header) => findVerificationKey(header, jwt), {
+      currentDate: now,
+      requiredClaims: ['exp'],
+    });
+
+    return payload as TokenClaims;
+  } catch (error) {
+    throw describeFailure(error);
+  }
+}
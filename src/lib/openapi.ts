@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import type { RouteAuth, RouteDefinition, RouteGroup } from '../routes/define';
+import { IDEMPOTENCY_KEY_TTL_HOURS } from '../models/idempotency-model';
+import { namedSchemas } from '../schemas/responses';
+import { version } from '../../package.json';
+
+// ============================================================================
+// OPENAPI - Generated from the route definitions and their schemas
+// ============================================================================
+
+type JsonSchema = Record<string, any>;
+
+const schemaNames = new Map<z.ZodType, string>();
+
+// An id in the global registry (which also holds `.meta()` descriptions) makes
+// zod emit a reference instead of inlining the schema
+for (const [id, schema] of Object.entries(namedSchemas)) {
+  z.globalRegistry.add(schema, { ...z.globalRegistry.get(schema), id });
+  schemaNames.set(schema, id);
+}
+
+const COMPONENT_PREFIX = '#/components/schemas/';
+
+/**
+ * JSON Schema (2020-12, as used by OpenAPI 3.1) of a zod schema. Named schemas
+ * become references to the shared components. Requests are described by what
+ * clients send (`input`), responses by what they get back (`output`).
+ */
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const name = schemaNames.get(schema);
+  if (name) return { $ref: `${COMPONENT_PREFIX}${name}` };
+
+  const { $schema, $defs, ...json } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+  }) as JsonSchema;
+
+  return JSON.parse(JSON.stringify(json).split('"#/$defs/').join(`"${COMPONENT_PREFIX}`));
+}
+
+/**
+ * Named schemas are described as input: request schemas need that, and
+ * response schemas have no transforms or defaults, so both views match
+ */
+function components(): Record<string, JsonSchema> {
+  const { schemas } = z.toJSONSchema(z.globalRegistry, {
+    io: 'input',
+    unrepresentable: 'any',
+    uri: (id) => `${COMPONENT_PREFIX}${id}`,
+  }) as { schemas: Record<string, JsonSchema> };
+
+  return Object.fromEntries(
+    Object.entries(schemas).map(([id, { $schema, $id, ...schema }]) => [id, schema])
+  );
+}
+
+/**
+ * `/:id/tree` → `/{id}/tree`
+ */
+export function toOpenApiPath(prefix: string, path: string): string {
+  const full = path === '/' ? prefix : `${prefix}${path}`;
+  return full.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(location: 'path' | 'query', schema: z.ZodType | undefined) {
+  if (!schema) return [];
+
+  const json = toJsonSchema(schema, 'input');
+  const required: string[] = json.required ?? [];
+
+  return Object.entries<JsonSchema>(json.properties ?? {}).map(([name, { description, ...property }]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(description ? { description } : {}),
+    schema: property,
+  }));
+}
+
+const idempotencyKeyParameter = {
+  name: 'Idempotency-Key',
+  in: 'header',
+  required: false,
+  description:
+    `Makes retries safe: repeating the request with the same key and payload within ${IDEMPOTENCY_KEY_TTL_HOURS} hours replays the first ` +
+    'response (with an `Idempotent-Replayed: true` header) instead of creating another resource. Keys are per user.',
+  schema: { type: 'string', minLength: 1, maxLength: 255 },
+};
+
+const errorRef = { $ref: `${COMPONENT_PREFIX}ErrorResponse` };
+
+/**
+ * Responses every route of a kind can produce, unless the route describes them itself
+ */
+function standardResponses(route: RouteDefinition) {
+  const responses: Record<number, { description: string; schema: JsonSchema }> = {};
+
+  if (route.schema) {
+    responses[400] = { description: 'Invalid request (VALIDATION_FAILED, INVALID_JSON, ...)', schema: errorRef };
+  }
+  if (route.auth !== 'public') {
+    responses[401] = { description: 'Missing, invalid or revoked access token', schema: errorRef };
+  }
+  if (route.auth === 'optional' || route.auth === 'authenticated') {
+    responses[403] = { description: 'Banned or suspended account (ACCOUNT_BANNED, ACCOUNT_SUSPENDED)', schema: errorRef };
+  }
+  if (route.auth === 'registered') {
+    responses[403] = { description: 'Guests cannot do this (REGISTERED_ONLY), or the account is banned or suspended', schema: errorRef };
+  }
+  if (route.auth === 'moderator' || route.auth === 'admin') {
+    responses[403] = { description: 'Missing role (ROLE_REQUIRED), or the account is banned or suspended', schema: errorRef };
+  }
+  if (route.idempotent) {
+    responses[409] = { description: 'A request with the same Idempotency-Key is still running (IDEMPOTENCY_KEY_IN_USE)', schema: errorRef };
+    responses[422] = { description: 'The Idempotency-Key was used for a different request (IDEMPOTENCY_KEY_REUSED)', schema: errorRef };
+  }
+  if (route.rateLimit) {
+    responses[429] = { description: 'Rate limit reached (RATE_LIMITED); see the Retry-After header', schema: errorRef };
+  }
+  responses[500] = { description: 'Unexpected server error', schema: errorRef };
+
+  return responses;
+}
+
+function security(route: RouteDefinition) {
+  switch (route.auth) {
+    case 'public':
+      return [];
+    case 'optional':
+      return [{}, { bearerAuth: [] }];
+    default:
+      return [{ bearerAuth: [] }];
+  }
+}
+
+function operation(group: RouteGroup, route: RouteDefinition) {
+  const responses: Record<string, JsonSchema> = {};
+
+  for (const [status, response] of Object.entries(standardResponses(route))) {
+    responses[status] = { description: response.description, content: { 'application/json': { schema: response.schema } } };
+  }
+
+  for (const [status, response] of Object.entries(route.responses)) {
+    const contentType = response.contentType ?? 'application/json';
+    responses[status] = {
+      description: response.description,
+      ...(response.schema
+        ? { content: { [contentType]: { schema: toJsonSchema(response.schema, 'output') } } }
+        : response.contentType
+          ? { content: { [contentType]: {} } }
+          : {}),
+    };
+  }
+
+  const authNotes: Partial<Record<RouteAuth, string>> = {
+    authenticated: 'Guests allowed.',
+    registered: 'Registered users only.',
+    moderator: 'Moderators and admins only.',
+    admin: 'Admins only.',
+  };
+  const authNote = authNotes[route.auth] ?? '';
+  const description = [route.description, authNote].filter(Boolean).join('\n\n');
+
+  return {
+    operationId: `${group.tag.toLowerCase()}.${route.handler.name}`,
+    tags: [group.tag],
+    summary: route.summary,
+    ...(description ? { description } : {}),
+    security: security(route),
+    'x-auth': route.auth,
+    parameters: [
+      ...parameters('path', route.schema?.params),
+      ...parameters('query', route.schema?.query),
+      ...(route.idempotent ? [idempotencyKeyParameter] : []),
+    ],
+    ...(route.schema?.body
+      ? {
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: toJsonSchema(route.schema.body, 'input') } },
+          },
+        }
+      : {}),
+    responses,
+  };
+}
+
+/**
+ * OpenAPI 3.1 document for the given route groups
+ */
+export function generateOpenApiDocument(groups: RouteGroup[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const group of groups) {
+    for (const route of group.routes) {
+      const path = toOpenApiPath(group.prefix, route.path);
+      paths[path] = { ...paths[path], [route.method]: operation(group, route) };
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Number Discussion API',
+      version,
+      description:
+        'People communicate through numbers: discussions start from a number and every reply applies an operation to it. ' +
+        'Errors always use the envelope `{ error: { code, message, details } }`.',
+    },
+    tags: groups.map((group) => ({ name: group.tag })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+      schemas: components(),
+    },
+  };
+}
@@ -1,5 +1,27 @@
 import { PrismaClient } from '@prisma/client';
 
-const prisma = new PrismaClient();
+let client: PrismaClient | undefined;
+
+/**
+ * The client is only created on first use, so an app running on other
+ * repositories (e.g. the in-memory ones in tests) never needs a generated
+ * client or a database
+ */
+const prisma = new Proxy({} as PrismaClient, {
+  get(_target, property) {
+    client ??= new PrismaClient();
+    const value = (client as any)[property];
+    return typeof value === 'function' ? value.bind(client) : value;
+  },
+});
+
+/**
+ * Closes the connection pool, if a client was ever created
+ */
+export async function disconnectPrisma(): Promise<void> {
+  const current = client;
+  client = undefined;
+  await current?.$disconnect();
+}
 
 export default prisma;
@@ -0,0 +1,96 @@
+import { currentAppContext } from './app-context';
+
+// ============================================================================
+// RATE LIMITS - Token buckets for the endpoints scripts like to flood
+// ============================================================================
+
+export const RATE_LIMIT_BUCKETS = ['login', 'register', 'createDiscussion', 'createOperation'] as const;
+
+export type RateLimitBucket = (typeof RATE_LIMIT_BUCKETS)[number];
+
+/**
+ * A bucket holds up to `limit` tokens and refills at `limit` per
+ * `windowSeconds`, so bursts of `limit` requests are fine but the sustained
+ * rate is capped
+ */
+export type RateLimitRule = {
+  limit: number;
+  windowSeconds: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  // Whole tokens left after this request
+  remaining: number;
+  // Until the bucket is full again
+  resetSeconds: number;
+  // Until the next token, 0 when the request was allowed
+  retryAfterSeconds: number;
+};
+
+export interface IRateLimitStore {
+  /**
+   * Takes one token from the bucket at `key` if it has one. Buckets that were
+   * never used are full.
+   */
+  take(key: string, rule: RateLimitRule, now?: Date): Promise<RateLimitResult>;
+}
+
+type Bucket = { tokens: number; updatedAt: number; rule: RateLimitRule };
+
+/**
+ * Single-process store. Buckets that have refilled completely are the same as
+ * missing ones, so they are dropped once more than `maxBuckets` are kept.
+ */
+export class InMemoryRateLimitStore implements IRateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private maxBuckets: number = 10_000) {}
+
+  async take(key: string, rule: RateLimitRule, now: Date = new Date()) {
+    const perSecond = rule.limit / rule.windowSeconds;
+    const stored = this.buckets.get(key);
+    const elapsed = stored ? Math.max(0, (now.getTime() - stored.updatedAt) / 1000) : 0;
+
+    let tokens = stored ? Math.min(rule.limit, stored.tokens + elapsed * perSecond) : rule.limit;
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    this.buckets.set(key, { tokens, updatedAt: now.getTime(), rule });
+    if (this.buckets.size > this.maxBuckets) this.prune(now);
+
+    return {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((rule.limit - tokens) / perSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / perSecond),
+    };
+  }
+
+  private prune(now: Date) {
+    for (const [key, bucket] of this.buckets) {
+      const perSecond = bucket.rule.limit / bucket.rule.windowSeconds;
+      const refilled = bucket.tokens + ((now.getTime() - bucket.updatedAt) / 1000) * perSecond;
+      if (refilled >= bucket.rule.limit) this.buckets.delete(key);
+    }
+  }
+}
+
+let rateLimitStore: IRateLimitStore = new InMemoryRateLimitStore();
+
+/**
+ * The store of the app serving the current request, or the process-wide one
+ * outside of a request
+ */
+export function getRateLimitStore(): IRateLimitStore {
+  return currentAppContext()?.rateLimitStore ?? rateLimitStore;
+}
+
+/**
+ * Swaps the process-wide store
+ */
+export function setRateLimitStore(store: IRateLimitStore): void {
+  rateLimitStore = store;
+}
@@ -0,0 +1,321 @@
+// ============================================================================
+// RATIONAL NUMBERS - Exact arithmetic for starting numbers, operands and results
+// ============================================================================
+
+const MAX_EXPONENT = 1000;
+const SIGNIFICANT_DIGITS = 20;
+
+/**
+ * Largest numerator or denominator, in bits, that is kept exactly. Beyond
+ * that every further operation gets slow, so callers round to a double.
+ */
+export const MAX_EXACT_BITS = 4096;
+
+/**
+ * Longest text `parse` reads: a fraction of two MAX_EXACT_BITS numbers
+ */
+export const MAX_TEXT_LENGTH = 2 * Math.ceil(MAX_EXACT_BITS * Math.log10(2)) + 3;
+
+function gcd(a: bigint, b: bigint): bigint {
+  a = a < 0n ? -a : a;
+  b = b < 0n ? -b : b;
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+function digitCount(value: bigint): number {
+  return (value < 0n ? -value : value).toString().length;
+}
+
+function bitCount(value: bigint): number {
+  return (value < 0n ? -value : value).toString(2).length;
+}
+
+/**
+ * A reduced fraction `numerator / denominator` backed by BigInt.
+ *
+ * `exact` is false when the value is a floating-point approximation (e.g. an
+ * irrational root or logarithm). It propagates through arithmetic, so anything
+ * computed from an approximation is an approximation as well.
+ */
+export class Rational {
+  readonly numerator: bigint;
+  readonly denominator: bigint;
+  readonly exact: boolean;
+
+  constructor(numerator: bigint, denominator: bigint = 1n, exact: boolean = true) {
+    if (denominator === 0n) {
+      throw new Error('Denominator cannot be zero');
+    }
+
+    if (denominator < 0n) {
+      numerator = -numerator;
+      denominator = -denominator;
+    }
+
+    const divisor = gcd(numerator, denominator) || 1n;
+    this.numerator = numerator / divisor;
+    this.denominator = denominator / divisor;
+    this.exact = exact;
+  }
+
+  static readonly ZERO = new Rational(0n);
+  static readonly ONE = new Rational(1n);
+
+  /**
+   * Parses integers ("42"), decimals ("0.1", "-1.5e3"), fractions ("1/3")
+   * and finite JS numbers. Decimals are read digit by digit, so "0.1" is
+   * exactly 1/10.
+   *
+   * @throws Error if the value is not a finite number or needs more than MAX_EXACT_BITS bits
+   */
+  static parse(value: unknown, exact: boolean = true): Rational {
+    if (value instanceof Rational) return value;
+
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new Error('Value must be a finite number');
+      }
+      return Rational.parse(String(value), exact);
+    }
+
+    if (typeof value !== 'string') {
+      throw new Error('Value must be a number');
+    }
+
+    const text = value.trim();
+    if (text.length > MAX_TEXT_LENGTH) {
+      throw new Error('Value is too large');
+    }
+
+    const fraction = /^([+-]?\d+)\/([+-]?\d+)$/.exec(text);
+    if (fraction) {
+      const denominator = BigInt(fraction[2]!);
+      if (denominator === 0n) {
+        throw new Error('Denominator cannot be zero');
+      }
+      return Rational.checkSize(new Rational(BigInt(fraction[1]!), denominator, exact));
+    }
+
+    const decimal = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text);
+    if (!decimal || (!decimal[2] && !decimal[3])) {
+      throw new Error('Value must be a number');
+    }
+
+    const [, sign, whole = '', fractionDigits = '', exponentText = '0'] = decimal;
+    const exponent = Number(exponentText) - fractionDigits.length;
+
+    if (Math.abs(Number(exponentText)) > MAX_EXPONENT) {
+      throw new Error('Value is too large');
+    }
+
+    let numerator = BigInt(`${whole}${fractionDigits}` || '0');
+    if (sign === '-') numerator = -numerator;
+
+    return Rational.checkSize(
+      exponent >= 0
+        ? new Rational(numerator * 10n ** BigInt(exponent), 1n, exact)
+        : new Rational(numerator, 10n ** BigInt(-exponent), exact)
+    );
+  }
+
+  private static checkSize(value: Rational): Rational {
+    if (value.bitLength() > MAX_EXACT_BITS) {
+      throw new Error('Value is too large');
+    }
+    return value;
+  }
+
+  /**
+   * Like parse, but returns null instead of throwing
+   */
+  static tryParse(value: unknown): Rational | null {
+    try {
+      return Rational.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Wraps the result of a floating-point computation. Always inexact.
+   */
+  static approximate(value: number): Rational {
+    if (!Number.isFinite(value)) {
+      throw new Error('Result is not a finite number');
+    }
+    return Rational.parse(value, false);
+  }
+
+  add(other: Rational): Rational {
+    return new Rational(
+      this.numerator * other.denominator + other.numerator * this.denominator,
+      this.denominator * other.denominator,
+      this.exact && other.exact
+    );
+  }
+
+  sub(other: Rational): Rational {
+    return this.add(other.neg());
+  }
+
+  mul(other: Rational): Rational {
+    return new Rational(
+      this.numerator * other.numerator,
+      this.denominator * other.denominator,
+      this.exact && other.exact
+    );
+  }
+
+  div(other: Rational): Rational {
+    if (other.isZero()) {
+      throw new Error('Division by zero is not allowed');
+    }
+    return new Rational(
+      this.numerator * other.denominator,
+      this.denominator * other.numerator,
+      this.exact && other.exact
+    );
+  }
+
+  /**
+   * Remainder with the sign of the dividend, like JavaScript's `%`
+   */
+  mod(other: Rational): Rational {
+    if (other.isZero()) {
+      throw new Error('Modulo by zero is not allowed');
+    }
+    const quotient = this.div(other);
+    const truncated = new Rational(quotient.numerator / quotient.denominator);
+    return this.sub(other.mul(truncated));
+  }
+
+  /**
+   * Whether `pow(exponent)` stays within MAX_EXACT_BITS, estimated without
+   * computing it
+   */
+  canPow(exponent: bigint): boolean {
+    const bits = this.bitLength();
+    if (bits <= 1) return true;
+    const magnitude = exponent < 0n ? -exponent : exponent;
+    return magnitude <= BigInt(MAX_EXACT_BITS) && bits * Number(magnitude) <= MAX_EXACT_BITS;
+  }
+
+  /**
+   * Raises to an integer power
+   *
+   * @throws Error if the result would need more than MAX_EXACT_BITS bits
+   */
+  pow(exponent: bigint): Rational {
+    if (!this.canPow(exponent)) {
+      throw new Error('Result is too large to compute exactly');
+    }
+    if (exponent < 0n) {
+      return Rational.ONE.div(this).pow(-exponent);
+    }
+    return new Rational(this.numerator ** exponent, this.denominator ** exponent, this.exact);
+  }
+
+  /**
+   * Exact integer root if there is one, otherwise null
+   */
+  root(degree: bigint): Rational | null {
+    if (degree <= 0n) return null;
+
+    const negative = this.numerator < 0n;
+    if (negative && degree % 2n === 0n) return null;
+
+    const rootOf = (value: bigint): bigint | null => {
+      const approximation = Math.round(Math.pow(Number(value), 1 / Number(degree)));
+      if (!Number.isFinite(approximation)) return null;
+
+      const estimate = BigInt(approximation);
+      for (const candidate of [estimate - 1n, estimate, estimate + 1n]) {
+        if (candidate >= 0n && candidate ** degree === value) return candidate;
+      }
+      return null;
+    };
+
+    const numerator = rootOf(negative ? -this.numerator : this.numerator);
+    const denominator = rootOf(this.denominator);
+    if (numerator === null || denominator === null) return null;
+
+    return new Rational(negative ? -numerator : numerator, denominator, this.exact);
+  }
+
+  neg(): Rational {
+    return new Rational(-this.numerator, this.denominator, this.exact);
+  }
+
+  abs(): Rational {
+    return this.numerator < 0n ? this.neg() : this;
+  }
+
+  floor(): Rational {
+    let quotient = this.numerator / this.denominator;
+    if (this.numerator < 0n && quotient * this.denominator !== this.numerator) {
+      quotient -= 1n;
+    }
+    return new Rational(quotient, 1n, this.exact);
+  }
+
+  compare(other: Rational): number {
+    const difference = this.numerator * other.denominator - other.numerator * this.denominator;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+  }
+
+  equals(other: Rational): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.numerator === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.numerator < 0n;
+  }
+
+  isInteger(): boolean {
+    return this.denominator === 1n;
+  }
+
+  /**
+   * Bits of the larger of numerator and denominator
+   */
+  bitLength(): number {
+    return Math.max(bitCount(this.numerator), bitCount(this.denominator));
+  }
+
+  /**
+   * Nearest double, used as the rounded display value
+   */
+  toNumber(): number {
+    if (this.numerator === 0n) return 0;
+
+    const magnitude = this.numerator < 0n ? -this.numerator : this.numerator;
+    const shift = SIGNIFICANT_DIGITS - (digitCount(magnitude) - digitCount(this.denominator));
+    const scaled =
+      shift >= 0
+        ? (magnitude * 10n ** BigInt(shift)) / this.denominator
+        : magnitude / (this.denominator * 10n ** BigInt(-shift));
+
+    const value = Number(`${scaled}e${-shift}`);
+    return this.numerator < 0n ? -value : value;
+  }
+
+  /**
+   * Canonical form: "7", "-1/3". Equal values always give the same string.
+   */
+  toString(): string {
+    return this.denominator === 1n ? `${this.numerator}` : `${this.numerator}/${this.denominator}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+export default Rational;
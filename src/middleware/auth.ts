@@ -1,7 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-
-const JWT_SECRET = process.env.JWT_SECRET || '';
+import { accountRestriction, getRepositories, type Role } from '../models';
+import { ForbiddenError, UnauthorizedError } from '../lib/errors';
+import { verifyToken } from '../lib/jwt';
 
 /**
  * Extended Express Request with authenticated user information
@@ -11,39 +11,77 @@ export interface AuthRequest extends Request {
   userEmail?: string;
   username?: string;
   userRole?: string;
+  sessionId?: string;
 }
 
 /**
- * Verifies JWT token from Authorization header and attaches user info to request
+ * Verifies JWT token from Authorization header and attaches user info to request.
+ * The token's session must not have been revoked (logout, logout-all, token reuse),
+ * and the account must not be banned or suspended.
  * 
  * @example router.post('/discussions', authenticate, createDiscussion);
- * @throws {401} No token provided or invalid token
+ * @throws {401} No token provided, invalid token or revoked session
+ * @throws {403} Banned or suspended account
  */
-export function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
+export async function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
   try {
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'No token provided' });
+      return next(new UnauthorizedError('No token provided'));
     }
 
     const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, JWT_SECRET) as { 
+    const decoded = (await verifyToken(token)) as unknown as { 
       id: string; 
       email: string; 
       username: string; 
       role: string;
+      sid?: string;
     };
+
+    if (!decoded.sid) {
+      return next(new UnauthorizedError('Invalid or expired token', 'INVALID_TOKEN'));
+    }
+
+    const session = await getRepositories().sessionRepository.findById(decoded.sid);
+
+    if (!session || session.revokedAt || session.userId !== decoded.id) {
+      return next(new UnauthorizedError('Session has been revoked', 'SESSION_REVOKED'));
+    }
+
+    const restriction = accountRestriction(session.user);
+
+    if (restriction) {
+      return next(new ForbiddenError(restriction.message, restriction.code));
+    }
     
     req.userId = decoded.id;
     req.userEmail = decoded.email;
     req.username = decoded.username;
-    req.userRole = decoded.role;
+    // The stored role, so promotions and demotions apply right away
+    req.userRole = session.user.role;
+    req.sessionId = decoded.sid;
     
     next();
   } catch (error) {
-    return res.status(401).json({ error: 'Invalid or expired token' });
+    return next(new UnauthorizedError('Invalid or expired token', 'INVALID_TOKEN'));
+  }
+}
+
+/**
+ * Like authenticate, but lets requests without an Authorization header through
+ * anonymously. A header that is present must still hold a valid token.
+ * 
+ * @example router.post('/register', optionalAuthenticate, register);
+ * @throws {401} Invalid token
+ */
+export function optionalAuthenticate(req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.headers.authorization) {
+    return next();
   }
+
+  return authenticate(req, res, next);
 }
 
 /**
@@ -54,10 +92,34 @@ export function authenticate(req: AuthRequest, res: Response, next: NextFunction
  */
 export function requireRegisteredUser(req: AuthRequest, res: Response, next: NextFunction) {
   if (!req.userRole || req.userRole === 'Guest') {
-    return res.status(403).json({ 
-      error: 'Access denied. Only registered users can perform this action.' 
-    });
+    return next(new ForbiddenError('Access denied. Only registered users can perform this action.', 'REGISTERED_ONLY'));
   }
   
   next();
 }
+
+/**
+ * Ensures the user has one of the given roles. Must be used after authenticate middleware.
+ * 
+ * @example router.post('/admin/users/:id/ban', authenticate, requireRole('Admin'), banUser);
+ * @throws {403} Any other role
+ */
+export function requireRole(...roles: Role[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.userRole || !roles.includes(req.userRole as Role)) {
+      return next(new ForbiddenError(`Access denied. Only ${roles.join(' and ')} users can perform this action.`, 'ROLE_REQUIRED'));
+    }
+
+    next();
+  };
+}
+
+/**
+ * Moderators and admins. Must be used after authenticate middleware.
+ */
+export const requireModerator = requireRole('Moderator', 'Admin');
+
+/**
+ * Admins only. Must be used after authenticate middleware.
+ */
+export const requireAdmin = requireRole('Admin');
@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError, NotFoundError } from '../lib/errors';
+
+/**
+ * Unknown routes get the same envelope as every other error
+ */
+export function notFoundHandler(req: Request, res: Response, next: NextFunction) {
+  next(new NotFoundError(`Route ${req.method} ${req.path}`));
+}
+
+/**
+ * Turns anything thrown by a route into `{ error: { code, message, details } }`.
+ * AppErrors carry their own status and code, malformed JSON bodies are 400s and
+ * lost unique-constraint races 409s. Anything else is logged and reported as a
+ * generic 500 without internals.
+ */
+export function errorHandler(error: any, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) {
+    return next(error);
+  }
+
+  if (error instanceof AppError) {
+    return res.status(error.status).json({
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details !== undefined ? { details: error.details } : {}),
+      },
+      ...error.extra,
+    });
+  }
+
+  // Unique constraint lost to a concurrent request
+  if (error?.code === 'P2002') {
+    return res.status(409).json({
+      error: { code: 'CONFLICT', message: 'A record with this value already exists' },
+    });
+  }
+
+  // Thrown by express.json() for unparsable bodies
+  if (error?.type === 'entity.parse.failed') {
+    return res.status(400).json({
+      error: { code: 'INVALID_JSON', message: 'Request body is not valid JSON' },
+    });
+  }
+
+  if (error?.type === 'entity.too.large') {
+    return res.status(413).json({
+      error: { code: 'PAYLOAD_TOO_LARGE', message: 'Request body is too large' },
+    });
+  }
+
+  console.error(`Unhandled error on ${req.method} ${req.originalUrl}`, error);
+
+  return res.status(500).json({
+    error: { code: 'INTERNAL_ERROR', message: 'Internal server error' },
+  });
+}
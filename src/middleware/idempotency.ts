@@ -0,0 +1,123 @@
+import { createHash } from 'crypto';
+import { Response, NextFunction } from 'express';
+import { ConflictError, UnprocessableError, ValidationError } from '../lib/errors';
+import { getRepositories } from '../models';
+import { IDEMPOTENCY_KEY_TTL_HOURS } from '../models/idempotency-model';
+import type { AuthRequest } from './auth';
+
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Objects with their keys sorted, so the same payload hashes the same
+ * whatever order a client serialises it in
+ */
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonical((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function requestHash(req: AuthRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([req.method, req.baseUrl + req.path, canonical(req.body ?? null)]))
+    .digest('hex');
+}
+
+/**
+ * Server errors and rate limits say nothing about the request itself, so a
+ * retry should run again rather than get them replayed
+ */
+function isReplayable(statusCode: number): boolean {
+  return statusCode < 500 && statusCode !== 429;
+}
+
+/**
+ * Makes a create request safe to retry. The first request with an
+ * `Idempotency-Key` header runs and its response is stored for
+ * IDEMPOTENCY_KEY_TTL_HOURS; repeating it with the same key and payload
+ * replays that response with an `Idempotent-Replayed: true` header instead of
+ * creating the resource again. Keys are per user. Requests without the header
+ * are not affected.
+ *
+ * @example router.post('/', authenticate, idempotency, DiscussionController.create);
+ * @throws {400} VALIDATION_FAILED when the key is empty, too long or not printable ASCII
+ * @throws {409} IDEMPOTENCY_KEY_IN_USE while the first request with the key is still running
+ * @throws {422} IDEMPOTENCY_KEY_REUSED when the key was used for a different request
+ */
+export async function idempotency(req: AuthRequest, res: Response, next: NextFunction) {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined || !req.userId) return next();
+
+  if (!KEY_PATTERN.test(key)) {
+    return next(
+      new ValidationError('Invalid Idempotency-Key header', [
+        { path: 'headers.idempotency-key', message: 'Must be 1 to 255 printable ASCII characters without spaces' },
+      ])
+    );
+  }
+
+  const { idempotencyRepository } = getRepositories();
+  const userId = req.userId;
+  const hash = requestHash(req);
+  const expiresAt = new Date(Date.now() + IDEMPOTENCY_KEY_TTL_HOURS * 60 * 60 * 1000);
+
+  const existing = await idempotencyRepository.claim(userId, key, hash, expiresAt);
+
+  if (existing) {
+    if (existing.requestHash !== hash) {
+      return next(
+        new UnprocessableError('This Idempotency-Key was already used for a different request', 'IDEMPOTENCY_KEY_REUSED')
+      );
+    }
+    if (!existing.response) {
+      return next(
+        new ConflictError('A request with this Idempotency-Key is still running', undefined, 'IDEMPOTENCY_KEY_IN_USE')
+      );
+    }
+
+    res.set('Idempotent-Replayed', 'true');
+    return res.status(existing.response.statusCode).json(existing.response.body);
+  }
+
+  let settled = false;
+  const send = res.json.bind(res);
+  const release = () =>
+    idempotencyRepository
+      .release(userId, key)
+      .catch((error) => console.error('Releasing the idempotency key failed', error));
+
+  // The response is stored before it is sent, so a retry that follows it
+  // right away is replayed rather than told the key is still in use
+  res.json = ((body: unknown) => {
+    settled = true;
+    const statusCode = res.statusCode;
+
+    const saved = isReplayable(statusCode)
+      ? // Stored the way it is sent, e.g. dates as strings
+        idempotencyRepository.complete(userId, key, { statusCode, body: JSON.parse(JSON.stringify(body ?? null)) })
+      : release();
+
+    saved
+      .catch((error) => {
+        console.error('Storing the idempotent response failed', error);
+        return release();
+      })
+      .finally(() => send(body));
+    return res;
+  }) as Response['json'];
+
+  // Nothing was sent, e.g. the client went away; let the next attempt run
+  res.on('close', () => {
+    if (settled) return;
+    settled = true;
+    release();
+  });
+
+  next();
+}
@@ -0,0 +1,50 @@
+import { Response, NextFunction } from 'express';
+import { getConfig } from '../lib/config';
+import { TooManyRequestsError } from '../lib/errors';
+import { getRateLimitStore, type RateLimitBucket, type RateLimitResult } from '../lib/rate-limit';
+import type { AuthRequest } from './auth';
+
+/**
+ * The result that limits the client most: a refusal over an allowance, then
+ * the longer wait or the fewer remaining requests
+ */
+function tightest(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((tightest, result) => {
+    if (result.allowed !== tightest.allowed) return result.allowed ? tightest : result;
+    if (!result.allowed) return result.retryAfterSeconds > tightest.retryAfterSeconds ? result : tightest;
+    return result.remaining < tightest.remaining ? result : tightest;
+  });
+}
+
+/**
+ * Takes a token from the bucket's budget for the client IP and, after
+ * authentication, for the user as well, so neither switching accounts nor
+ * switching IPs gets around it. Sets the RateLimit-Limit, RateLimit-Remaining
+ * and RateLimit-Reset headers of the tightest of the two.
+ *
+ * @example router.post('/login', rateLimit('login'), login);
+ * @throws {429} RATE_LIMITED, with a Retry-After header
+ */
+export function rateLimit(bucket: RateLimitBucket) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const rule = getConfig().rateLimits[bucket];
+    if (!rule) return next();
+
+    const store = getRateLimitStore();
+    const keys = [`${bucket}:ip:${req.ip}`, ...(req.userId ? [`${bucket}:user:${req.userId}`] : [])];
+    const result = tightest(await Promise.all(keys.map((key) => store.take(key, rule))));
+
+    res.set({
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(result.resetSeconds),
+    });
+
+    if (!result.allowed) {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      return next(new TooManyRequestsError(result.retryAfterSeconds));
+    }
+
+    next();
+  };
+}
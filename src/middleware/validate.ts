@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ValidationError, ErrorDetail } from '../lib/errors';
+import type { RequestSchema } from '../schemas/common';
+
+function toDetails(location: string, error: z.ZodError): ErrorDetail[] {
+  return error.issues.map((issue) => ({
+    path: [location, ...issue.path.map(String)].join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Validates body, params and query against the route's schemas and replaces
+ * them with the parsed values, so controllers only ever see well-formed input.
+ * 
+ * @example router.post('/', validate(createDiscussionSchema), DiscussionController.create);
+ * @throws {400} VALIDATION_FAILED with one detail per invalid field
+ */
+export function validate(schema: RequestSchema) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const details: ErrorDetail[] = [];
+    const parsed: { body?: unknown; params?: unknown; query?: unknown } = {};
+
+    for (const location of ['params', 'query', 'body'] as const) {
+      const locationSchema = schema[location];
+      if (!locationSchema) continue;
+
+      const result = locationSchema.safeParse(req[location] ?? {});
+
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        details.push(...toDetails(location, result.error));
+      }
+    }
+
+    if (details.length > 0) {
+      return next(new ValidationError('Request validation failed', details));
+    }
+
+    if ('body' in parsed) req.body = parsed.body;
+    if ('params' in parsed) req.params = parsed.params as Request['params'];
+    // req.query is a getter in Express 5
+    if ('query' in parsed) Object.defineProperty(req, 'query', { value: parsed.query, writable: true });
+
+    next();
+  };
+}
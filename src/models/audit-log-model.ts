@@ -0,0 +1,138 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+export const AUDIT_TARGET_TYPES = ['user', 'discussion', 'operation'] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export const AUDIT_ACTIONS = [
+  'user.suspend',
+  'user.ban',
+  'user.reinstate',
+  'user.role',
+  'discussion.lock',
+  'discussion.unlock',
+  'discussion.reassign',
+  'discussion.delete',
+  'operation.hide',
+  'operation.unhide',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditLogFilter = {
+  actorId?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+};
+
+export type AuditLogEntryInput = {
+  actorId: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  reason?: string | null;
+  metadata?: Prisma.InputJsonValue;
+};
+
+export type AuditLogPage = {
+  items: any[];
+  nextCursor: string | null;
+};
+
+/**
+ * Cursors are opaque to clients: a base64url-encoded pointer to the last
+ * entry of the previous page
+ */
+export function encodeAuditCursor(id: string): string {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url');
+}
+
+export function decodeAuditCursor(cursor: string): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.id === 'string' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// REPOSITORY LAYER - Append-only log of moderation actions
+// ============================================================================
+
+export interface IAuditLogRepository {
+  record(entry: AuditLogEntryInput, tx?: Prisma.TransactionClient): Promise<any>;
+  recordAction<T>(
+    action: (tx?: Prisma.TransactionClient) => Promise<T>,
+    entry: AuditLogEntryInput | ((result: T) => AuditLogEntryInput)
+  ): Promise<T>;
+  list(filter: AuditLogFilter, options: { limit: number; cursor?: string }): Promise<AuditLogPage>;
+}
+
+export const AuditLogRepository: IAuditLogRepository = {
+  async record(entry: AuditLogEntryInput, tx: Prisma.TransactionClient = prisma) {
+    return await tx.auditLogEntry.create({
+      data: {
+        actorId: entry.actorId,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        reason: entry.reason ?? null,
+        ...(entry.metadata ? { metadata: entry.metadata } : {}),
+      },
+      include: {
+        actor: {
+          select: { id: true, username: true },
+        },
+      },
+    });
+  },
+
+  /**
+   * Runs a moderation action and records it in one transaction, so neither
+   * happens without the other. `action` makes its writes through `tx`;
+   * `entry` can be built from what it returned.
+   */
+  async recordAction<T>(
+    action: (tx?: Prisma.TransactionClient) => Promise<T>,
+    entry: AuditLogEntryInput | ((result: T) => AuditLogEntryInput)
+  ) {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const result = await action(tx);
+      await AuditLogRepository.record(typeof entry === 'function' ? entry(result) : entry, tx);
+      return result;
+    });
+  },
+
+  /**
+   * Newest first
+   */
+  async list(filter: AuditLogFilter, options: { limit: number; cursor?: string }) {
+    const cursorId = options.cursor ? decodeAuditCursor(options.cursor) : null;
+
+    const entries = await prisma.auditLogEntry.findMany({
+      where: filter,
+      include: {
+        actor: {
+          select: { id: true, username: true },
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: options.limit + 1,
+      ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+    });
+
+    const hasMore = entries.length > options.limit;
+    const items = entries.slice(0, options.limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: hasMore && last ? encodeAuditCursor(last.id) : null,
+    };
+  },
+};
+
+export default AuditLogRepository;
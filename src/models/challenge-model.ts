@@ -0,0 +1,181 @@
+import prisma from '../lib/prisma';
+import Rational from '../lib/rational';
+
+/**
+ * Challenge mode of a discussion: reach `target` from the starting number,
+ * optionally in at most `stepBudget` operations
+ */
+export type ChallengeSettings = {
+  target: Rational;
+  stepBudget: number | null;
+};
+
+/**
+ * A winning operation, as used for the leaderboard
+ */
+export type SolutionRecord = {
+  discussionId: string;
+  discussionAuthorId: string;
+  operationId: string;
+  author: { id: string; username: string };
+  createdAt: Date;
+};
+
+/**
+ * A user on the leaderboard
+ */
+export type SolverRecord = {
+  user: { id: string; username: string };
+  solved: number;
+  // When the user solved their latest challenge; earlier wins a tie
+  lastSolvedAt: Date;
+};
+
+/**
+ * Challenge of a stored discussion, or null for a plain discussion
+ */
+export function readChallenge(discussion: {
+  targetNumberExact?: string | null;
+  stepBudget?: number | null;
+}): ChallengeSettings | null {
+  if (!discussion.targetNumberExact) return null;
+
+  return {
+    target: Rational.parse(discussion.targetNumberExact),
+    stepBudget: discussion.stepBudget ?? null,
+  };
+}
+
+/**
+ * Users by number of challenges solved, best first. Several solutions of one
+ * challenge count once (from the earliest), and nobody scores on their own
+ * challenge. What `findTopSolvers` does in SQL, for backends without it.
+ */
+export function rankSolvers(solutions: SolutionRecord[], limit: number): SolverRecord[] {
+  const solvers = new Map<string, { user: { id: string; username: string }; firstSolves: Map<string, Date> }>();
+
+  for (const solution of solutions) {
+    if (solution.author.id === solution.discussionAuthorId) continue;
+
+    const solver = solvers.get(solution.author.id) ?? { user: solution.author, firstSolves: new Map<string, Date>() };
+    const solvedAt = new Date(solution.createdAt);
+    const previous = solver.firstSolves.get(solution.discussionId);
+
+    if (!previous || solvedAt < previous) solver.firstSolves.set(solution.discussionId, solvedAt);
+    solvers.set(solution.author.id, solver);
+  }
+
+  return [...solvers.values()]
+    .map(({ user, firstSolves }) => ({
+      user,
+      solved: firstSolves.size,
+      lastSolvedAt: new Date(Math.max(...[...firstSolves.values()].map((date) => date.getTime()))),
+    }))
+    .sort(
+      (a, b) =>
+        b.solved - a.solved ||
+        a.lastSolvedAt.getTime() - b.lastSolvedAt.getTime() ||
+        a.user.username.localeCompare(b.user.username)
+    )
+    .slice(0, limit);
+}
+
+// ============================================================================
+// REPOSITORY LAYER - Winning operations of challenge discussions
+// ============================================================================
+
+export interface IChallengeRepository {
+  findSolutions(discussionId: string, challenge: ChallengeSettings, limit: number): Promise<{ items: any[]; total: number }>;
+  findPathOperations(paths: string[]): Promise<any[]>;
+  findTopSolvers(limit: number): Promise<SolverRecord[]>;
+}
+
+export const ChallengeRepository: IChallengeRepository = {
+  /**
+   * Live operations that hit the target within the step budget, shortest
+   * first, then earliest
+   */
+  async findSolutions(discussionId: string, challenge: ChallengeSettings, limit: number) {
+    const where = {
+      discussionId,
+      resultExact: challenge.target.toString(),
+      resultApproximate: false,
+      invalidReason: null,
+      deletedAt: null,
+      hiddenAt: null,
+      ...(challenge.stepBudget !== null ? { depth: { lte: challenge.stepBudget } } : {}),
+    };
+
+    const [items, total] = await Promise.all([
+      prisma.operation.findMany({
+        where,
+        include: {
+          author: {
+            select: { id: true, username: true },
+          },
+        },
+        orderBy: [{ depth: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+        take: limit,
+      }),
+      prisma.operation.count({ where }),
+    ]);
+
+    return { items, total };
+  },
+
+  /**
+   * Every operation on any of these stored paths, with its author. One query
+   * for all the solutions of a page, instead of one chain per solution.
+   */
+  async findPathOperations(paths: string[]) {
+    const ids = [...new Set(paths.flatMap((path) => path.split('/')))];
+
+    return await prisma.operation.findMany({
+      where: { id: { in: ids } },
+      include: {
+        author: {
+          select: { id: true, username: true },
+        },
+      },
+    });
+  },
+
+  /**
+   * The `limit` users who solved the most live challenges, ranked like
+   * `rankSolvers`. Results are compared with the discussion's own target,
+   * which Prisma filters cannot express, so this is one grouped query.
+   */
+  async findTopSolvers(limit: number) {
+    const rows: any[] = await prisma.$queryRaw`
+      WITH "firstSolves" AS (
+        SELECT o."authorId", o."discussionId", MIN(o."createdAt") AS "solvedAt"
+        FROM "Operation" o
+        JOIN "Discussion" d ON d."id" = o."discussionId"
+        WHERE d."targetNumberExact" IS NOT NULL
+          AND d."deletedAt" IS NULL
+          AND o."authorId" <> d."authorId"
+          AND o."resultExact" = d."targetNumberExact"
+          AND o."resultApproximate" = false
+          AND o."invalidReason" IS NULL
+          AND o."deletedAt" IS NULL
+          AND o."hiddenAt" IS NULL
+          AND (d."stepBudget" IS NULL OR o."depth" <= d."stepBudget")
+        GROUP BY o."authorId", o."discussionId"
+      )
+      SELECT u."id", u."username", COUNT(*)::int AS "solved", MAX(f."solvedAt") AS "lastSolvedAt"
+      FROM "firstSolves" f
+      JOIN "User" u ON u."id" = f."authorId"
+      GROUP BY u."id", u."username"
+      ORDER BY "solved" DESC, "lastSolvedAt" ASC, u."username" ASC
+      LIMIT ${limit}
+    `;
+
+    return rows.map((row) => ({
+      user: { id: row.id, username: row.username },
+      solved: row.solved,
+      lastSolvedAt: row.lastSolvedAt,
+    }));
+  },
+};
+
+export default ChallengeRepository;
@@ -1,21 +1,130 @@
+import type { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
+import Rational from '../lib/rational';
+import { randomUUID } from 'crypto';
+import { applyRecomputePlan, operandColumns, resultColumns, type RecomputePlan } from './operation-model';
+import type { DiscussionRules } from './discussion-rules';
+import type { ChallengeSettings } from './challenge-model';
+
+/**
+ * Exact starting number of a stored discussion
+ */
+export function readStartingNumber(discussion: { startingNumberExact: string }): Rational {
+  return Rational.parse(discussion.startingNumberExact);
+}
+
+function startingNumberColumns(startingNumber: Rational) {
+  return {
+    startingNumber: startingNumber.toNumber(),
+    startingNumberExact: startingNumber.toString(),
+  };
+}
+
+export type ImportedOperation = {
+  key: string;
+  parentKey: string | null;
+  operationType: string;
+  operand: Rational | null;
+  result: Rational;
+};
+
+export type DiscussionSort = 'newest' | 'operations' | 'active';
+
+export const DISCUSSION_SORTS: DiscussionSort[] = ['newest', 'operations', 'active'];
+
+export type DiscussionListOptions = {
+  limit: number;
+  cursor?: string;
+  sort: DiscussionSort;
+  author?: string; // username
+  minStartingNumber?: number;
+  maxStartingNumber?: number;
+  createdAfter?: Date;
+  createdBefore?: Date;
+};
+
+export type DiscussionPage = {
+  items: any[];
+  nextCursor: string | null;
+};
+
+// Latest operations shown with each discussion in listings
+const PREVIEW_SIZE = 3;
+
+export function encodeListCursor(id: string): string {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url');
+}
+
+export function decodeListCursor(cursor: string): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.id === 'string' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+}
 
 // ============================================================================
 // REPOSITORY LAYER - Basic CRUD operations for controllers
 // ============================================================================
 
 export interface IDiscussionRepository {
-  create(data: { startingNumber: number; authorId: string }): Promise<any>;
+  create(data: {
+    startingNumber: Rational;
+    authorId: string;
+    rules?: DiscussionRules;
+    challenge?: ChallengeSettings;
+  }): Promise<any>;
   findById(id: string): Promise<any>;
-  findAll(): Promise<any[]>;
-  update(id: string, data: { startingNumber: number }): Promise<any>;
-  delete(id: string): Promise<any>;
+  findByStartingNumber(startingNumber: Rational): Promise<any>;
+  findByAuthor(authorId: string): Promise<any[]>;
+  exists(id: string): Promise<boolean>;
+  /**
+   * What a tree is rooted at, without loading any operations. Null when the
+   * discussion does not exist or is deleted.
+   */
+  findTreeRoot(id: string): Promise<{ id: string; startingNumber: number; startingNumberExact: string } | null>;
+  findAll(options: DiscussionListOptions): Promise<DiscussionPage>;
+  update(id: string, data: { startingNumber?: Rational; rules?: DiscussionRules }): Promise<any>;
+  updateStartingNumber(
+    id: string,
+    startingNumber: Rational,
+    recompute: (operations: any[]) => RecomputePlan,
+    rules?: DiscussionRules
+  ): Promise<{ discussion: any; plan: RecomputePlan }>;
+  importTree(data: {
+    startingNumber: Rational;
+    authorId: string;
+    operations: ImportedOperation[];
+  }): Promise<any>;
+  setLocked(id: string, locked: boolean, tx?: Prisma.TransactionClient): Promise<any>;
+  reassign(id: string, authorId: string, tx?: Prisma.TransactionClient): Promise<any>;
+  delete(id: string, tx?: Prisma.TransactionClient): Promise<any>;
+  softDelete(id: string): Promise<any>;
+  restore(id: string): Promise<any>;
+  purgeDeleted(before: Date): Promise<number>;
 }
 
 export const DiscussionRepository: IDiscussionRepository = {
-  async create(data: { startingNumber: number; authorId: string }) {
+  async create(data: {
+    startingNumber: Rational;
+    authorId: string;
+    rules?: DiscussionRules;
+    challenge?: ChallengeSettings;
+  }) {
     return await prisma.discussion.create({
-      data,
+      data: {
+        ...startingNumberColumns(data.startingNumber),
+        authorId: data.authorId,
+        rules: data.rules ?? {},
+        ...(data.challenge
+          ? {
+              targetNumber: data.challenge.target.toNumber(),
+              targetNumberExact: data.challenge.target.toString(),
+              stepBudget: data.challenge.stepBudget,
+            }
+          : {}),
+      },
       include: {
         author: {
           select: { id: true, username: true, email: true },
@@ -43,31 +152,131 @@ export const DiscussionRepository: IDiscussionRepository = {
     });
   },
 
-  async findAll() {
-    return await prisma.discussion.findMany({
+  /**
+   * Looks up by exact value, so 0.3 and 0.1 + 0.2 are the same number
+   */
+  async findByStartingNumber(startingNumber: Rational) {
+    return await prisma.discussion.findUnique({
+      where: { startingNumberExact: startingNumber.toString() },
       include: {
         author: {
           select: { id: true, username: true, email: true },
         },
+        _count: {
+          select: { operations: true },
+        },
+      },
+    });
+  },
+
+  async findByAuthor(authorId: string) {
+    return await prisma.discussion.findMany({
+      where: { authorId, deletedAt: null },
+      include: {
+        _count: {
+          select: { operations: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * True for discussions that exist and are not deleted
+   */
+  async exists(id: string): Promise<boolean> {
+    const discussion = await prisma.discussion.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true },
+    });
+    return discussion !== null;
+  },
+
+  async findTreeRoot(id: string) {
+    return await prisma.discussion.findFirst({
+      where: { id, deletedAt: null },
+      select: { id: true, startingNumber: true, startingNumberExact: true },
+    });
+  },
+
+  /**
+   * One page of discussions with operation counts and a short preview.
+   * Cursors point at the last discussion of the previous page; `id` breaks
+   * ties so pages never overlap.
+   */
+  async findAll(options: DiscussionListOptions) {
+    const orderBy: any[] = {
+      newest: [{ createdAt: 'desc' }],
+      operations: [{ operations: { _count: 'desc' } }, { createdAt: 'desc' }],
+      active: [{ lastActivityAt: 'desc' }],
+    }[options.sort];
+
+    const cursorId = options.cursor ? decodeListCursor(options.cursor) : null;
+
+    const discussions = await prisma.discussion.findMany({
+      where: {
+        deletedAt: null,
+        ...(options.author ? { author: { username: options.author } } : {}),
+        startingNumber: {
+          ...(options.minStartingNumber !== undefined ? { gte: options.minStartingNumber } : {}),
+          ...(options.maxStartingNumber !== undefined ? { lte: options.maxStartingNumber } : {}),
+        },
+        createdAt: {
+          ...(options.createdAfter ? { gte: options.createdAfter } : {}),
+          ...(options.createdBefore ? { lte: options.createdBefore } : {}),
+        },
+      },
+      include: {
+        author: {
+          select: { id: true, username: true },
+        },
+        _count: {
+          select: { operations: true },
+        },
         operations: {
-            // older operation first
-          orderBy: { createdAt: 'asc' },
-          include: {
+          where: { deletedAt: null, hiddenAt: null },
+          take: PREVIEW_SIZE,
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            parentId: true,
+            operationType: true,
+            operand: true,
+            operandExact: true,
+            result: true,
+            resultExact: true,
+            createdAt: true,
             author: {
               select: { id: true, username: true },
             },
           },
         },
       },
-      // newer discusion first
-      orderBy: { createdAt: 'desc' },
+      orderBy: [...orderBy, { id: 'desc' }],
+      take: options.limit + 1,
+      ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
     });
+
+    const hasMore = discussions.length > options.limit;
+    const items = discussions.slice(0, options.limit).map(({ operations, ...discussion }: any) => ({
+      ...discussion,
+      preview: operations,
+    }));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: hasMore && last ? encodeListCursor(last.id) : null,
+    };
   },
 
-  async update(id: string, data: { startingNumber: number }) {
+  async update(id: string, data: { startingNumber?: Rational; rules?: DiscussionRules }) {
     return await prisma.discussion.update({
       where: { id },
-      data,
+      data: {
+        ...(data.startingNumber ? startingNumberColumns(data.startingNumber) : {}),
+        ...(data.rules ? { rules: data.rules } : {}),
+      },
       include: {
         author: {
           select: { id: true, username: true, email: true },
@@ -76,11 +285,150 @@ export const DiscussionRepository: IDiscussionRepository = {
     });
   },
 
-  async delete(id: string) {
-    return await prisma.discussion.delete({
+  /**
+   * Changes the starting number and applies the recomputed results of every
+   * operation in the discussion in one transaction. `recompute` runs against
+   * the operations read inside the transaction; throwing from it rolls back.
+   * New `rules` are written in the same transaction.
+   */
+  async updateStartingNumber(
+    id: string,
+    startingNumber: Rational,
+    recompute: (operations: any[]) => RecomputePlan,
+    rules?: DiscussionRules
+  ) {
+    return await prisma.$transaction(async (tx: any) => {
+      const operations = await tx.operation.findMany({
+        where: { discussionId: id },
+        select: { id: true, parentId: true, operationType: true, operandExact: true },
+      });
+
+      const plan = recompute(operations);
+
+      const discussion = await tx.discussion.update({
+        where: { id },
+        data: {
+          ...startingNumberColumns(startingNumber),
+          ...(rules ? { rules } : {}),
+          lastActivityAt: new Date(),
+        },
+        include: {
+          author: {
+            select: { id: true, username: true, email: true },
+          },
+        },
+      });
+
+      await applyRecomputePlan(tx, plan);
+
+      return { discussion, plan };
+    });
+  },
+
+  /**
+   * Creates a discussion together with a whole operation tree in one
+   * transaction. Operations get fresh ids; `key`/`parentKey` only link them
+   * and parents must come before their children.
+   */
+  async importTree(data: { startingNumber: Rational; authorId: string; operations: ImportedOperation[] }) {
+    const discussionId = randomUUID();
+    const placed = new Map<string, { id: string; path: string; depth: number }>();
+
+    const rows = data.operations.map((operation) => {
+      const parent = operation.parentKey === null ? null : placed.get(operation.parentKey);
+
+      if (parent === undefined) {
+        throw new Error(`Parent ${operation.parentKey} of imported operation ${operation.key} comes after it`);
+      }
+
+      const id = randomUUID();
+      const node = {
+        id,
+        path: parent ? `${parent.path}/${id}` : id,
+        depth: parent ? parent.depth + 1 : 1,
+      };
+      placed.set(operation.key, node);
+
+      return {
+        ...node,
+        discussionId,
+        parentId: parent ? parent.id : null,
+        operationType: operation.operationType,
+        ...operandColumns(operation.operand),
+        ...resultColumns(operation.result),
+        authorId: data.authorId,
+      };
+    });
+
+    const [discussion] = await prisma.$transaction([
+      prisma.discussion.create({
+        data: { id: discussionId, ...startingNumberColumns(data.startingNumber), authorId: data.authorId },
+        include: {
+          author: {
+            select: { id: true, username: true, email: true },
+          },
+        },
+      }),
+      prisma.operation.createMany({ data: rows }),
+    ]);
+
+    return { ...discussion, importedOperations: rows.length };
+  },
+
+  async setLocked(id: string, locked: boolean, tx: Prisma.TransactionClient = prisma) {
+    return await tx.discussion.update({
+      where: { id },
+      data: { lockedAt: locked ? new Date() : null },
+    });
+  },
+
+  async reassign(id: string, authorId: string, tx: Prisma.TransactionClient = prisma) {
+    return await tx.discussion.update({
+      where: { id },
+      data: { authorId },
+      include: {
+        author: {
+          select: { id: true, username: true },
+        },
+      },
+    });
+  },
+
+  async delete(id: string, tx: Prisma.TransactionClient = prisma) {
+    return await tx.discussion.delete({
+      where: { id },
+    });
+  },
+
+  async softDelete(id: string) {
+    return await prisma.discussion.update({
       where: { id },
+      data: { deletedAt: new Date() },
     });
   },
+
+  async restore(id: string) {
+    return await prisma.discussion.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: {
+        author: {
+          select: { id: true, username: true, email: true },
+        },
+      },
+    });
+  },
+
+  /**
+   * Hard-deletes discussions (and, by cascade, their operations) that were
+   * soft-deleted before `before`
+   */
+  async purgeDeleted(before: Date) {
+    const purged = await prisma.discussion.deleteMany({
+      where: { deletedAt: { lt: before } },
+    });
+    return purged.count;
+  },
 };
 
 // ============================================================================
@@ -88,10 +436,10 @@ export const DiscussionRepository: IDiscussionRepository = {
 // ============================================================================
 
 export const DiscussionModel = {
-  async create(data: { startingNumber: number; authorId: string }) {
+  async create(data: { startingNumber: Rational; authorId: string }) {
     return await prisma.discussion.create({
       data: {
-        startingNumber: data.startingNumber,
+        ...startingNumberColumns(data.startingNumber),
         authorId: data.authorId,
       },
       include: {
@@ -102,23 +450,13 @@ export const DiscussionModel = {
     });
   },
 
-  async findByStartingNumber(startingNumber: number) {
-    return await prisma.discussion.findUnique({
-      where: { startingNumber },
-      include: {
-        author: {
-          select: { id: true, username: true, email: true },
-        },
-        _count: {
-          select: { operations: true },
-        },
-      },
-    });
+  async findByStartingNumber(startingNumber: Rational) {
+    return await DiscussionRepository.findByStartingNumber(startingNumber);
   },
 
-  async isStartingNumberTaken(startingNumber: number): Promise<boolean> {
+  async isStartingNumberTaken(startingNumber: Rational): Promise<boolean> {
     const existing = await prisma.discussion.findUnique({
-      where: { startingNumber },
+      where: { startingNumberExact: startingNumber.toString() },
       select: { id: true },
     });
     return existing !== null;
@@ -163,17 +501,13 @@ export const DiscussionModel = {
   },
 
   async findByAuthor(authorId: string) {
-    return await prisma.discussion.findMany({
-      where: { authorId },
-      include: {
-        _count: {
-          select: { operations: true },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    return await DiscussionRepository.findByAuthor(authorId);
+  },
+
+  async exists(id: string): Promise<boolean> {
+    return await DiscussionRepository.exists(id);
   },
-  
+
   async isAuthor(discussionId: string, userId: string): Promise<boolean> {
     const discussion = await prisma.discussion.findUnique({
       where: { id: discussionId },
@@ -0,0 +1,81 @@
+import Rational from '../lib/rational';
+import { getOperator, OperationType } from './operator-registry';
+
+// ============================================================================
+// DISCUSSION RULES - Constraints the author puts on new operations
+// ============================================================================
+
+/**
+ * Stored as JSON on the discussion. Every rule is optional; `{}` means
+ * anything goes. Operand bounds are exact values ("1", "-1/3").
+ */
+export type DiscussionRules = {
+  allowedOperators?: OperationType[];
+  integerOperands?: boolean;
+  minOperand?: string;
+  maxOperand?: string;
+  maxDepth?: number;
+  // ISO timestamp after which the discussion takes no new operations
+  closesAt?: string;
+};
+
+export type DiscussionRule = keyof DiscussionRules;
+
+export type RuleViolation = {
+  rule: DiscussionRule;
+  message: string;
+};
+
+/**
+ * Rules as stored, tolerating discussions created before rules existed
+ */
+export function readRules(discussion: { rules?: unknown }): DiscussionRules {
+  const rules = discussion.rules;
+  return rules && typeof rules === 'object' && !Array.isArray(rules) ? (rules as DiscussionRules) : {};
+}
+
+/**
+ * First rule a new (or edited) operation breaks, or null when it is allowed.
+ * Operand rules only apply to binary operators.
+ */
+export function checkRules(
+  rules: DiscussionRules,
+  attempt: { operationType: OperationType; operand: Rational | null; depth: number },
+  now: Date = new Date()
+): RuleViolation | null {
+  if (rules.closesAt && new Date(rules.closesAt) <= now) {
+    return { rule: 'closesAt', message: `This discussion closed at ${new Date(rules.closesAt).toISOString()}` };
+  }
+
+  if (rules.allowedOperators && !rules.allowedOperators.includes(attempt.operationType)) {
+    return {
+      rule: 'allowedOperators',
+      message: `Only ${rules.allowedOperators.join(', ')} can be used in this discussion`,
+    };
+  }
+
+  const operator = getOperator(attempt.operationType);
+
+  if (operator?.arity === 2 && attempt.operand) {
+    if (rules.integerOperands && !attempt.operand.isInteger()) {
+      return { rule: 'integerOperands', message: 'Operands must be integers in this discussion' };
+    }
+
+    if (rules.minOperand !== undefined && attempt.operand.compare(Rational.parse(rules.minOperand)) < 0) {
+      return { rule: 'minOperand', message: `Operands must be at least ${rules.minOperand} in this discussion` };
+    }
+
+    if (rules.maxOperand !== undefined && attempt.operand.compare(Rational.parse(rules.maxOperand)) > 0) {
+      return { rule: 'maxOperand', message: `Operands must be at most ${rules.maxOperand} in this discussion` };
+    }
+  }
+
+  if (rules.maxDepth !== undefined && attempt.depth > rules.maxDepth) {
+    return {
+      rule: 'maxDepth',
+      message: `Operations can be at most ${rules.maxDepth} level${rules.maxDepth === 1 ? '' : 's'} deep in this discussion`,
+    };
+  }
+
+  return null;
+}
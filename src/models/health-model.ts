@@ -0,0 +1,92 @@
+import { readdir } from 'fs/promises';
+import path from 'path';
+import prisma from '../lib/prisma';
+
+// Where `prisma migrate` keeps migrations, relative to the project root the
+// server is started from
+function migrationsDir(): string {
+  return path.join(process.cwd(), 'prisma', 'migrations');
+}
+
+export type MigrationStatus = {
+  // In the migrations directory, but not applied to the database
+  pending: string[];
+  // Started and never finished; `prisma migrate deploy` will not go past them
+  failed: string[];
+};
+
+/**
+ * Migration folders are named `<timestamp>_<name>`. The schema is only ever
+ * created by migrations, so a missing or empty directory means the server was
+ * started from the wrong place (or deployed without them), not that there is
+ * nothing to apply.
+ *
+ * @throws Error if there are no migrations to compare against
+ */
+async function migrationNames(): Promise<string[]> {
+  const dir = migrationsDir();
+  let names: string[];
+
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    names = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name).sort();
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+    names = [];
+  }
+
+  if (names.length === 0) {
+    throw new Error(`No migrations found in ${dir}`);
+  }
+  return names;
+}
+
+// ============================================================================
+// REPOSITORY LAYER - Whether the storage backend can serve requests
+// ============================================================================
+
+export interface IHealthRepository {
+  /**
+   * Resolves once the backend answered a trivial query
+   */
+  ping(): Promise<void>;
+  migrationStatus(): Promise<MigrationStatus>;
+}
+
+export const HealthRepository: IHealthRepository = {
+  async ping() {
+    await prisma.$queryRaw`SELECT 1`;
+  },
+
+  async migrationStatus() {
+    const expected = await migrationNames();
+
+    const [table]: { exists: boolean }[] = await prisma.$queryRaw`
+      SELECT to_regclass('_prisma_migrations') IS NOT NULL AS "exists"
+    `;
+
+    if (!table?.exists) {
+      return { pending: expected, failed: [] };
+    }
+
+    const applied: { name: string; finished: boolean; rolledBack: boolean }[] = await prisma.$queryRaw`
+      SELECT
+        migration_name AS "name",
+        finished_at IS NOT NULL AS "finished",
+        rolled_back_at IS NOT NULL AS "rolledBack"
+      FROM _prisma_migrations
+    `;
+
+    // A rolled-back attempt is superseded by the next one of the same name
+    const finished = new Set(applied.filter((row) => row.finished).map((row) => row.name));
+
+    return {
+      pending: expected.filter((name) => !finished.has(name)),
+      failed: applied
+        .filter((row) => !row.finished && !row.rolledBack && !finished.has(row.name))
+        .map((row) => row.name),
+    };
+  },
+};
+
+export default HealthRepository;
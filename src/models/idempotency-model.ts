@@ -0,0 +1,87 @@
+import prisma from '../lib/prisma';
+
+// How long a key replays its response; after that it can be used again
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+export type StoredResponse = {
+  statusCode: number;
+  body: unknown;
+};
+
+/**
+ * What is kept under a user's key
+ */
+export type IdempotencyRecord = {
+  requestHash: string;
+  // null while the first request with the key is still running
+  response: StoredResponse | null;
+  expiresAt: Date;
+};
+
+function toRecord(row: any): IdempotencyRecord {
+  return {
+    requestHash: row.requestHash,
+    response: row.statusCode === null ? null : { statusCode: row.statusCode, body: row.responseBody },
+    expiresAt: row.expiresAt,
+  };
+}
+
+// ============================================================================
+// REPOSITORY LAYER - Idempotency keys of create requests
+// ============================================================================
+
+export interface IIdempotencyRepository {
+  /**
+   * Claims the user's key for a new request. Expired keys are free again.
+   *
+   * @returns null once claimed, or the record already kept under the key
+   */
+  claim(userId: string, key: string, requestHash: string, expiresAt: Date): Promise<IdempotencyRecord | null>;
+  /**
+   * Stores the response the claimed key replays from now on
+   */
+  complete(userId: string, key: string, response: StoredResponse): Promise<void>;
+  /**
+   * Frees a claimed key without storing a response, so a retry runs again
+   */
+  release(userId: string, key: string): Promise<void>;
+  purgeExpired(now: Date): Promise<number>;
+}
+
+export const IdempotencyRepository: IIdempotencyRepository = {
+  async claim(userId: string, key: string, requestHash: string, expiresAt: Date) {
+    await prisma.idempotencyKey.deleteMany({ where: { userId, key, expiresAt: { lte: new Date() } } });
+
+    try {
+      await prisma.idempotencyKey.create({ data: { userId, key, requestHash, expiresAt } });
+      return null;
+    } catch (error: any) {
+      if (error?.code !== 'P2002') throw error;
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+
+    // Released in the meantime, so it can be claimed after all
+    if (!existing) return IdempotencyRepository.claim(userId, key, requestHash, expiresAt);
+
+    return toRecord(existing);
+  },
+
+  async complete(userId: string, key: string, response: StoredResponse) {
+    await prisma.idempotencyKey.update({
+      where: { userId_key: { userId, key } },
+      data: { statusCode: response.statusCode, responseBody: response.body as any },
+    });
+  },
+
+  async release(userId: string, key: string) {
+    await prisma.idempotencyKey.deleteMany({ where: { userId, key } });
+  },
+
+  async purgeExpired(now: Date) {
+    const purged = await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: now } } });
+    return purged.count;
+  },
+};
+
+export default IdempotencyRepository;
@@ -0,0 +1,13 @@
+export * from './user-model';
+export * from './session-model';
+export * from './discussion-model';
+export * from './discussion-rules';
+export * from './operation-model';
+export * from './operator-registry';
+export * from './notification-model';
+export * from './audit-log-model';
+export * from './challenge-model';
+export * from './vote-model';
+export * from './health-model';
+export * from './idempotency-model';
+export * from './repositories';
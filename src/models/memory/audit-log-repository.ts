@@ -0,0 +1,68 @@
+import {
+  decodeAuditCursor,
+  encodeAuditCursor,
+  type AuditLogEntryInput,
+  type AuditLogFilter,
+  type IAuditLogRepository,
+} from '../audit-log-model';
+import { afterCursor, compareBy, copy, MemoryStore, type Row } from './store';
+
+const newestFirst = compareBy<Row>([(row) => row.createdAt, 'desc'], [(row) => row.id, 'desc']);
+
+export function makeMemoryAuditLogRepository(store: MemoryStore): IAuditLogRepository {
+  function withActor(entry: Row): Row {
+    return { ...copy(entry), actor: store.author(entry.actorId) };
+  }
+
+  function matches(entry: Row, filter: AuditLogFilter) {
+    return Object.entries(filter).every(([key, value]) => value === undefined || entry[key] === value);
+  }
+
+  function record(entry: AuditLogEntryInput) {
+    const row = {
+      id: store.id(),
+      actorId: entry.actorId,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId,
+      reason: entry.reason ?? null,
+      metadata: entry.metadata ? copy(entry.metadata) : null,
+      createdAt: store.now(),
+    };
+    store.auditLog.set(row.id, row);
+
+    return withActor(row);
+  }
+
+  return {
+    async record(entry) {
+      return record(entry);
+    },
+
+    // Nothing here can fail halfway, so the action and its entry are simply
+    // written one after the other
+    async recordAction(action, entry) {
+      const result = await action();
+      record(typeof entry === 'function' ? entry(result) : entry);
+      return result;
+    },
+
+    async list(filter, options) {
+      let entries = [...store.auditLog.values()].filter((entry) => matches(entry, filter)).sort(newestFirst);
+
+      const cursorId = options.cursor ? decodeAuditCursor(options.cursor) : null;
+      if (cursorId) entries = afterCursor(entries, store.auditLog.get(cursorId), newestFirst);
+
+      const hasMore = entries.length > options.limit;
+      const items = entries.slice(0, options.limit).map(withActor);
+      const last = items[items.length - 1];
+
+      return {
+        items,
+        nextCursor: hasMore && last ? encodeAuditCursor(last.id) : null,
+      };
+    },
+  };
+}
+
+export default makeMemoryAuditLogRepository;
@@ -0,0 +1,72 @@
+import { rankSolvers, type ChallengeSettings, type IChallengeRepository } from '../challenge-model';
+import { compareBy, copy, MemoryStore, type Row } from './store';
+
+const shortestFirst = compareBy<Row>(
+  [(row) => row.depth, 'asc'],
+  [(row) => row.createdAt, 'asc'],
+  [(row) => row.id, 'asc']
+);
+
+/**
+ * Whether a live operation hits the challenge's target within its step budget
+ */
+function hits(operation: Row, challenge: { targetNumberExact: string; stepBudget: number | null }) {
+  return (
+    operation.resultExact === challenge.targetNumberExact &&
+    !operation.resultApproximate &&
+    operation.invalidReason === null &&
+    operation.deletedAt === null &&
+    operation.hiddenAt === null &&
+    (challenge.stepBudget === null || operation.depth <= challenge.stepBudget)
+  );
+}
+
+export function makeMemoryChallengeRepository(store: MemoryStore): IChallengeRepository {
+  return {
+    async findSolutions(discussionId: string, challenge: ChallengeSettings, limit: number) {
+      const target = { targetNumberExact: challenge.target.toString(), stepBudget: challenge.stepBudget };
+      const solutions = [...store.operations.values()]
+        .filter((operation) => operation.discussionId === discussionId && hits(operation, target))
+        .sort(shortestFirst);
+
+      return {
+        items: solutions.slice(0, limit).map((operation) => ({ ...copy(operation), author: store.author(operation.authorId) })),
+        total: solutions.length,
+      };
+    },
+
+    async findPathOperations(paths: string[]) {
+      const ids = new Set(paths.flatMap((path) => path.split('/')));
+
+      return [...ids]
+        .map((id) => store.operations.get(id))
+        .filter((operation): operation is Row => operation !== undefined)
+        .map((operation) => ({ ...copy(operation), author: store.author(operation.authorId) }));
+    },
+
+    async findTopSolvers(limit: number) {
+      const solutions = [...store.operations.values()].flatMap((operation) => {
+        const discussion = store.discussions.get(operation.discussionId)!;
+        const challenge = { targetNumberExact: discussion.targetNumberExact, stepBudget: discussion.stepBudget };
+        if (challenge.targetNumberExact === null || discussion.deletedAt !== null || !hits(operation, challenge)) {
+          return [];
+        }
+
+        const author = store.users.get(operation.authorId)!;
+        return [
+          {
+            discussionId: discussion.id,
+            discussionAuthorId: discussion.authorId,
+            operationId: operation.id,
+            author: { id: author.id, username: author.username },
+            createdAt: operation.createdAt,
+          },
+        ];
+      });
+
+      return rankSolvers(solutions, limit);
+    },
+  };
+}
+
+export default makeMemoryChallengeRepository;
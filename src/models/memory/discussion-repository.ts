@@ -0,0 +1,300 @@
+import type Rational from '../../lib/rational';
+import { decodeListCursor, encodeListCursor, type DiscussionListOptions, type IDiscussionRepository } from '../discussion-model';
+import { operandColumns, resultColumns } from '../operation-model';
+import { applyPlan } from './operation-repository';
+import { afterCursor, compareBy, copy, MemoryStore, recordNotFound, uniqueViolation, type Row, type SortKey } from './store';
+
+// Latest operations shown with each discussion in listings
+const PREVIEW_SIZE = 3;
+
+function startingNumberColumns(startingNumber: Rational) {
+  return {
+    startingNumber: startingNumber.toNumber(),
+    startingNumberExact: startingNumber.toString(),
+  };
+}
+
+export function makeMemoryDiscussionRepository(store: MemoryStore): IDiscussionRepository {
+  function get(id: string) {
+    const discussion = store.discussions.get(id);
+    if (!discussion) throw recordNotFound('Discussion');
+    return discussion;
+  }
+
+  // Exact starting numbers are unique, like the startingNumberExact column
+  function assertUnique(startingNumberExact: string, exceptId?: string) {
+    for (const discussion of store.discussions.values()) {
+      if (discussion.id !== exceptId && discussion.startingNumberExact === startingNumberExact) {
+        throw uniqueViolation('Discussion', 'startingNumberExact');
+      }
+    }
+  }
+
+  function operationsOf(discussionId: string) {
+    return [...store.operations.values()].filter((operation) => operation.discussionId === discussionId);
+  }
+
+  function withAuthor(discussion: Row, withEmail = true): Row {
+    return { ...copy(discussion), author: store.author(discussion.authorId, withEmail) };
+  }
+
+  function withOperationCount(discussion: Row) {
+    return { ...copy(discussion), _count: { operations: operationsOf(discussion.id).length } };
+  }
+
+  function insert(data: Row) {
+    assertUnique(data.startingNumberExact);
+
+    const now = store.now();
+    const discussion = {
+      id: store.id(),
+      createdAt: now,
+      updatedAt: now,
+      lastActivityAt: now,
+      deletedAt: null,
+      lockedAt: null,
+      rules: {},
+      targetNumber: null,
+      targetNumberExact: null,
+      stepBudget: null,
+      ...data,
+    };
+    store.discussions.set(discussion.id, discussion);
+
+    return discussion;
+  }
+
+  function touch(discussion: Row, data: Row) {
+    Object.assign(discussion, data, { updatedAt: store.now() });
+    return discussion;
+  }
+
+  return {
+    async create(data) {
+      const discussion = insert({
+        ...startingNumberColumns(data.startingNumber),
+        authorId: data.authorId,
+        rules: copy(data.rules ?? {}),
+        ...(data.challenge
+          ? {
+              targetNumber: data.challenge.target.toNumber(),
+              targetNumberExact: data.challenge.target.toString(),
+              stepBudget: data.challenge.stepBudget,
+            }
+          : {}),
+      });
+
+      return withAuthor(discussion);
+    },
+
+    async findById(id) {
+      const discussion = store.discussions.get(id);
+      if (!discussion) return null;
+
+      const operations = operationsOf(id)
+        .sort(compareBy<Row>([(operation) => operation.createdAt, 'asc']))
+        .map((operation) => ({ ...copy(operation), author: store.author(operation.authorId) }));
+
+      return { ...withAuthor(discussion), operations };
+    },
+
+    async findByStartingNumber(startingNumber) {
+      for (const discussion of store.discussions.values()) {
+        if (discussion.startingNumberExact === startingNumber.toString()) {
+          return { ...withOperationCount(discussion), author: store.author(discussion.authorId, true) };
+        }
+      }
+      return null;
+    },
+
+    async findByAuthor(authorId) {
+      return [...store.discussions.values()]
+        .filter((discussion) => discussion.authorId === authorId && discussion.deletedAt === null)
+        .sort(compareBy<Row>([(discussion) => discussion.createdAt, 'desc']))
+        .map(withOperationCount);
+    },
+
+    async exists(id) {
+      const discussion = store.discussions.get(id);
+      return Boolean(discussion && discussion.deletedAt === null);
+    },
+
+    async findTreeRoot(id) {
+      const discussion = store.discussions.get(id);
+      if (!discussion || discussion.deletedAt !== null) return null;
+
+      return { id: discussion.id, startingNumber: discussion.startingNumber, startingNumberExact: discussion.startingNumberExact };
+    },
+
+    async findAll(options: DiscussionListOptions) {
+      const count = (discussion: Row) => operationsOf(discussion.id).length;
+      const keys: SortKey<Row>[] = {
+        newest: [[(discussion: Row) => discussion.createdAt, 'desc']] as SortKey<Row>[],
+        operations: [
+          [count, 'desc'],
+          [(discussion: Row) => discussion.createdAt, 'desc'],
+        ] as SortKey<Row>[],
+        active: [[(discussion: Row) => discussion.lastActivityAt, 'desc']] as SortKey<Row>[],
+      }[options.sort];
+      const compare = compareBy<Row>(...keys, [(discussion) => discussion.id, 'desc']);
+
+      let discussions = [...store.discussions.values()]
+        .filter((discussion) => {
+          const author = store.users.get(discussion.authorId);
+
+          return (
+            discussion.deletedAt === null &&
+            (options.author === undefined || author?.username === options.author) &&
+            (options.minStartingNumber === undefined || discussion.startingNumber >= options.minStartingNumber) &&
+            (options.maxStartingNumber === undefined || discussion.startingNumber <= options.maxStartingNumber) &&
+            (options.createdAfter === undefined || discussion.createdAt >= options.createdAfter) &&
+            (options.createdBefore === undefined || discussion.createdAt <= options.createdBefore)
+          );
+        })
+        .sort(compare);
+
+      const cursorId = options.cursor ? decodeListCursor(options.cursor) : null;
+      if (cursorId) discussions = afterCursor(discussions, store.discussions.get(cursorId), compare);
+
+      const hasMore = discussions.length > options.limit;
+      const items = discussions.slice(0, options.limit).map((discussion): Row => ({
+        ...withAuthor(discussion, false),
+        _count: { operations: count(discussion) },
+        preview: operationsOf(discussion.id)
+          .filter((operation) => operation.deletedAt === null && operation.hiddenAt === null)
+          .sort(compareBy<Row>([(operation) => operation.createdAt, 'desc']))
+          .slice(0, PREVIEW_SIZE)
+          .map((operation) => ({
+            id: operation.id,
+            parentId: operation.parentId,
+            operationType: operation.operationType,
+            operand: operation.operand,
+            operandExact: operation.operandExact,
+            result: operation.result,
+            resultExact: operation.resultExact,
+            createdAt: operation.createdAt,
+            author: store.author(operation.authorId),
+          })),
+      }));
+      const last = items[items.length - 1];
+
+      return {
+        items,
+        nextCursor: hasMore && last ? encodeListCursor(last.id) : null,
+      };
+    },
+
+    async update(id, data) {
+      const discussion = get(id);
+      if (data.startingNumber) assertUnique(data.startingNumber.toString(), id);
+
+      touch(discussion, {
+        ...(data.startingNumber ? startingNumberColumns(data.startingNumber) : {}),
+        ...(data.rules ? { rules: copy(data.rules) } : {}),
+      });
+
+      return withAuthor(discussion);
+    },
+
+    async updateStartingNumber(id, startingNumber, recompute, rules) {
+      const discussion = get(id);
+
+      // Nothing is written until the plan and the new number are known to be
+      // fine, which is what rolling back the transaction achieves in Prisma
+      const plan = recompute(
+        operationsOf(id).map((operation) => ({
+          id: operation.id,
+          parentId: operation.parentId,
+          operationType: operation.operationType,
+          operandExact: operation.operandExact,
+        }))
+      );
+      assertUnique(startingNumber.toString(), id);
+
+      touch(discussion, {
+        ...startingNumberColumns(startingNumber),
+        ...(rules ? { rules: copy(rules) } : {}),
+        lastActivityAt: store.now(),
+      });
+      applyPlan(store, plan);
+
+      return { discussion: withAuthor(discussion), plan };
+    },
+
+    async importTree(data) {
+      assertUnique(data.startingNumber.toString());
+
+      const discussion = insert({ ...startingNumberColumns(data.startingNumber), authorId: data.authorId });
+      const placed = new Map<string, { id: string; path: string; depth: number }>();
+
+      try {
+        for (const operation of data.operations) {
+          const parent = operation.parentKey === null ? null : placed.get(operation.parentKey);
+
+          if (parent === undefined) {
+            throw new Error(`Parent ${operation.parentKey} of imported operation ${operation.key} comes after it`);
+          }
+
+          const id = store.id();
+          const node = { id, path: parent ? `${parent.path}/${id}` : id, depth: parent ? parent.depth + 1 : 1 };
+          placed.set(operation.key, node);
+
+          const now = store.now();
+          store.operations.set(id, {
+            ...node,
+            discussionId: discussion.id,
+            parentId: parent ? parent.id : null,
+            authorId: data.authorId,
+            operationType: operation.operationType,
+            ...operandColumns(operation.operand),
+            ...resultColumns(operation.result),
+            invalidReason: null,
+            deletedAt: null,
+            editedAt: null,
+            hiddenAt: null,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+      } catch (error) {
+        store.deleteDiscussion(discussion.id);
+        throw error;
+      }
+
+      return { ...withAuthor(discussion), importedOperations: placed.size };
+    },
+
+    async setLocked(id, locked) {
+      return copy(touch(get(id), { lockedAt: locked ? store.now() : null }));
+    },
+
+    async reassign(id, authorId) {
+      return withAuthor(touch(get(id), { authorId }), false);
+    },
+
+    async delete(id) {
+      const discussion = copy(get(id));
+      store.deleteDiscussion(id);
+      return discussion;
+    },
+
+    async softDelete(id) {
+      return copy(touch(get(id), { deletedAt: store.now() }));
+    },
+
+    async restore(id) {
+      return withAuthor(touch(get(id), { deletedAt: null }));
+    },
+
+    async purgeDeleted(before) {
+      const expired = [...store.discussions.values()].filter(
+        (discussion) => discussion.deletedAt !== null && discussion.deletedAt < before
+      );
+
+      for (const discussion of expired) store.deleteDiscussion(discussion.id);
+      return expired.length;
+    },
+  };
+}
+
+export default makeMemoryDiscussionRepository;
@@ -0,0 +1,16 @@
+import type { IHealthRepository } from '../health-model';
+
+/**
+ * Process memory is always reachable and has no migrations
+ */
+export function makeMemoryHealthRepository(): IHealthRepository {
+  return {
+    async ping() {},
+
+    async migrationStatus() {
+      return { pending: [], failed: [] };
+    },
+  };
+}
+
+export default makeMemoryHealthRepository;
@@ -0,0 +1,58 @@
+import type { IIdempotencyRepository, IdempotencyRecord } from '../idempotency-model';
+import { copy, MemoryStore, recordNotFound, type Row } from './store';
+
+function toRecord(row: Row): IdempotencyRecord {
+  return copy({
+    requestHash: row.requestHash,
+    response: row.statusCode === null ? null : { statusCode: row.statusCode, body: row.responseBody },
+    expiresAt: row.expiresAt,
+  });
+}
+
+export function makeMemoryIdempotencyRepository(store: MemoryStore): IIdempotencyRepository {
+  return {
+    async claim(userId, key, requestHash, expiresAt) {
+      const id = `${userId}:${key}`;
+      const existing = store.idempotencyKeys.get(id);
+
+      if (existing && existing.expiresAt > new Date()) return toRecord(existing);
+      if (!store.users.has(userId)) throw recordNotFound('User');
+
+      store.idempotencyKeys.set(id, {
+        userId,
+        key,
+        requestHash,
+        statusCode: null,
+        responseBody: null,
+        createdAt: store.now(),
+        expiresAt,
+      });
+      return null;
+    },
+
+    async complete(userId, key, response) {
+      const row = store.idempotencyKeys.get(`${userId}:${key}`);
+      if (!row) throw recordNotFound('IdempotencyKey');
+
+      row.statusCode = response.statusCode;
+      row.responseBody = copy(response.body);
+    },
+
+    async release(userId, key) {
+      store.idempotencyKeys.delete(`${userId}:${key}`);
+    },
+
+    async purgeExpired(now) {
+      let count = 0;
+      for (const [id, row] of store.idempotencyKeys) {
+        if (row.expiresAt <= now) {
+          store.idempotencyKeys.delete(id);
+          count++;
+        }
+      }
+      return count;
+    },
+  };
+}
+
+export default makeMemoryIdempotencyRepository;
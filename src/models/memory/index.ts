@@ -0,0 +1,48 @@
+import type { Repositories } from '../repositories';
+import { MemoryStore } from './store';
+import { makeMemoryUserRepository } from './user-repository';
+import { makeMemorySessionRepository } from './session-repository';
+import { makeMemoryDiscussionRepository } from './discussion-repository';
+import { makeMemoryOperationRepository } from './operation-repository';
+import { makeMemoryNotificationRepository } from './notification-repository';
+import { makeMemoryAuditLogRepository } from './audit-log-repository';
+import { makeMemoryChallengeRepository } from './challenge-repository';
+import { makeMemoryVoteRepository } from './vote-repository';
+import { makeMemoryHealthRepository } from './health-repository';
+import { makeMemoryIdempotencyRepository } from './idempotency-repository';
+
+export { MemoryStore };
+export {
+  makeMemoryUserRepository,
+  makeMemorySessionRepository,
+  makeMemoryDiscussionRepository,
+  makeMemoryOperationRepository,
+  makeMemoryNotificationRepository,
+  makeMemoryAuditLogRepository,
+  makeMemoryChallengeRepository,
+  makeMemoryVoteRepository,
+  makeMemoryHealthRepository,
+  makeMemoryIdempotencyRepository,
+};
+
+/**
+ * A complete storage backend that keeps everything in process memory: no
+ * database, and nothing survives a restart. Meant for tests and local
+ * experiments; pass the result to createApp.
+ */
+export function createMemoryRepositories(store: MemoryStore = new MemoryStore()): Repositories {
+  return {
+    userRepository: makeMemoryUserRepository(store),
+    sessionRepository: makeMemorySessionRepository(store),
+    discussionRepository: makeMemoryDiscussionRepository(store),
+    operationRepository: makeMemoryOperationRepository(store),
+    notificationRepository: makeMemoryNotificationRepository(store),
+    auditLogRepository: makeMemoryAuditLogRepository(store),
+    challengeRepository: makeMemoryChallengeRepository(store),
+    voteRepository: makeMemoryVoteRepository(store),
+    healthRepository: makeMemoryHealthRepository(),
+    idempotencyRepository: makeMemoryIdempotencyRepository(store),
+  };
+}
+
+export default createMemoryRepositories;
@@ -0,0 +1,146 @@
+import {
+  decodeNotificationCursor,
+  encodeNotificationCursor,
+  type INotificationRepository,
+  type NotificationItem,
+} from '../notification-model';
+import { afterCursor, compareBy, copy, MemoryStore, recordNotFound, type Row } from './store';
+
+const newestFirst = compareBy<Row>([(row) => row.updatedAt, 'desc'], [(row) => row.id, 'desc']);
+
+export function makeMemoryNotificationRepository(store: MemoryStore): INotificationRepository {
+  function describe(notification: Row): NotificationItem {
+    const discussion = store.discussions.get(notification.discussionId)!;
+    const operation = notification.operationId === null ? undefined : store.operations.get(notification.operationId);
+    const lastActor = store.users.get(notification.lastActorId)!;
+
+    return {
+      id: notification.id,
+      userId: notification.userId,
+      discussionId: notification.discussionId,
+      operationId: notification.operationId,
+      actorIds: [...notification.actorIds],
+      replyCount: notification.replyCount,
+      lastActorId: notification.lastActorId,
+      lastReplyId: notification.lastReplyId,
+      readAt: notification.readAt,
+      createdAt: notification.createdAt,
+      updatedAt: notification.updatedAt,
+      lastActor: { id: lastActor.id, username: lastActor.username },
+      discussion: {
+        id: discussion.id,
+        startingNumber: discussion.startingNumber,
+        startingNumberExact: discussion.startingNumberExact,
+      },
+      operation: operation
+        ? {
+            id: operation.id,
+            operationType: operation.operationType,
+            operandExact: operation.operandExact,
+            resultExact: operation.resultExact,
+            deletedAt: operation.deletedAt,
+          }
+        : null,
+    };
+  }
+
+  const repository: INotificationRepository = {
+    async recordReply(data) {
+      const unread = [...store.notifications.values()].find(
+        (notification) =>
+          notification.userId === data.userId &&
+          notification.discussionId === data.discussionId &&
+          notification.operationId === data.operationId &&
+          notification.readAt === null
+      );
+
+      if (!unread) {
+        const now = store.now();
+        const notification = {
+          id: store.id(),
+          userId: data.userId,
+          discussionId: data.discussionId,
+          operationId: data.operationId,
+          actorIds: [data.actorId],
+          replyCount: 1,
+          lastActorId: data.actorId,
+          lastReplyId: data.replyId,
+          readAt: null,
+          createdAt: now,
+          updatedAt: now,
+        };
+        store.notifications.set(notification.id, notification);
+
+        return copy(notification);
+      }
+
+      Object.assign(unread, {
+        replyCount: unread.replyCount + 1,
+        actorIds: unread.actorIds.includes(data.actorId) ? unread.actorIds : [...unread.actorIds, data.actorId],
+        lastActorId: data.actorId,
+        lastReplyId: data.replyId,
+        updatedAt: store.now(),
+      });
+
+      return copy(unread);
+    },
+
+    async list(userId, options) {
+      let notifications = [...store.notifications.values()]
+        .filter((notification) => notification.userId === userId && (!options.unreadOnly || notification.readAt === null))
+        .sort(newestFirst);
+
+      const cursorId = options.cursor ? decodeNotificationCursor(options.cursor) : null;
+      if (cursorId) notifications = afterCursor(notifications, store.notifications.get(cursorId), newestFirst);
+
+      const hasMore = notifications.length > options.limit;
+      const items = notifications.slice(0, options.limit).map(describe);
+      const last = items[items.length - 1];
+
+      return {
+        items,
+        unreadCount: await repository.countUnread(userId),
+        nextCursor: hasMore && last ? encodeNotificationCursor(last.id) : null,
+      };
+    },
+
+    async countUnread(userId) {
+      return [...store.notifications.values()].filter(
+        (notification) => notification.userId === userId && notification.readAt === null
+      ).length;
+    },
+
+    async markRead(userId, ids) {
+      let marked = 0;
+
+      for (const notification of store.notifications.values()) {
+        if (notification.userId !== userId || notification.readAt !== null) continue;
+        if (ids && !ids.includes(notification.id)) continue;
+
+        notification.readAt = store.now();
+        marked++;
+      }
+
+      return marked;
+    },
+
+    async mute(userId, discussionId) {
+      if (!store.discussions.has(discussionId)) throw recordNotFound('Discussion');
+
+      const key = `${userId}:${discussionId}`;
+      if (!store.mutes.has(key)) store.mutes.set(key, { userId, discussionId, createdAt: store.now() });
+    },
+
+    async unmute(userId, discussionId) {
+      store.mutes.delete(`${userId}:${discussionId}`);
+    },
+
+    async isMuted(userId, discussionId) {
+      return store.mutes.has(`${userId}:${discussionId}`);
+    },
+  };
+
+  return repository;
+}
+
+export default makeMemoryNotificationRepository;
@@ -0,0 +1,282 @@
+import {
+  operandColumns,
+  resultColumns,
+  type IOperationRepository,
+  type RecomputePlan,
+} from '../operation-model';
+import { withFeedback } from '../vote-model';
+import { compareBy, copy, MemoryStore, recordNotFound, type Row } from './store';
+import { countFeedback } from './vote-repository';
+
+const byCreatedAt = compareBy<Row>([(row) => row.createdAt, 'asc']);
+
+/**
+ * Writes a recompute plan, like applyRecomputePlan does inside a transaction
+ */
+export function applyPlan(store: MemoryStore, plan: RecomputePlan): void {
+  for (const update of plan.updates) {
+    const operation = store.operations.get(update.id);
+    if (!operation) throw recordNotFound('Operation');
+
+    Object.assign(operation, resultColumns(update.result), { invalidReason: update.invalidReason, updatedAt: store.now() });
+  }
+
+  for (const failure of plan.failures) {
+    const operation = store.operations.get(failure.id);
+    if (!operation) throw recordNotFound('Operation');
+
+    Object.assign(operation, { invalidReason: failure.reason, updatedAt: store.now() });
+  }
+}
+
+export function makeMemoryOperationRepository(store: MemoryStore): IOperationRepository {
+  function get(id: string) {
+    const operation = store.operations.get(id);
+    if (!operation) throw recordNotFound('Operation');
+    return operation;
+  }
+
+  function where(predicate: (operation: Row) => boolean) {
+    return [...store.operations.values()].filter(predicate).sort(byCreatedAt);
+  }
+
+  function childrenOf(id: string) {
+    return where((operation) => operation.parentId === id);
+  }
+
+  function parentOf(operation: Row) {
+    const parent = operation.parentId === null ? undefined : store.operations.get(operation.parentId);
+    return parent ? copy(parent) : null;
+  }
+
+  function withAuthor(operation: Row, withEmail = true): Row {
+    return { ...copy(operation), author: store.author(operation.authorId, withEmail) };
+  }
+
+  function touchDiscussion(discussionId: string) {
+    const discussion = store.discussions.get(discussionId);
+    if (!discussion) throw recordNotFound('Discussion');
+
+    discussion.lastActivityAt = store.now();
+  }
+
+  function touch(operation: Row, data: Row) {
+    Object.assign(operation, data, { updatedAt: store.now() });
+    return operation;
+  }
+
+  return {
+    async create(data) {
+      const id = store.id();
+      let path = id;
+      let depth = 1;
+
+      if (data.parentId) {
+        const parent = store.operations.get(data.parentId);
+
+        if (!parent) {
+          throw new Error('Parent operation not found');
+        }
+
+        path = `${parent.path}/${id}`;
+        depth = parent.depth + 1;
+      }
+
+      touchDiscussion(data.discussionId);
+
+      const now = store.now();
+      const operation = {
+        id,
+        discussionId: data.discussionId,
+        parentId: data.parentId,
+        authorId: data.authorId,
+        operationType: data.operationType,
+        ...operandColumns(data.operand),
+        ...resultColumns(data.result),
+        depth,
+        path,
+        invalidReason: null,
+        deletedAt: null,
+        editedAt: null,
+        hiddenAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.operations.set(id, operation);
+
+      return { ...withAuthor(operation), parent: parentOf(operation) };
+    },
+
+    async findById(id) {
+      const operation = store.operations.get(id);
+      if (!operation) return null;
+
+      return {
+        ...withAuthor(operation),
+        parent: parentOf(operation),
+        children: childrenOf(id).map((child) => withAuthor(child, false)),
+        discussion: copy(store.discussions.get(operation.discussionId)),
+      };
+    },
+
+    async findByDiscussion(discussionId) {
+      const operations = where((operation) => operation.discussionId === discussionId).map((operation): Row => ({
+        ...withAuthor(operation, false),
+        parent: parentOf(operation),
+        children: childrenOf(operation.id).map(copy),
+      }));
+
+      return withFeedback(operations, countFeedback(store, operations.map((operation) => operation.id)));
+    },
+
+    async findByAuthor(authorId) {
+      return where(
+        (operation) =>
+          operation.authorId === authorId &&
+          operation.deletedAt === null &&
+          operation.hiddenAt === null &&
+          store.discussions.get(operation.discussionId)!.deletedAt === null
+      )
+        .reverse()
+        .map((operation) => {
+          const discussion = store.discussions.get(operation.discussionId)!;
+          return { ...copy(operation), discussion: { id: discussion.id, startingNumber: discussion.startingNumber } };
+        });
+    },
+
+    async findDuplicate(data) {
+      const operandExact = data.operand === null ? null : data.operand.toString();
+      const [duplicate] = where(
+        (operation) =>
+          operation.discussionId === data.discussionId &&
+          operation.parentId === data.parentId &&
+          operation.operationType === data.operationType &&
+          operation.operandExact === operandExact &&
+          operation.authorId === data.authorId &&
+          operation.deletedAt === null
+      );
+
+      return duplicate ? { id: duplicate.id, createdAt: duplicate.createdAt } : null;
+    },
+
+    async findChain(operationId) {
+      const target = store.operations.get(operationId);
+      if (!target) return null;
+
+      const discussion = store.discussions.get(target.discussionId)!;
+      const operations = target.path
+        .split('/')
+        .map((id: string) => store.operations.get(id))
+        .filter((operation: Row | undefined): operation is Row => operation !== undefined)
+        .sort(compareBy<Row>([(operation) => operation.depth, 'asc']))
+        .map((operation: Row) => withAuthor(operation, false));
+
+      return {
+        discussion: {
+          id: discussion.id,
+          startingNumber: discussion.startingNumber,
+          startingNumberExact: discussion.startingNumberExact,
+          deletedAt: discussion.deletedAt,
+        },
+        operations,
+      };
+    },
+
+    async findTreeNodes(discussionId, options) {
+      const operations = where(
+        (operation) =>
+          operation.discussionId === discussionId &&
+          operation.depth <= options.maxDepth &&
+          (!options.under || operation.path.startsWith(`${options.under.path}/`))
+      ).map((operation): Row => ({
+        ...withAuthor(operation, false),
+        _count: { children: childrenOf(operation.id).length },
+      }));
+
+      return withFeedback(operations, countFeedback(store, operations.map((operation) => operation.id)));
+    },
+
+    async edit(id, data, recompute) {
+      const current = store.operations.get(id);
+
+      if (!current) {
+        throw new Error('Operation not found');
+      }
+
+      const descendants = where((operation) => operation.path.startsWith(`${current.path}/`));
+
+      // Throwing from recompute leaves everything as it was
+      const plan = recompute([
+        {
+          id: current.id,
+          parentId: current.parentId,
+          operationType: data.operationType,
+          operandExact: data.operand === null ? null : data.operand.toString(),
+        },
+        ...descendants.map((operation) => ({
+          id: operation.id,
+          parentId: operation.parentId,
+          operationType: operation.operationType,
+          operandExact: operation.operandExact,
+        })),
+      ]);
+
+      const revision = {
+        id: store.id(),
+        operationId: id,
+        operationType: current.operationType,
+        operand: current.operand,
+        operandExact: current.operandExact,
+        result: current.result,
+        resultExact: current.resultExact,
+        resultApproximate: current.resultApproximate,
+        editedById: data.editedById,
+        createdAt: store.now(),
+      };
+      store.revisions.set(revision.id, revision);
+
+      touch(current, { operationType: data.operationType, ...operandColumns(data.operand), editedAt: store.now() });
+      applyPlan(store, plan);
+      touchDiscussion(current.discussionId);
+
+      return { operation: withAuthor(current), plan };
+    },
+
+    async findRevisions(operationId) {
+      return [...store.revisions.values()]
+        .filter((revision) => revision.operationId === operationId)
+        .sort(compareBy<Row>([(revision) => revision.createdAt, 'desc']))
+        .map(copy);
+    },
+
+    async softDelete(id) {
+      return copy(touch(get(id), { deletedAt: store.now() }));
+    },
+
+    async restore(id) {
+      return withAuthor(touch(get(id), { deletedAt: null }));
+    },
+
+    async setHidden(id, hidden) {
+      return copy(touch(get(id), { hiddenAt: hidden ? store.now() : null }));
+    },
+
+    async purgeDeleted(before) {
+      let total = 0;
+
+      for (;;) {
+        const leaves = where(
+          (operation) =>
+            operation.deletedAt !== null && operation.deletedAt < before && childrenOf(operation.id).length === 0
+        );
+
+        for (const leaf of leaves) store.deleteOperation(leaf.id);
+
+        total += leaves.length;
+        if (leaves.length === 0) return total;
+      }
+    },
+  };
+}
+
+export default makeMemoryOperationRepository;
@@ -0,0 +1,74 @@
+import type { ISessionRepository } from '../session-model';
+import { copy, MemoryStore, uniqueViolation } from './store';
+
+export function makeMemorySessionRepository(store: MemoryStore): ISessionRepository {
+  function addRefreshToken(sessionId: string, token: { tokenHash: string; expiresAt: Date }) {
+    for (const existing of store.refreshTokens.values()) {
+      if (existing.tokenHash === token.tokenHash) throw uniqueViolation('RefreshToken', 'tokenHash');
+    }
+
+    const row = { id: store.id(), sessionId, ...token, usedAt: null, createdAt: store.now() };
+    store.refreshTokens.set(row.id, row);
+  }
+
+  return {
+    async create(data) {
+      const session = { id: store.id(), userId: data.userId, createdAt: store.now(), revokedAt: null };
+
+      store.sessions.set(session.id, session);
+      addRefreshToken(session.id, data.refreshToken);
+
+      return copy(session);
+    },
+
+    async findById(id) {
+      const session = store.sessions.get(id);
+      if (!session) return null;
+
+      const user = store.users.get(session.userId)!;
+      return {
+        ...copy(session),
+        user: { role: user.role, bannedAt: user.bannedAt, suspendedUntil: user.suspendedUntil },
+      };
+    },
+
+    async findRefreshToken(tokenHash) {
+      for (const token of store.refreshTokens.values()) {
+        if (token.tokenHash === tokenHash) {
+          return { ...copy(token), session: copy(store.sessions.get(token.sessionId)) };
+        }
+      }
+      return null;
+    },
+
+    async rotateRefreshToken(tokenId, next) {
+      const token = store.refreshTokens.get(tokenId);
+      if (!token || token.usedAt) return false;
+
+      addRefreshToken(token.sessionId, next);
+      token.usedAt = store.now();
+
+      return true;
+    },
+
+    async revoke(sessionId) {
+      const session = store.sessions.get(sessionId);
+      if (session && !session.revokedAt) session.revokedAt = store.now();
+    },
+
+    async revokeAllForUser(userId) {
+      let revoked = 0;
+
+      for (const session of store.sessions.values()) {
+        if (session.userId === userId && !session.revokedAt) {
+          session.revokedAt = store.now();
+          revoked++;
+        }
+      }
+
+      return revoked;
+    },
+  };
+}
+
+export default makeMemorySessionRepository;
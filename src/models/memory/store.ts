@@ -0,0 +1,182 @@
+import { randomUUID } from 'crypto';
+
+export type Row = Record<string, any>;
+
+type SortValue = string | number | Date | null | undefined;
+
+export type SortKey<T> = [(row: T) => SortValue, 'asc' | 'desc'];
+
+/**
+ * Errors shaped like the ones Prisma throws, so the error handler treats both
+ * backends the same (P2002 becomes a 409)
+ */
+export function uniqueViolation(model: string, field: string) {
+  return Object.assign(new Error(`Unique constraint failed on ${model}.${field}`), {
+    code: 'P2002',
+    meta: { modelName: model, target: [field] },
+  });
+}
+
+export function recordNotFound(model: string) {
+  return Object.assign(new Error(`No ${model} record found`), {
+    code: 'P2025',
+    meta: { modelName: model },
+  });
+}
+
+/**
+ * Rows handed out are copies, like rows read from a database: changing them
+ * never changes what is stored
+ */
+export function copy<T>(row: T): T {
+  return structuredClone(row);
+}
+
+export function compareBy<T>(...keys: SortKey<T>[]) {
+  return (a: T, b: T): number => {
+    for (const [read, direction] of keys) {
+      const left = sortable(read(a));
+      const right = sortable(read(b));
+      if (left === right) continue;
+
+      // Nulls last, as PostgreSQL does for ascending order
+      const order = left === null ? 1 : right === null ? -1 : left < right ? -1 : 1;
+      return direction === 'asc' ? order : -order;
+    }
+    return 0;
+  };
+}
+
+function sortable(value: SortValue): string | number | null {
+  if (value === null || value === undefined) return null;
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Rows after `cursor` in `compare` order, the way Prisma's `cursor` + `skip: 1`
+ * pages. A cursor pointing at a record that no longer exists ends the list.
+ */
+export function afterCursor<T>(sorted: T[], cursor: T | undefined, compare: (a: T, b: T) => number): T[] {
+  if (!cursor) return [];
+  return sorted.filter((row) => compare(row, cursor) > 0);
+}
+
+/**
+ * Tables of the in-memory backend. Repositories created on the same store see
+ * each other's rows, so relations and cascading deletes work across them.
+ */
+export class MemoryStore {
+  users = new Map<string, Row>();
+  sessions = new Map<string, Row>();
+  refreshTokens = new Map<string, Row>();
+  discussions = new Map<string, Row>();
+  operations = new Map<string, Row>();
+  revisions = new Map<string, Row>();
+  notifications = new Map<string, Row>();
+  // Keyed by `userId:discussionId`
+  mutes = new Map<string, Row>();
+  auditLog = new Map<string, Row>();
+  // Keyed by `userId:operationId`
+  votes = new Map<string, Row>();
+  // Keyed by `userId:operationId:reaction`
+  reactions = new Map<string, Row>();
+  // Keyed by `userId:key`
+  idempotencyKeys = new Map<string, Row>();
+
+  private lastTimestamp = 0;
+
+  id(): string {
+    return randomUUID();
+  }
+
+  /**
+   * Strictly increasing, so rows created in a row never tie on createdAt
+   */
+  now(): Date {
+    this.lastTimestamp = Math.max(Date.now(), this.lastTimestamp + 1);
+    return new Date(this.lastTimestamp);
+  }
+
+  /**
+   * `{ id, username }` of a user, plus `email` when asked for
+   */
+  author(userId: string | null, withEmail = false): Row | null {
+    const user = userId === null ? undefined : this.users.get(userId);
+    if (!user) return null;
+
+    return withEmail ? { id: user.id, username: user.username, email: user.email } : { id: user.id, username: user.username };
+  }
+
+  // ==========================================================================
+  // Cascading deletes, following the onDelete rules of the Prisma schema
+  // ==========================================================================
+
+  deleteUser(id: string): void {
+    if (!this.users.delete(id)) return;
+
+    for (const session of [...this.sessions.values()]) {
+      if (session.userId === id) this.deleteSession(session.id);
+    }
+    for (const discussion of [...this.discussions.values()]) {
+      if (discussion.authorId === id) this.deleteDiscussion(discussion.id);
+    }
+    for (const operation of [...this.operations.values()]) {
+      if (operation.authorId === id) this.deleteOperation(operation.id);
+    }
+    for (const [key, notification] of this.notifications) {
+      if (notification.userId === id || notification.lastActorId === id) this.notifications.delete(key);
+    }
+    for (const [key, mute] of this.mutes) {
+      if (mute.userId === id) this.mutes.delete(key);
+    }
+    for (const table of [this.votes, this.reactions, this.idempotencyKeys]) {
+      for (const [key, row] of table) {
+        if (row.userId === id) table.delete(key);
+      }
+    }
+    for (const entry of this.auditLog.values()) {
+      if (entry.actorId === id) entry.actorId = null;
+    }
+  }
+
+  deleteSession(id: string): void {
+    this.sessions.delete(id);
+
+    for (const [key, token] of this.refreshTokens) {
+      if (token.sessionId === id) this.refreshTokens.delete(key);
+    }
+  }
+
+  deleteDiscussion(id: string): void {
+    if (!this.discussions.delete(id)) return;
+
+    for (const operation of [...this.operations.values()]) {
+      if (operation.discussionId === id) this.deleteOperation(operation.id);
+    }
+    for (const [key, notification] of this.notifications) {
+      if (notification.discussionId === id) this.notifications.delete(key);
+    }
+    for (const [key, mute] of this.mutes) {
+      if (mute.discussionId === id) this.mutes.delete(key);
+    }
+  }
+
+  deleteOperation(id: string): void {
+    if (!this.operations.delete(id)) return;
+
+    for (const child of [...this.operations.values()]) {
+      if (child.parentId === id) this.deleteOperation(child.id);
+    }
+    for (const [key, revision] of this.revisions) {
+      if (revision.operationId === id) this.revisions.delete(key);
+    }
+    for (const [key, notification] of this.notifications) {
+      if (notification.operationId === id) this.notifications.delete(key);
+    }
+    for (const table of [this.votes, this.reactions]) {
+      for (const [key, row] of table) {
+        if (row.operationId === id) table.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import type { IUserRepository, Role } from '../user-model';
+import { copy, MemoryStore, recordNotFound, uniqueViolation, type Row } from './store';
+
+export function makeMemoryUserRepository(store: MemoryStore): IUserRepository {
+  // Emails and usernames are unique, like the columns of the User table
+  function assertUnique(data: { email?: string | null; username?: string }, exceptId?: string) {
+    for (const user of store.users.values()) {
+      if (user.id === exceptId) continue;
+      if (data.email && user.email === data.email) throw uniqueViolation('User', 'email');
+      if (data.username !== undefined && user.username === data.username) throw uniqueViolation('User', 'username');
+    }
+  }
+
+  function findBy(predicate: (user: Row) => boolean) {
+    for (const user of store.users.values()) {
+      if (predicate(user)) return copy(user);
+    }
+    return null;
+  }
+
+  function liveRows(table: Map<string, Row>, userId: string) {
+    return [...table.values()].filter((row) => row.authorId === userId && row.deletedAt === null);
+  }
+
+  return {
+    async create(data) {
+      assertUnique(data);
+
+      const now = store.now();
+      const user = {
+        id: store.id(),
+        email: data.email ?? null,
+        username: data.username,
+        password: data.password ?? null,
+        role: data.role ?? ('User' as Role),
+        expiresAt: data.expiresAt ?? null,
+        suspendedUntil: null,
+        bannedAt: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      store.users.set(user.id, user);
+
+      return copy(user);
+    },
+
+    async findById(id) {
+      return findBy((user) => user.id === id);
+    },
+
+    async findByEmail(email) {
+      return findBy((user) => user.email === email);
+    },
+
+    async findByUsername(username) {
+      return findBy((user) => user.username === username);
+    },
+
+    async findProfile(username) {
+      const user = findBy((candidate) => candidate.username === username);
+      return user ? { id: user.id, username: user.username, role: user.role, createdAt: user.createdAt } : null;
+    },
+
+    async getStats(userId) {
+      const operations = liveRows(store.operations, userId).filter(
+        (operation) => operation.hiddenAt === null && store.discussions.get(operation.discussionId)!.deletedAt === null
+      );
+
+      const uses = new Map<string, number>();
+      for (const operation of operations) {
+        uses.set(operation.operationType, (uses.get(operation.operationType) ?? 0) + 1);
+      }
+      const [mostUsed] = [...uses].sort((a, b) => b[1] - a[1]);
+
+      return {
+        discussionsStarted: liveRows(store.discussions, userId).length,
+        operationsPosted: operations.length,
+        deepestChain: Math.max(0, ...operations.map((operation) => operation.depth)),
+        mostUsedOperator: mostUsed ? { operationType: mostUsed[0], count: mostUsed[1] } : null,
+      };
+    },
+
+    async update(id, data) {
+      const user = store.users.get(id);
+      if (!user) throw recordNotFound('User');
+
+      assertUnique(data, id);
+
+      for (const [key, value] of Object.entries(data)) {
+        if (value !== undefined) user[key] = value;
+      }
+      user.updatedAt = store.now();
+
+      return copy(user);
+    },
+
+    async deleteExpiredGuests(now) {
+      const expired = [...store.users.values()].filter(
+        (user) => user.role === 'Guest' && user.expiresAt !== null && user.expiresAt <= now
+      );
+
+      for (const user of expired) store.deleteUser(user.id);
+      return expired.length;
+    },
+  };
+}
+
+export default makeMemoryUserRepository;
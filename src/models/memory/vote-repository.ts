@@ -0,0 +1,94 @@
+import { tallyFeedback, VOTE_VALUES, isReaction, type IVoteRepository } from '../vote-model';
+import { compareBy, MemoryStore, recordNotFound, type Row } from './store';
+
+/**
+ * Vote and reaction counts of the given operations, like the grouped counts
+ * of the Prisma repository
+ */
+export function countFeedback(store: MemoryStore, operationIds: string[]) {
+  const ids = new Set(operationIds);
+  const votes = new Map<string, { operationId: string; value: number; count: number }>();
+  const reactions = new Map<string, { operationId: string; reaction: string; count: number }>();
+
+  for (const vote of store.votes.values()) {
+    if (!ids.has(vote.operationId)) continue;
+
+    const key = `${vote.operationId}:${vote.value}`;
+    const group = votes.get(key) ?? { operationId: vote.operationId, value: vote.value, count: 0 };
+    group.count++;
+    votes.set(key, group);
+  }
+
+  for (const row of store.reactions.values()) {
+    if (!ids.has(row.operationId)) continue;
+
+    const key = `${row.operationId}:${row.reaction}`;
+    const group = reactions.get(key) ?? { operationId: row.operationId, reaction: row.reaction, count: 0 };
+    group.count++;
+    reactions.set(key, group);
+  }
+
+  return tallyFeedback([...votes.values()], [...reactions.values()]);
+}
+
+export function makeMemoryVoteRepository(store: MemoryStore): IVoteRepository {
+  // Foreign keys: votes need an existing user and operation
+  function checkExists(operationId: string, userId: string) {
+    if (!store.operations.has(operationId)) throw recordNotFound('Operation');
+    if (!store.users.has(userId)) throw recordNotFound('User');
+  }
+
+  return {
+    async setVote(operationId, userId, direction) {
+      const key = `${userId}:${operationId}`;
+
+      if (direction === null) {
+        store.votes.delete(key);
+        return;
+      }
+
+      checkExists(operationId, userId);
+
+      const existing = store.votes.get(key);
+      const now = store.now();
+
+      store.votes.set(key, {
+        userId,
+        operationId,
+        value: VOTE_VALUES[direction],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+    },
+
+    async addReaction(operationId, userId, reaction) {
+      const key = `${userId}:${operationId}:${reaction}`;
+      if (store.reactions.has(key)) return;
+
+      checkExists(operationId, userId);
+      store.reactions.set(key, { userId, operationId, reaction, createdAt: store.now() });
+    },
+
+    async removeReaction(operationId, userId, reaction) {
+      store.reactions.delete(`${userId}:${operationId}:${reaction}`);
+    },
+
+    async countFor(operationIds) {
+      return countFeedback(store, operationIds);
+    },
+
+    async findByUser(operationId, userId) {
+      const vote = store.votes.get(`${userId}:${operationId}`);
+      const reactions = [...store.reactions.values()]
+        .filter((row) => row.operationId === operationId && row.userId === userId)
+        .sort(compareBy<Row>([(row) => row.createdAt, 'asc']));
+
+      return {
+        vote: vote ? (vote.value > 0 ? 'up' : 'down') : null,
+        reactions: reactions.map((row) => row.reaction).filter(isReaction),
+      };
+    },
+  };
+}
+
+export default makeMemoryVoteRepository;
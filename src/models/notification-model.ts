@@ -0,0 +1,214 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+export type NotificationListOptions = {
+  limit: number;
+  cursor?: string;
+  unreadOnly: boolean;
+};
+
+/**
+ * A notification as listed: with its last actor, the discussion and the
+ * replied-to operation (null for replies to the discussion itself), which is
+ * what describing it needs
+ */
+export type NotificationItem = {
+  id: string;
+  userId: string;
+  discussionId: string;
+  operationId: string | null;
+  actorIds: string[];
+  replyCount: number;
+  lastActorId: string;
+  lastReplyId: string;
+  readAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  lastActor: { id: string; username: string };
+  discussion: { id: string; startingNumber: number; startingNumberExact: string };
+  operation: {
+    id: string;
+    operationType: string;
+    operandExact: string | null;
+    resultExact: string;
+    deletedAt: Date | null;
+  } | null;
+};
+
+export type NotificationPage = {
+  items: NotificationItem[];
+  unreadCount: number;
+  nextCursor: string | null;
+};
+
+/**
+ * Cursors are opaque to clients: a base64url-encoded pointer to the last
+ * notification of the previous page
+ */
+export function encodeNotificationCursor(id: string): string {
+  return Buffer.from(JSON.stringify({ id })).toString('base64url');
+}
+
+export function decodeNotificationCursor(cursor: string): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.id === 'string' ? decoded.id : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// REPOSITORY LAYER - Reply notifications and discussion mutes
+// ============================================================================
+
+export interface INotificationRepository {
+  recordReply(data: {
+    userId: string;
+    discussionId: string;
+    operationId: string | null;
+    actorId: string;
+    replyId: string;
+  }): Promise<any>;
+  list(userId: string, options: NotificationListOptions): Promise<NotificationPage>;
+  countUnread(userId: string): Promise<number>;
+  markRead(userId: string, ids: string[] | null): Promise<number>;
+  mute(userId: string, discussionId: string): Promise<void>;
+  unmute(userId: string, discussionId: string): Promise<void>;
+  isMuted(userId: string, discussionId: string): Promise<boolean>;
+}
+
+export const NotificationRepository: INotificationRepository = {
+  /**
+   * Adds a reply to the user's unread notification for the same node, or
+   * starts a new one when there is none
+   */
+  async recordReply(data: {
+    userId: string;
+    discussionId: string;
+    operationId: string | null;
+    actorId: string;
+    replyId: string;
+  }) {
+    return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const unread = await tx.notification.findFirst({
+        where: {
+          userId: data.userId,
+          discussionId: data.discussionId,
+          operationId: data.operationId,
+          readAt: null,
+        },
+      });
+
+      if (!unread) {
+        return await tx.notification.create({
+          data: {
+            userId: data.userId,
+            discussionId: data.discussionId,
+            operationId: data.operationId,
+            actorIds: [data.actorId],
+            lastActorId: data.actorId,
+            lastReplyId: data.replyId,
+          },
+        });
+      }
+
+      return await tx.notification.update({
+        where: { id: unread.id },
+        data: {
+          replyCount: { increment: 1 },
+          actorIds: unread.actorIds.includes(data.actorId) ? unread.actorIds : [...unread.actorIds, data.actorId],
+          lastActorId: data.actorId,
+          lastReplyId: data.replyId,
+        },
+      });
+    });
+  },
+
+  /**
+   * Most recently updated first, with the replied-to node and discussion so
+   * the notification can be described
+   */
+  async list(userId: string, options: NotificationListOptions) {
+    const cursorId = options.cursor ? decodeNotificationCursor(options.cursor) : null;
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId,
+          ...(options.unreadOnly ? { readAt: null } : {}),
+        },
+        include: {
+          lastActor: {
+            select: { id: true, username: true },
+          },
+          discussion: {
+            select: { id: true, startingNumber: true, startingNumberExact: true },
+          },
+          operation: {
+            select: { id: true, operationType: true, operandExact: true, resultExact: true, deletedAt: true },
+          },
+        },
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        take: options.limit + 1,
+        ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
+      }),
+      NotificationRepository.countUnread(userId),
+    ]);
+
+    const hasMore = notifications.length > options.limit;
+    const items = notifications.slice(0, options.limit);
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      unreadCount,
+      nextCursor: hasMore && last ? encodeNotificationCursor(last.id) : null,
+    };
+  },
+
+  async countUnread(userId: string) {
+    return await prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  },
+
+  /**
+   * Marks the given notifications (or all of them, for null) as read
+   * @returns Number of notifications that were unread
+   */
+  async markRead(userId: string, ids: string[] | null) {
+    const updated = await prisma.notification.updateMany({
+      where: {
+        userId,
+        readAt: null,
+        ...(ids ? { id: { in: ids } } : {}),
+      },
+      data: { readAt: new Date() },
+    });
+    return updated.count;
+  },
+
+  async mute(userId: string, discussionId: string) {
+    await prisma.discussionMute.upsert({
+      where: { userId_discussionId: { userId, discussionId } },
+      create: { userId, discussionId },
+      update: {},
+    });
+  },
+
+  async unmute(userId: string, discussionId: string) {
+    await prisma.discussionMute.deleteMany({
+      where: { userId, discussionId },
+    });
+  },
+
+  async isMuted(userId: string, discussionId: string) {
+    const mute = await prisma.discussionMute.findUnique({
+      where: { userId_discussionId: { userId, discussionId } },
+    });
+    return Boolean(mute);
+  },
+};
+
+export default NotificationRepository;
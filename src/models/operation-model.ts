@@ -1,6 +1,96 @@
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
 import prisma from '../lib/prisma';
+import Rational, { MAX_EXACT_BITS } from '../lib/rational';
+import { AppError, InvalidOperandError } from '../lib/errors';
+import { getConfig } from '../lib/config';
+import { getOperator, isOperationType, OperationType } from './operator-registry';
+import { VoteRepository, withFeedback } from './vote-model';
 
-export type OperationType = 'ADD' | 'SUBTRACT' | 'MULTIPLY' | 'DIVIDE';
+export type { OperationType };
+
+/**
+ * Exact result of a stored operation
+ */
+export function readResult(operation: { resultExact: string; resultApproximate?: boolean }): Rational {
+  return Rational.parse(operation.resultExact, !operation.resultApproximate);
+}
+
+/**
+ * Deleted discussions and operations can be restored by their author until
+ * the grace period is over; after that the purge job removes them.
+ */
+export function restoreDeadline(deletedAt: Date, graceDays: number = getConfig().restoreGraceDays): Date {
+  return new Date(new Date(deletedAt).getTime() + graceDays * 24 * 60 * 60 * 1000);
+}
+
+type Redactable = { deletedAt?: Date | null; hiddenAt?: Date | null };
+
+/**
+ * Tombstoned operations keep their place in the tree and their result (so the
+ * results below them still make sense), but not what was posted or by whom.
+ * Operations hidden by a moderator are redacted the same way.
+ */
+export function redactDeleted<T extends Redactable>(operation: T): T {
+  if (!operation?.deletedAt && !operation?.hiddenAt) return operation;
+
+  return {
+    ...operation,
+    operationType: null,
+    operand: null,
+    operandExact: null,
+    authorId: null,
+    author: null,
+    ...(operation.deletedAt ? { deleted: true } : { hidden: true }),
+  };
+}
+
+/**
+ * redactDeleted for an operation and the parent and children loaded with it
+ */
+export function redactWithRelatives<T extends Redactable & { parent?: Redactable | null; children?: Redactable[] }>(
+  operation: T
+): T {
+  return {
+    ...redactDeleted(operation),
+    ...(operation.parent ? { parent: redactDeleted(operation.parent) } : {}),
+    ...(operation.children ? { children: operation.children.map(redactDeleted) } : {}),
+  };
+}
+
+export function operandColumns(operand: Rational | null) {
+  return {
+    operand: operand === null ? null : operand.toNumber(),
+    operandExact: operand === null ? null : operand.toString(),
+  };
+}
+
+export function resultColumns(result: Rational) {
+  return {
+    result: result.toNumber(),
+    resultExact: result.toString(),
+    resultApproximate: !result.exact,
+  };
+}
+
+/**
+ * Writes a recompute plan inside an interactive transaction
+ */
+export async function applyRecomputePlan(tx: any, plan: RecomputePlan): Promise<void> {
+  for (const update of plan.updates) {
+    await tx.operation.update({
+      where: { id: update.id },
+      data: { ...resultColumns(update.result), invalidReason: update.invalidReason },
+    });
+  }
+
+  for (const failure of plan.failures) {
+    await tx.operation.update({
+      where: { id: failure.id },
+      data: { invalidReason: failure.reason },
+    });
+  }
+}
 
 // ============================================================================
 // REPOSITORY LAYER - Basic CRUD operations for controllers
@@ -11,12 +101,32 @@ export interface IOperationRepository {
     discussionId: string;
     parentId: string | null;
     operationType: string;
-    operand: number;
-    result: number;
+    operand: Rational | null;
+    result: Rational;
     authorId: string;
   }): Promise<any>;
   findById(id: string): Promise<any>;
   findByDiscussion(discussionId: string): Promise<any[]>;
+  findByAuthor(authorId: string): Promise<any[]>;
+  findDuplicate(data: {
+    discussionId: string;
+    parentId: string | null;
+    operationType: string;
+    operand: Rational | null;
+    authorId: string;
+  }): Promise<any | null>;
+  findChain(operationId: string): Promise<{ discussion: any; operations: any[] } | null>;
+  findTreeNodes(discussionId: string, options: { under?: { path: string } | null; maxDepth: number }): Promise<any[]>;
+  edit(
+    id: string,
+    data: { operationType: string; operand: Rational | null; editedById: string },
+    recompute: (operations: any[]) => RecomputePlan
+  ): Promise<{ operation: any; plan: RecomputePlan }>;
+  findRevisions(operationId: string): Promise<any[]>;
+  softDelete(id: string): Promise<any>;
+  restore(id: string): Promise<any>;
+  setHidden(id: string, hidden: boolean, tx?: Prisma.TransactionClient): Promise<any>;
+  purgeDeleted(before: Date): Promise<number>;
 }
 
 export const OperationRepository: IOperationRepository = {
@@ -24,19 +134,55 @@ export const OperationRepository: IOperationRepository = {
     discussionId: string;
     parentId: string | null;
     operationType: string;
-    operand: number;
-    result: number;
+    operand: Rational | null;
+    result: Rational;
     authorId: string;
   }) {
-    return await prisma.operation.create({
-      data,
-      include: {
-        author: {
-          select: { id: true, username: true, email: true },
+    const id = randomUUID();
+    let path = id;
+    let depth = 1;
+
+    if (data.parentId) {
+      const parent = await prisma.operation.findUnique({
+        where: { id: data.parentId },
+        select: { path: true, depth: true },
+      });
+
+      if (!parent) {
+        throw new Error('Parent operation not found');
+      }
+
+      path = `${parent.path}/${id}`;
+      depth = parent.depth + 1;
+    }
+
+    const [operation] = await prisma.$transaction([
+      prisma.operation.create({
+        data: {
+          id,
+          discussionId: data.discussionId,
+          parentId: data.parentId,
+          operationType: data.operationType,
+          ...operandColumns(data.operand),
+          ...resultColumns(data.result),
+          authorId: data.authorId,
+          path,
+          depth,
         },
-        parent: true,
-      },
-    });
+        include: {
+          author: {
+            select: { id: true, username: true, email: true },
+          },
+          parent: true,
+        },
+      }),
+      prisma.discussion.update({
+        where: { id: data.discussionId },
+        data: { lastActivityAt: new Date() },
+      }),
+    ]);
+
+    return operation;
   },
 
   async findById(id: string) {
@@ -59,8 +205,11 @@ export const OperationRepository: IOperationRepository = {
     });
   },
 
+  /**
+   * Every operation of the discussion, oldest first, with vote and reaction counts
+   */
   async findByDiscussion(discussionId: string) {
-    return await prisma.operation.findMany({
+    const operations = await prisma.operation.findMany({
       where: { discussionId },
       include: {
         author: {
@@ -71,6 +220,244 @@ export const OperationRepository: IOperationRepository = {
       },
       orderBy: { createdAt: 'asc' },
     });
+
+    return withFeedback(operations, await VoteRepository.countFor(operations.map((operation: any) => operation.id)));
+  },
+
+  async findByAuthor(authorId: string) {
+    return await prisma.operation.findMany({
+      where: { authorId, deletedAt: null, hiddenAt: null, discussion: { deletedAt: null } },
+      include: {
+        discussion: {
+          select: { id: true, startingNumber: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  /**
+   * The author's live operation with the same parent, operator and operand,
+   * if there is one. Deleted operations do not count, so a deleted reply can
+   * be posted again.
+   */
+  async findDuplicate(data: {
+    discussionId: string;
+    parentId: string | null;
+    operationType: string;
+    operand: Rational | null;
+    authorId: string;
+  }) {
+    return await prisma.operation.findFirst({
+      where: {
+        discussionId: data.discussionId,
+        parentId: data.parentId,
+        operationType: data.operationType,
+        operandExact: data.operand === null ? null : data.operand.toString(),
+        authorId: data.authorId,
+        deletedAt: null,
+      },
+      select: { id: true, createdAt: true },
+    });
+  },
+
+  /**
+   * Path from the root to this operation, with the discussion's starting
+   * number and deletedAt. Fetched in one round trip: the stored `path` of the operation
+   * lists all of its ancestors. Returns null when the operation does not exist.
+   */
+  async findChain(operationId: string) {
+    const rows: any[] = await prisma.$queryRaw`
+      SELECT o.*, u."username" AS "authorUsername",
+             d."startingNumber" AS "discussionStartingNumber",
+             d."startingNumberExact" AS "discussionStartingNumberExact",
+             d."deletedAt" AS "discussionDeletedAt"
+      FROM "Operation" o
+      JOIN "User" u ON u."id" = o."authorId"
+      JOIN "Discussion" d ON d."id" = o."discussionId"
+      WHERE o."id" = ANY (
+        string_to_array((SELECT "path" FROM "Operation" WHERE "id" = ${operationId}), '/')
+      )
+      ORDER BY o."depth" ASC
+    `;
+
+    const [first] = rows;
+    if (!first) return null;
+
+    return {
+      discussion: {
+        id: first.discussionId,
+        startingNumber: first.discussionStartingNumber,
+        startingNumberExact: first.discussionStartingNumberExact,
+        deletedAt: first.discussionDeletedAt,
+      },
+      operations: rows.map(
+        ({ authorUsername, discussionStartingNumber, discussionStartingNumberExact, discussionDeletedAt, ...operation }) => ({
+          ...operation,
+          author: { id: operation.authorId, username: authorUsername },
+        })
+      ),
+    };
+  },
+
+  /**
+   * Flat list of the operations needed to render (part of) a discussion tree.
+   * `under` restricts the result to the descendants of one operation and
+   * `maxDepth` is absolute, so lazy-loaded subtrees keep their real depth.
+   * Nodes carry their vote and reaction counts.
+   */
+  async findTreeNodes(discussionId: string, options: { under?: { path: string } | null; maxDepth: number }) {
+    const operations = await prisma.operation.findMany({
+      where: {
+        discussionId,
+        depth: { lte: options.maxDepth },
+        ...(options.under ? { path: { startsWith: `${options.under.path}/` } } : {}),
+      },
+      include: {
+        author: {
+          select: { id: true, username: true },
+        },
+        _count: {
+          select: { children: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return withFeedback(operations, await VoteRepository.countFor(operations.map((operation: any) => operation.id)));
+  },
+
+  /**
+   * Replaces the operator and operand of an operation, keeping the previous
+   * version as a revision, and applies the recomputed results of the operation
+   * and its descendants in one transaction. `recompute` gets the edited
+   * operation (already carrying the new values) plus its subtree; throwing
+   * from it rolls back.
+   */
+  async edit(
+    id: string,
+    data: { operationType: string; operand: Rational | null; editedById: string },
+    recompute: (operations: any[]) => RecomputePlan
+  ) {
+    return await prisma.$transaction(async (tx: any) => {
+      const current = await tx.operation.findUnique({ where: { id } });
+
+      if (!current) {
+        throw new Error('Operation not found');
+      }
+
+      const descendants = await tx.operation.findMany({
+        where: { path: { startsWith: `${current.path}/` } },
+        select: { id: true, parentId: true, operationType: true, operandExact: true },
+      });
+
+      const plan = recompute([
+        {
+          id: current.id,
+          parentId: current.parentId,
+          operationType: data.operationType,
+          operandExact: data.operand === null ? null : data.operand.toString(),
+        },
+        ...descendants,
+      ]);
+
+      await tx.operationRevision.create({
+        data: {
+          operationId: id,
+          operationType: current.operationType,
+          operand: current.operand,
+          operandExact: current.operandExact,
+          result: current.result,
+          resultExact: current.resultExact,
+          resultApproximate: current.resultApproximate,
+          editedById: data.editedById,
+        },
+      });
+
+      await tx.operation.update({
+        where: { id },
+        data: {
+          operationType: data.operationType,
+          ...operandColumns(data.operand),
+          editedAt: new Date(),
+        },
+      });
+
+      await applyRecomputePlan(tx, plan);
+
+      await tx.discussion.update({
+        where: { id: current.discussionId },
+        data: { lastActivityAt: new Date() },
+      });
+
+      const operation = await tx.operation.findUnique({
+        where: { id },
+        include: {
+          author: {
+            select: { id: true, username: true, email: true },
+          },
+        },
+      });
+
+      return { operation, plan };
+    });
+  },
+
+  /**
+   * Previous versions of an operation, most recently replaced first
+   */
+  async findRevisions(operationId: string) {
+    return await prisma.operationRevision.findMany({
+      where: { operationId },
+      orderBy: { createdAt: 'desc' },
+    });
+  },
+
+  async softDelete(id: string) {
+    return await prisma.operation.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+  },
+
+  async restore(id: string) {
+    return await prisma.operation.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: {
+        author: {
+          select: { id: true, username: true, email: true },
+        },
+      },
+    });
+  },
+
+  async setHidden(id: string, hidden: boolean, tx: Prisma.TransactionClient = prisma) {
+    return await tx.operation.update({
+      where: { id },
+      data: { hiddenAt: hidden ? new Date() : null },
+    });
+  },
+
+  /**
+   * Hard-deletes tombstones deleted before `before`. Only leaves can go
+   * (a hard delete cascades), so this repeats until no purgeable leaf is left;
+   * tombstones that still have live replies below them are kept.
+   */
+  async purgeDeleted(before: Date) {
+    let total = 0;
+
+    for (;;) {
+      const purged = await prisma.operation.deleteMany({
+        where: {
+          deletedAt: { lt: before },
+          children: { none: {} },
+        },
+      });
+
+      total += purged.count;
+      if (purged.count === 0) return total;
+    }
   },
 };
 
@@ -81,31 +468,142 @@ export const OperationRepository: IOperationRepository = {
 /**
  * Compute Result
  * 
- * Calculates the result of a mathematical operation.
+ * Calculates the exact result of a mathematical operation using the operator registry.
  * Used by controllers to compute operation results before saving.
  * 
  * @param previousValue - The starting value or result from parent operation
- * @param operation - The mathematical operation type (ADD, SUBTRACT, MULTIPLY, DIVIDE)
- * @param operand - The number to operate with
+ * @param operation - A registered operation type (ADD, DIVIDE, NEGATE, ...)
+ * @param operand - The number to operate with, null for unary operations
  * @returns The computed result
- * @throws Error if operation type is invalid or division by zero
+ * @throws InvalidOperandError if operation type is invalid, the operand is missing or the inputs are outside the operator's domain
  */
-export function computeResult(previousValue: number, operation: OperationType, operand: number): number {
-  switch (operation) {
-    case 'ADD':
-      return previousValue + operand;
-    case 'SUBTRACT':
-      return previousValue - operand;
-    case 'MULTIPLY':
-      return previousValue * operand;
-    case 'DIVIDE':
-      if (operand === 0) {
-        throw new Error('Division by zero is not allowed');
-      }
-      return previousValue / operand;
-    default:
-      throw new Error(`Invalid operation type: ${operation}`);
+export function computeResult(previousValue: Rational, operation: OperationType, operand: Rational | null): Rational {
+  const operator = getOperator(operation);
+
+  if (!operator) {
+    throw new InvalidOperandError(`Invalid operation type: ${operation}`);
+  }
+
+  let problem: string | null;
+
+  if (operator.arity === 1) {
+    problem = operator.check?.(previousValue) ?? null;
+  } else if (operand === null) {
+    problem = `${operator.name} requires an operand`;
+  } else {
+    problem = operator.check?.(previousValue, operand) ?? null;
+  }
+
+  if (problem) throw new InvalidOperandError(problem);
+
+  let result: Rational;
+
+  try {
+    result = operator.arity === 1 ? operator.evaluate(previousValue) : operator.evaluate(previousValue, operand!);
+  } catch (error: any) {
+    throw new InvalidOperandError(error.message);
+  }
+
+  // Results are also stored as a float for sorting and display
+  const value = result.toNumber();
+  if (!Number.isFinite(value)) {
+    throw new InvalidOperandError('Result is too large to store');
+  }
+
+  // Keeping a huge numerator or denominator would slow down every reply
+  if (result.bitLength() > MAX_EXACT_BITS) {
+    return Rational.approximate(value);
+  }
+
+  return result;
+}
+
+export type RecomputeFailure = {
+  id: string;
+  operationType: string;
+  operand: string | null;
+  input: string | null;
+  reason: string;
+};
+
+export type RecomputePlan = {
+  updates: { id: string; result: Rational; invalidReason: string | null }[];
+  failures: RecomputeFailure[];
+};
+
+/**
+ * Thrown from inside a recompute to roll the whole transaction back.
+ * Reaches the client as a 422 listing the operations that would break.
+ */
+export class InvalidTreeError extends AppError {
+  constructor(
+    public failures: RecomputeFailure[],
+    message: string = 'Recomputing the operation tree would produce invalid results'
+  ) {
+    super(422, 'INVALID_TREE', message, failures);
+  }
+}
+
+/**
+ * Recompute Tree
+ *
+ * Walks the operations below `rootParentId` (null for the discussion itself)
+ * and recomputes every result from `rootValue` with computeResult.
+ * Operations whose result can no longer be computed are reported as failures,
+ * and everything below them is reported too since its input is unknown.
+ *
+ * @param operations - Operations of the discussion (at least the affected subtree)
+ * @param rootParentId - Parent whose children get `rootValue` as their input
+ * @param rootValue - New input for the top of the subtree
+ * @returns Updated results and invalid reasons for every visited operation
+ */
+export function recomputeTree(
+  operations: { id: string; parentId: string | null; operationType: string; operandExact: string | null }[],
+  rootParentId: string | null,
+  rootValue: Rational
+): RecomputePlan {
+  const byParent = new Map<string | null, typeof operations>();
+  for (const operation of operations) {
+    const siblings = byParent.get(operation.parentId) ?? [];
+    siblings.push(operation);
+    byParent.set(operation.parentId, siblings);
   }
+
+  const plan: RecomputePlan = { updates: [], failures: [] };
+
+  const visit = (parentId: string | null, input: Rational | null, inheritedReason: string | null) => {
+    for (const operation of byParent.get(parentId) ?? []) {
+      let result: Rational | null = null;
+      let reason = inheritedReason;
+
+      if (input !== null) {
+        try {
+          const operand = operation.operandExact === null ? null : Rational.parse(operation.operandExact);
+          result = computeResult(input, operation.operationType, operand);
+        } catch (error: any) {
+          result = null;
+          reason = error.message;
+        }
+      }
+
+      if (result === null) {
+        plan.failures.push({
+          id: operation.id,
+          operationType: operation.operationType,
+          operand: operation.operandExact,
+          input: input === null ? null : input.toString(),
+          reason: reason ?? 'Result could not be computed',
+        });
+        visit(operation.id, null, `Depends on invalid operation ${operation.id}`);
+      } else {
+        plan.updates.push({ id: operation.id, result, invalidReason: null });
+        visit(operation.id, result, null);
+      }
+    }
+  };
+
+  visit(rootParentId, rootValue, null);
+  return plan;
 }
 
 // ============================================================================
@@ -116,33 +614,19 @@ export function computeResult(previousValue: number, operation: OperationType, o
 export const OperationModel = {
   computeResult,
   isValidOperationType(type: string): type is OperationType {
-    return ['ADD', 'SUBTRACT', 'MULTIPLY', 'DIVIDE'].includes(type);
+    return isOperationType(type);
   },
 
   async create(data: {
     discussionId: string;
     parentId: string | null;
     operationType: OperationType;
-    operand: number;
-    result: number;
+    operand: Rational | null;
+    result: Rational;
     authorId: string;
   }) {
-    return await prisma.operation.create({
-      data: {
-        discussionId: data.discussionId,
-        parentId: data.parentId,
-        operationType: data.operationType,
-        operand: data.operand,
-        result: data.result,
-        authorId: data.authorId,
-      },
-      include: {
-        author: {
-          select: { id: true, username: true, email: true },
-        },
-        parent: true,
-      },
-    });
+    // Goes through the repository so path and depth are always filled in
+    return await OperationRepository.create(data);
   },
 
   async findById(id: string) {
@@ -166,29 +650,11 @@ export const OperationModel = {
   },
 
   async findByDiscussion(discussionId: string) {
-    return await prisma.operation.findMany({
-      where: { discussionId },
-      include: {
-        author: {
-          select: { id: true, username: true },
-        },
-        parent: true,
-        children: true,
-      },
-      orderBy: { createdAt: 'asc' },
-    });
+    return await OperationRepository.findByDiscussion(discussionId);
   },
 
   async findByAuthor(authorId: string) {
-    return await prisma.operation.findMany({
-      where: { authorId },
-      include: {
-        discussion: {
-          select: { id: true, startingNumber: true },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    return await OperationRepository.findByAuthor(authorId);
   },
 
   async getChildren(operationId: string) {
@@ -222,32 +688,8 @@ export const OperationModel = {
   /**
    * Get operation chain (path from root to this operation)
    */
-  async getOperationChain(operationId: string): Promise<any[]> {
-    const chain: any[] = [];
-    let currentOperation = await prisma.operation.findUnique({
-      where: { id: operationId },
-      include: {
-        author: {
-          select: { id: true, username: true },
-        },
-      },
-    });
-
-    while (currentOperation) {
-      chain.unshift(currentOperation);
-      if (!currentOperation.parentId) break;
-      
-      currentOperation = await prisma.operation.findUnique({
-        where: { id: currentOperation.parentId },
-        include: {
-          author: {
-            select: { id: true, username: true },
-          },
-        },
-      });
-    }
-
-    return chain;
+  async getOperationChain(operationId: string): Promise<{ discussion: any; operations: any[] } | null> {
+    return await OperationRepository.findChain(operationId);
   },
 
   /**
@@ -265,11 +707,11 @@ export const OperationModel = {
   /**
    * Get the previous value for a new operation
    */
-  async getPreviousValue(discussionId: string, parentId: string | null): Promise<number> {
+  async getPreviousValue(discussionId: string, parentId: string | null): Promise<Rational> {
     if (parentId) {
       const parentOperation = await prisma.operation.findUnique({
         where: { id: parentId },
-        select: { result: true, discussionId: true },
+        select: { resultExact: true, resultApproximate: true, discussionId: true },
       });
 
       if (!parentOperation) {
@@ -280,18 +722,18 @@ export const OperationModel = {
         throw new Error('Parent operation does not belong to this discussion');
       }
 
-      return parentOperation.result;
+      return readResult(parentOperation);
     } else {
       const discussion = await prisma.discussion.findUnique({
         where: { id: discussionId },
-        select: { startingNumber: true },
+        select: { startingNumberExact: true },
       });
 
       if (!discussion) {
         throw new Error('Discussion not found');
       }
 
-      return discussion.startingNumber;
+      return Rational.parse(discussion.startingNumberExact);
     }
   },
 
@@ -0,0 +1,255 @@
+import Rational from '../lib/rational';
+
+// ============================================================================
+// OPERATOR REGISTRY - Single source of truth for the supported operations
+// ============================================================================
+
+/**
+ * Name of a registered operator, e.g. "ADD" or "NEGATE"
+ */
+export type OperationType = string;
+
+type OperatorBase = {
+  name: OperationType;
+  symbol: string;
+  label: string;
+  description: string;
+};
+
+/**
+ * Unary operators apply to the previous value alone and take no operand
+ */
+export type UnaryOperator = OperatorBase & {
+  arity: 1;
+  check?(input: Rational): string | null;
+  evaluate(input: Rational): Rational;
+};
+
+/**
+ * Binary operators combine the previous value with the user's operand
+ */
+export type BinaryOperator = OperatorBase & {
+  arity: 2;
+  check?(input: Rational, operand: Rational): string | null;
+  evaluate(input: Rational, operand: Rational): Rational;
+};
+
+/**
+ * `check` returns a message describing why the inputs are outside the
+ * operator's domain, or null when `evaluate` can safely run.
+ * `evaluate` should stay exact where it can and fall back to
+ * `Rational.approximate` for irrational results.
+ */
+export type OperatorDefinition = UnaryOperator | BinaryOperator;
+
+const registry = new Map<OperationType, OperatorDefinition>();
+
+export function registerOperator(operator: OperatorDefinition): void {
+  if (registry.has(operator.name)) {
+    throw new Error(`Operator already registered: ${operator.name}`);
+  }
+  registry.set(operator.name, operator);
+}
+
+export function getOperator(name: string): OperatorDefinition | undefined {
+  return registry.get(name);
+}
+
+export function isOperationType(name: string): name is OperationType {
+  return registry.has(name);
+}
+
+export function listOperators(): OperatorDefinition[] {
+  return [...registry.values()];
+}
+
+// ============================================================================
+// BUILT-IN OPERATORS
+// ============================================================================
+
+// Integer exponents above this are not expanded exactly
+const MAX_EXACT_EXPONENT = 1024n;
+
+function isSmallInteger(value: Rational): boolean {
+  return value.isInteger() && value.abs().numerator <= MAX_EXACT_EXPONENT;
+}
+
+registerOperator({
+  name: 'ADD',
+  symbol: '+',
+  label: 'Add',
+  description: 'Adds the operand to the previous value',
+  arity: 2,
+  evaluate: (input, operand) => input.add(operand),
+});
+
+registerOperator({
+  name: 'SUBTRACT',
+  symbol: '−',
+  label: 'Subtract',
+  description: 'Subtracts the operand from the previous value',
+  arity: 2,
+  evaluate: (input, operand) => input.sub(operand),
+});
+
+registerOperator({
+  name: 'MULTIPLY',
+  symbol: '×',
+  label: 'Multiply',
+  description: 'Multiplies the previous value by the operand',
+  arity: 2,
+  evaluate: (input, operand) => input.mul(operand),
+});
+
+registerOperator({
+  name: 'DIVIDE',
+  symbol: '÷',
+  label: 'Divide',
+  description: 'Divides the previous value by the operand',
+  arity: 2,
+  check: (_input, operand) => (operand.isZero() ? 'Division by zero is not allowed' : null),
+  evaluate: (input, operand) => input.div(operand),
+});
+
+registerOperator({
+  name: 'POWER',
+  symbol: '^',
+  label: 'Power',
+  description: 'Raises the previous value to the power of the operand',
+  arity: 2,
+  check: (input, operand) => {
+    if (input.isZero() && operand.isNegative()) return 'Zero cannot be raised to a negative power';
+    if (input.isNegative() && !operand.isInteger()) return 'A negative number cannot be raised to a fractional power';
+    return null;
+  },
+  evaluate: (input, operand) => {
+    // Exact results too large to keep (e.g. (1/3)^1024^1024) are estimated
+    // from their size first and rounded instead
+    if (isSmallInteger(operand)) {
+      if (input.canPow(operand.numerator)) return input.pow(operand.numerator);
+    } else {
+      // Rational exponent p/q: exact when the q-th root is
+      const small = operand.denominator <= MAX_EXACT_EXPONENT && operand.abs().numerator <= MAX_EXACT_EXPONENT;
+      const root = small ? input.root(operand.denominator) : null;
+      if (root && root.canPow(operand.numerator)) {
+        return root.pow(operand.numerator);
+      }
+    }
+
+    return Rational.approximate(Math.pow(input.toNumber(), operand.toNumber()));
+  },
+});
+
+registerOperator({
+  name: 'MODULO',
+  symbol: 'mod',
+  label: 'Modulo',
+  description: 'Remainder of dividing the previous value by the operand (takes the sign of the previous value)',
+  arity: 2,
+  check: (_input, operand) => (operand.isZero() ? 'Modulo by zero is not allowed' : null),
+  evaluate: (input, operand) => input.mod(operand),
+});
+
+registerOperator({
+  name: 'ROOT',
+  symbol: '√',
+  label: 'Root',
+  description: 'Takes the operand-th root of the previous value',
+  arity: 2,
+  check: (input, operand) => {
+    if (operand.isZero()) return 'The root degree cannot be zero';
+    const oddInteger = operand.isInteger() && operand.numerator % 2n !== 0n;
+    if (input.isNegative() && !oddInteger) {
+      return 'Only odd integer roots of a negative number are allowed';
+    }
+    if (input.isZero() && operand.isNegative()) return 'Zero has no negative root';
+    return null;
+  },
+  evaluate: (input, operand) => {
+    if (isSmallInteger(operand)) {
+      const degree = operand.abs().numerator;
+      const root = input.root(degree);
+      if (root) {
+        return operand.isNegative() ? Rational.ONE.div(root) : root;
+      }
+    }
+
+    const value = input.toNumber();
+    const magnitude = Math.pow(Math.abs(value), 1 / operand.toNumber());
+    return Rational.approximate(value < 0 ? -magnitude : magnitude);
+  },
+});
+
+registerOperator({
+  name: 'LOG',
+  symbol: 'log',
+  label: 'Logarithm',
+  description: 'Logarithm of the previous value, using the operand as the base',
+  arity: 2,
+  check: (input, operand) => {
+    if (input.isNegative() || input.isZero()) return 'Logarithm is only defined for positive numbers';
+    if (operand.isNegative() || operand.isZero() || operand.equals(Rational.ONE)) {
+      return 'Logarithm base must be positive and not 1';
+    }
+    return null;
+  },
+  evaluate: (input, operand) => {
+    const approximation = Math.log(input.toNumber()) / Math.log(operand.toNumber());
+
+    // Exact when the input is an integer power of the base
+    const candidate = Math.round(approximation);
+    if (Number.isFinite(candidate) && Math.abs(candidate) <= Number(MAX_EXACT_EXPONENT)) {
+      const exponent = BigInt(candidate);
+      if (operand.canPow(exponent) && operand.pow(exponent).equals(input)) {
+        return new Rational(exponent, 1n, input.exact && operand.exact);
+      }
+    }
+
+    return Rational.approximate(approximation);
+  },
+});
+
+registerOperator({
+  name: 'MIN',
+  symbol: 'min',
+  label: 'Minimum',
+  description: 'The smaller of the previous value and the operand',
+  arity: 2,
+  evaluate: (input, operand) => (input.compare(operand) <= 0 ? input : operand),
+});
+
+registerOperator({
+  name: 'MAX',
+  symbol: 'max',
+  label: 'Maximum',
+  description: 'The larger of the previous value and the operand',
+  arity: 2,
+  evaluate: (input, operand) => (input.compare(operand) >= 0 ? input : operand),
+});
+
+registerOperator({
+  name: 'NEGATE',
+  symbol: '−',
+  label: 'Negate',
+  description: 'Flips the sign of the previous value',
+  arity: 1,
+  evaluate: (input) => input.neg(),
+});
+
+registerOperator({
+  name: 'ABS',
+  symbol: '|x|',
+  label: 'Absolute value',
+  description: 'Distance of the previous value from zero',
+  arity: 1,
+  evaluate: (input) => input.abs(),
+});
+
+registerOperator({
+  name: 'FLOOR',
+  symbol: '⌊x⌋',
+  label: 'Floor',
+  description: 'Rounds the previous value down to the nearest integer',
+  arity: 1,
+  evaluate: (input) => input.floor(),
+});
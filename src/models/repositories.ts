@@ -0,0 +1,59 @@
+import { UserRepository, type IUserRepository } from './user-model';
+import { SessionRepository, type ISessionRepository } from './session-model';
+import { DiscussionRepository, type IDiscussionRepository } from './discussion-model';
+import { OperationRepository, type IOperationRepository } from './operation-model';
+import { NotificationRepository, type INotificationRepository } from './notification-model';
+import { AuditLogRepository, type IAuditLogRepository } from './audit-log-model';
+import { ChallengeRepository, type IChallengeRepository } from './challenge-model';
+import { VoteRepository, type IVoteRepository } from './vote-model';
+import { HealthRepository, type IHealthRepository } from './health-model';
+import { IdempotencyRepository, type IIdempotencyRepository } from './idempotency-model';
+import { currentAppContext } from '../lib/app-context';
+
+// ============================================================================
+// REPOSITORIES - The storage backend used by controllers, middleware and jobs
+// ============================================================================
+
+export type Repositories = {
+  userRepository: IUserRepository;
+  sessionRepository: ISessionRepository;
+  discussionRepository: IDiscussionRepository;
+  operationRepository: IOperationRepository;
+  notificationRepository: INotificationRepository;
+  auditLogRepository: IAuditLogRepository;
+  challengeRepository: IChallengeRepository;
+  voteRepository: IVoteRepository;
+  healthRepository: IHealthRepository;
+  idempotencyRepository: IIdempotencyRepository;
+};
+
+export const prismaRepositories: Repositories = {
+  userRepository: UserRepository,
+  sessionRepository: SessionRepository,
+  discussionRepository: DiscussionRepository,
+  operationRepository: OperationRepository,
+  notificationRepository: NotificationRepository,
+  auditLogRepository: AuditLogRepository,
+  challengeRepository: ChallengeRepository,
+  voteRepository: VoteRepository,
+  healthRepository: HealthRepository,
+  idempotencyRepository: IdempotencyRepository,
+};
+
+let repositories: Repositories = prismaRepositories;
+
+/**
+ * The repositories of the app serving the current request, or the
+ * process-wide ones outside of a request
+ */
+export function getRepositories(): Repositories {
+  return currentAppContext()?.repositories ?? repositories;
+}
+
+/**
+ * Swaps the process-wide storage backend, e.g. for the in-memory repositories
+ * in scripts. Repositories that are not given stay Prisma-backed.
+ */
+export function setRepositories(overrides: Partial<Repositories>): void {
+  repositories = { ...prismaRepositories, ...overrides };
+}
@@ -0,0 +1,97 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+// ============================================================================
+// REPOSITORY LAYER - Sessions and their rotating refresh tokens
+// ============================================================================
+
+export interface ISessionRepository {
+  create(data: { userId: string; refreshToken: { tokenHash: string; expiresAt: Date } }): Promise<any>;
+  findById(id: string): Promise<any>;
+  findRefreshToken(tokenHash: string): Promise<any>;
+  rotateRefreshToken(tokenId: string, next: { tokenHash: string; expiresAt: Date }): Promise<boolean>;
+  revoke(sessionId: string): Promise<void>;
+  revokeAllForUser(userId: string, tx?: Prisma.TransactionClient): Promise<number>;
+}
+
+export const SessionRepository: ISessionRepository = {
+  /**
+   * Starts a session together with its first refresh token
+   */
+  async create(data: { userId: string; refreshToken: { tokenHash: string; expiresAt: Date } }) {
+    return await prisma.session.create({
+      data: {
+        userId: data.userId,
+        refreshTokens: {
+          create: data.refreshToken,
+        },
+      },
+    });
+  },
+
+  /**
+   * With the user's current role and restrictions, which may have changed
+   * since the access token was issued
+   */
+  async findById(id: string) {
+    return await prisma.session.findUnique({
+      where: { id },
+      include: {
+        user: {
+          select: { role: true, bannedAt: true, suspendedUntil: true },
+        },
+      },
+    });
+  },
+
+  async findRefreshToken(tokenHash: string) {
+    return await prisma.refreshToken.findUnique({
+      where: { tokenHash },
+      include: { session: true },
+    });
+  },
+
+  /**
+   * Marks a refresh token as used and issues its successor in the same session.
+   * Returns false when the token had already been used, which only happens if
+   * two requests race with the same token.
+   */
+  async rotateRefreshToken(tokenId: string, next: { tokenHash: string; expiresAt: Date }) {
+    return await prisma.$transaction(async (tx: any) => {
+      const used = await tx.refreshToken.updateMany({
+        where: { id: tokenId, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+
+      if (used.count === 0) return false;
+
+      const current = await tx.refreshToken.findUnique({
+        where: { id: tokenId },
+        select: { sessionId: true },
+      });
+
+      await tx.refreshToken.create({
+        data: { ...next, sessionId: current.sessionId },
+      });
+
+      return true;
+    });
+  },
+
+  async revoke(sessionId: string) {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  },
+
+  async revokeAllForUser(userId: string, tx: Prisma.TransactionClient = prisma) {
+    const revoked = await tx.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return revoked.count;
+  },
+};
+
+export default SessionRepository;
@@ -0,0 +1,198 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+
+export type Role = 'User' | 'Guest' | 'Moderator' | 'Admin';
+
+export const STAFF_ROLES: Role[] = ['Moderator', 'Admin'];
+
+export function isStaff(role: string | undefined): boolean {
+  return STAFF_ROLES.includes(role as Role);
+}
+
+/**
+ * Why the account cannot be used right now, or null when it can. Expired
+ * suspensions no longer count.
+ */
+export function accountRestriction(
+  user: { bannedAt?: Date | null; suspendedUntil?: Date | null },
+  now: Date = new Date()
+): { code: 'ACCOUNT_BANNED' | 'ACCOUNT_SUSPENDED'; message: string } | null {
+  if (user.bannedAt) {
+    return { code: 'ACCOUNT_BANNED', message: 'This account has been banned' };
+  }
+
+  if (user.suspendedUntil && new Date(user.suspendedUntil) > now) {
+    return {
+      code: 'ACCOUNT_SUSPENDED',
+      message: `This account is suspended until ${new Date(user.suspendedUntil).toISOString()}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * What everyone may see of a record's author: id and username, never email
+ */
+export function withPublicAuthor<T extends { author?: { id: string; username: string } | null }>(record: T) {
+  if (!record.author) return record;
+
+  return { ...record, author: { id: record.author.id, username: record.author.username } };
+}
+
+type UserUpdate = {
+  email?: string | null;
+  username?: string;
+  password?: string | null;
+  role?: Role;
+  expiresAt?: Date | null;
+  suspendedUntil?: Date | null;
+  bannedAt?: Date | null;
+};
+
+export type UserProfile = {
+  id: string;
+  username: string;
+  role: Role;
+  createdAt: Date;
+};
+
+export type UserStats = {
+  discussionsStarted: number;
+  operationsPosted: number;
+  deepestChain: number;
+  mostUsedOperator: { operationType: string; count: number } | null;
+};
+
+// ============================================================================
+// REPOSITORY LAYER - Basic CRUD operations for controllers
+// ============================================================================
+
+export interface IUserRepository {
+  create(data: {
+    email?: string | null;
+    username: string;
+    password?: string | null;
+    role?: Role;
+    expiresAt?: Date | null;
+  }): Promise<any>;
+  findById(id: string): Promise<any>;
+  findByEmail(email: string): Promise<any>;
+  findByUsername(username: string): Promise<any>;
+  findProfile(username: string): Promise<UserProfile | null>;
+  getStats(userId: string): Promise<UserStats>;
+  update(id: string, data: UserUpdate, tx?: Prisma.TransactionClient): Promise<any>;
+  deleteExpiredGuests(now: Date): Promise<number>;
+}
+
+export const UserRepository: IUserRepository = {
+  async create(data: {
+    email?: string | null;
+    username: string;
+    password?: string | null;
+    role?: Role;
+    expiresAt?: Date | null;
+  }) {
+    return await prisma.user.create({
+      data,
+    });
+  },
+
+  async findById(id: string) {
+    return await prisma.user.findUnique({
+      where: { id },
+    });
+  },
+
+  async findByEmail(email: string) {
+    return await prisma.user.findUnique({
+      where: { email },
+    });
+  },
+
+  async findByUsername(username: string) {
+    return await prisma.user.findUnique({
+      where: { username },
+    });
+  },
+
+  /**
+   * Public profile: never includes email or password
+   */
+  async findProfile(username: string) {
+    return await prisma.user.findUnique({
+      where: { username },
+      select: { id: true, username: true, role: true, createdAt: true },
+    });
+  },
+
+  /**
+   * Contribution stats for a profile page
+   */
+  async getStats(userId: string) {
+    // Counts the same operations the profile lists
+    const posted = { authorId: userId, deletedAt: null, hiddenAt: null, discussion: { deletedAt: null } };
+
+    const [discussionsStarted, operationsPosted, deepest, operators] = await Promise.all([
+      prisma.discussion.count({
+        where: { authorId: userId, deletedAt: null },
+      }),
+      prisma.operation.count({
+        where: posted,
+      }),
+      prisma.operation.aggregate({
+        where: posted,
+        _max: { depth: true },
+      }),
+      prisma.operation.groupBy({
+        by: ['operationType'],
+        where: posted,
+        _count: { operationType: true },
+        orderBy: { _count: { operationType: 'desc' } },
+        take: 1,
+      }),
+    ]);
+
+    return {
+      discussionsStarted,
+      operationsPosted,
+      deepestChain: deepest._max.depth ?? 0,
+      mostUsedOperator: operators[0]
+        ? { operationType: operators[0].operationType, count: operators[0]._count.operationType }
+        : null,
+    };
+  },
+
+  async update(id: string, data: UserUpdate, tx: Prisma.TransactionClient = prisma) {
+    return await tx.user.update({
+      where: { id },
+      data,
+    });
+  },
+
+  async deleteExpiredGuests(now: Date) {
+    const deleted = await prisma.user.deleteMany({
+      where: {
+        role: 'Guest',
+        expiresAt: { lte: now },
+      },
+    });
+    return deleted.count;
+  },
+};
+
+// ============================================================================
+// MODEL LAYER - Database queries and business logic
+// ============================================================================
+
+export const UserModel = {
+  async findProfile(username: string) {
+    return await UserRepository.findProfile(username);
+  },
+
+  async getStats(userId: string) {
+    return await UserRepository.getStats(userId);
+  },
+};
+
+export default UserModel;
@@ -0,0 +1,159 @@
+import prisma from '../lib/prisma';
+
+export const REACTIONS = ['clever', 'elegant', 'wrong-turn'] as const;
+
+export type Reaction = (typeof REACTIONS)[number];
+
+export const VOTE_DIRECTIONS = ['up', 'down'] as const;
+
+export type VoteDirection = (typeof VOTE_DIRECTIONS)[number];
+
+// How votes are stored
+export const VOTE_VALUES: Record<VoteDirection, 1 | -1> = { up: 1, down: -1 };
+
+/**
+ * Aggregate votes and reactions of one operation
+ */
+export type OperationFeedback = {
+  upvotes: number;
+  downvotes: number;
+  reactions: Record<Reaction, number>;
+};
+
+/**
+ * What one user gave one operation
+ */
+export type UserFeedback = {
+  vote: VoteDirection | null;
+  reactions: Reaction[];
+};
+
+export function emptyFeedback(): OperationFeedback {
+  return {
+    upvotes: 0,
+    downvotes: 0,
+    reactions: Object.fromEntries(REACTIONS.map((reaction) => [reaction, 0])) as Record<Reaction, number>,
+  };
+}
+
+export function isReaction(value: string): value is Reaction {
+  return (REACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Adds `upvotes`, `downvotes` and `reactions` to every operation; those
+ * missing from `counts` had none
+ */
+export function withFeedback<T extends Record<string, any>>(
+  operations: T[],
+  counts: Map<string, OperationFeedback>
+): (T & OperationFeedback)[] {
+  return operations.map((operation) => ({ ...operation, ...(counts.get(operation.id) ?? emptyFeedback()) }));
+}
+
+/**
+ * Tallies vote and reaction rows into per-operation counts
+ */
+export function tallyFeedback(
+  votes: { operationId: string; value: number; count: number }[],
+  reactions: { operationId: string; reaction: string; count: number }[]
+): Map<string, OperationFeedback> {
+  const counts = new Map<string, OperationFeedback>();
+  const of = (operationId: string) => {
+    let feedback = counts.get(operationId);
+    if (!feedback) counts.set(operationId, (feedback = emptyFeedback()));
+    return feedback;
+  };
+
+  for (const { operationId, value, count } of votes) {
+    if (value > 0) of(operationId).upvotes += count;
+    else of(operationId).downvotes += count;
+  }
+
+  for (const { operationId, reaction, count } of reactions) {
+    // Reactions dropped from REACTIONS are no longer counted
+    if (isReaction(reaction)) of(operationId).reactions[reaction] += count;
+  }
+
+  return counts;
+}
+
+// ============================================================================
+// REPOSITORY LAYER - Votes and reactions on operations
+// ============================================================================
+
+export interface IVoteRepository {
+  /**
+   * Casts, changes or (with null) withdraws the user's vote
+   */
+  setVote(operationId: string, userId: string, direction: VoteDirection | null): Promise<void>;
+  addReaction(operationId: string, userId: string, reaction: Reaction): Promise<void>;
+  removeReaction(operationId: string, userId: string, reaction: Reaction): Promise<void>;
+  countFor(operationIds: string[]): Promise<Map<string, OperationFeedback>>;
+  findByUser(operationId: string, userId: string): Promise<UserFeedback>;
+}
+
+export const VoteRepository: IVoteRepository = {
+  async setVote(operationId: string, userId: string, direction: VoteDirection | null) {
+    if (direction === null) {
+      await prisma.operationVote.deleteMany({ where: { operationId, userId } });
+      return;
+    }
+
+    const value = VOTE_VALUES[direction];
+
+    await prisma.operationVote.upsert({
+      where: { userId_operationId: { userId, operationId } },
+      create: { userId, operationId, value },
+      update: { value },
+    });
+  },
+
+  async addReaction(operationId: string, userId: string, reaction: Reaction) {
+    await prisma.operationReaction.upsert({
+      where: { userId_operationId_reaction: { userId, operationId, reaction } },
+      create: { userId, operationId, reaction },
+      update: {},
+    });
+  },
+
+  async removeReaction(operationId: string, userId: string, reaction: Reaction) {
+    await prisma.operationReaction.deleteMany({ where: { operationId, userId, reaction } });
+  },
+
+  async countFor(operationIds: string[]) {
+    if (operationIds.length === 0) return new Map();
+
+    const [votes, reactions] = await Promise.all([
+      prisma.operationVote.groupBy({
+        by: ['operationId', 'value'],
+        where: { operationId: { in: operationIds } },
+        _count: { _all: true },
+      }),
+      prisma.operationReaction.groupBy({
+        by: ['operationId', 'reaction'],
+        where: { operationId: { in: operationIds } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return tallyFeedback(
+      votes.map((row: any) => ({ operationId: row.operationId, value: row.value, count: row._count._all })),
+      reactions.map((row: any) => ({ operationId: row.operationId, reaction: row.reaction, count: row._count._all }))
+    );
+  },
+
+  async findByUser(operationId: string, userId: string) {
+    const [vote, reactions] = await Promise.all([
+      prisma.operationVote.findUnique({ where: { userId_operationId: { userId, operationId } } }),
+      prisma.operationReaction.findMany({ where: { operationId, userId }, orderBy: { createdAt: 'asc' } }),
+    ]);
+
+    return {
+      vote: vote ? (vote.value > 0 ? 'up' : 'down') : null,
+      reactions: reactions.map((row: any) => row.reaction).filter(isReaction),
+    };
+  },
+};
+
+export default VoteRepository;
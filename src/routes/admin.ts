@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import AdminController from '../controllers/admin-controller';
+import {
+  auditLogSchema,
+  changeRoleSchema,
+  moderateDiscussionSchema,
+  moderateOperationSchema,
+  moderateUserSchema,
+  reassignDiscussionSchema,
+  suspendUserSchema,
+} from '../schemas/admin';
+import { auditLogPage, discussion, errorResponse, moderatedUser } from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
+
+const userNotFound = { description: 'User not found', schema: errorResponse };
+const discussionNotFound = { description: 'Discussion not found', schema: errorResponse };
+const operationNotFound = { description: 'Operation not found', schema: errorResponse };
+const notAllowed = {
+  description: 'Moderating yourself (SELF_MODERATION), or staff without being an admin (ROLE_REQUIRED)',
+  schema: errorResponse,
+};
+const locked = z.object({ id: z.string(), lockedAt: z.iso.datetime().nullable() });
+const hidden = z.object({ id: z.string(), hiddenAt: z.iso.datetime().nullable() });
+
+export const adminRoutes: RouteDefinition[] = [
+  {
+    method: 'post',
+    path: '/users/:id/suspend',
+    summary: 'Suspend a user',
+    description: 'The user cannot sign in or use their tokens until the suspension ends.',
+    auth: 'moderator',
+    schema: suspendUserSchema,
+    responses: {
+      200: { description: 'The suspended user', schema: moderatedUser },
+      400: { description: 'User is banned (ALREADY_BANNED)', schema: errorResponse },
+      403: notAllowed,
+      404: userNotFound,
+    },
+    handler: AdminController.suspendUser,
+  },
+  {
+    method: 'post',
+    path: '/users/:id/ban',
+    summary: 'Ban a user',
+    description: 'Revokes every session of the user. The ban lasts until an admin reinstates them.',
+    auth: 'admin',
+    schema: moderateUserSchema,
+    responses: {
+      200: { description: 'The banned user', schema: moderatedUser },
+      400: { description: 'User is already banned (ALREADY_BANNED)', schema: errorResponse },
+      403: notAllowed,
+      404: userNotFound,
+    },
+    handler: AdminController.banUser,
+  },
+  {
+    method: 'post',
+    path: '/users/:id/reinstate',
+    summary: 'Lift a suspension or ban',
+    description: 'Only admins can lift bans.',
+    auth: 'moderator',
+    schema: moderateUserSchema,
+    responses: {
+      200: { description: 'The reinstated user', schema: moderatedUser },
+      400: { description: 'User is neither suspended nor banned (NOT_RESTRICTED)', schema: errorResponse },
+      403: notAllowed,
+      404: userNotFound,
+    },
+    handler: AdminController.reinstateUser,
+  },
+  {
+    method: 'patch',
+    path: '/users/:id/role',
+    summary: "Change a user's role",
+    auth: 'admin',
+    schema: changeRoleSchema,
+    responses: {
+      200: { description: 'The user with their new role', schema: moderatedUser },
+      400: { description: 'Guest account or unchanged role (GUEST_ACCOUNT, ROLE_UNCHANGED)', schema: errorResponse },
+      403: notAllowed,
+      404: userNotFound,
+    },
+    handler: AdminController.changeRole,
+  },
+  {
+    method: 'post',
+    path: '/discussions/:id/lock',
+    summary: 'Lock a discussion',
+    description: 'Locked discussions take no new operations, edits or starting number changes.',
+    auth: 'moderator',
+    schema: moderateDiscussionSchema,
+    responses: {
+      200: { description: 'Locked', schema: locked },
+      400: { description: 'Already locked (ALREADY_LOCKED)', schema: errorResponse },
+      404: discussionNotFound,
+    },
+    handler: AdminController.lockDiscussion,
+  },
+  {
+    method: 'post',
+    path: '/discussions/:id/unlock',
+    summary: 'Unlock a discussion',
+    auth: 'moderator',
+    schema: moderateDiscussionSchema,
+    responses: {
+      200: { description: 'Unlocked', schema: locked },
+      400: { description: 'Not locked (NOT_LOCKED)', schema: errorResponse },
+      404: discussionNotFound,
+    },
+    handler: AdminController.unlockDiscussion,
+  },
+  {
+    method: 'post',
+    path: '/discussions/:id/reassign',
+    summary: 'Give a discussion to another user',
+    auth: 'admin',
+    schema: reassignDiscussionSchema,
+    responses: {
+      200: { description: 'The discussion with its new author', schema: discussion },
+      400: {
+        description: 'New author is a guest or already owns it (GUEST_ACCOUNT, AUTHOR_UNCHANGED)',
+        schema: errorResponse,
+      },
+      404: { description: 'Discussion or user not found', schema: errorResponse },
+    },
+    handler: AdminController.reassignDiscussion,
+  },
+  {
+    method: 'delete',
+    path: '/discussions/:id',
+    summary: 'Permanently delete a discussion',
+    description: 'Unlike an author deleting their discussion, this cannot be undone.',
+    auth: 'admin',
+    schema: moderateDiscussionSchema,
+    responses: {
+      204: { description: 'Deleted' },
+      404: discussionNotFound,
+    },
+    handler: AdminController.deleteDiscussion,
+  },
+  {
+    method: 'post',
+    path: '/operations/:id/hide',
+    summary: 'Hide an operation',
+    description: 'Hidden operations are redacted like deleted ones and cannot be edited or replied to.',
+    auth: 'moderator',
+    schema: moderateOperationSchema,
+    responses: {
+      200: { description: 'Hidden', schema: hidden },
+      400: { description: 'Already hidden (ALREADY_HIDDEN)', schema: errorResponse },
+      404: operationNotFound,
+    },
+    handler: AdminController.hideOperation,
+  },
+  {
+    method: 'post',
+    path: '/operations/:id/unhide',
+    summary: 'Unhide an operation',
+    auth: 'moderator',
+    schema: moderateOperationSchema,
+    responses: {
+      200: { description: 'Visible again', schema: hidden },
+      400: { description: 'Not hidden (NOT_HIDDEN)', schema: errorResponse },
+      404: operationNotFound,
+    },
+    handler: AdminController.unhideOperation,
+  },
+  {
+    method: 'get',
+    path: '/audit-log',
+    summary: 'Moderation actions',
+    description: 'Every moderation action with who took it and why, newest first.',
+    auth: 'moderator',
+    schema: auditLogSchema,
+    responses: {
+      200: { description: 'One page of audit log entries', schema: auditLogPage },
+    },
+    handler: AdminController.getAuditLog,
+  },
+];
+
+export default buildRouter(adminRoutes);
@@ -1,9 +1,83 @@
-import { Router } from 'express';
+import { z } from 'zod';
 import AuthController from '../controllers/auth-controller';
+import { loginSchema, refreshSchema, registerSchema } from '../schemas/auth';
+import { authResult, errorResponse, tokenPair } from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
 
-const router = Router();
+export const authRoutes: RouteDefinition[] = [
+  {
+    method: 'post',
+    path: '/register',
+    summary: 'Register a new user',
+    description: 'Called with a guest token, upgrades that guest to a full user and keeps its id (200).',
+    auth: 'optional',
+    rateLimit: 'register',
+    schema: registerSchema,
+    responses: {
+      200: { description: 'Guest upgraded', schema: authResult },
+      201: { description: 'User registered', schema: authResult },
+      409: { description: 'Email or username already in use', schema: errorResponse },
+    },
+    handler: AuthController.register,
+  },
+  {
+    method: 'post',
+    path: '/login',
+    summary: 'Log in with username and password',
+    auth: 'public',
+    rateLimit: 'login',
+    schema: loginSchema,
+    responses: {
+      200: { description: 'Logged in', schema: authResult },
+      401: { description: 'Invalid credentials', schema: errorResponse },
+    },
+    handler: AuthController.login,
+  },
+  {
+    method: 'post',
+    path: '/guest',
+    summary: 'Start an anonymous, read-only guest session',
+    description: 'Counts against the same rate limit as registering.',
+    auth: 'public',
+    rateLimit: 'register',
+    responses: {
+      201: { description: 'Guest created', schema: authResult },
+    },
+    handler: AuthController.guest,
+  },
+  {
+    method: 'post',
+    path: '/refresh',
+    summary: 'Rotate a refresh token into a new token pair',
+    description: 'Reusing a refresh token that was already rotated revokes the whole session.',
+    auth: 'public',
+    schema: refreshSchema,
+    responses: {
+      200: { description: 'New access and refresh token', schema: tokenPair },
+      401: { description: 'Invalid, expired, reused or revoked refresh token', schema: errorResponse },
+    },
+    handler: AuthController.refresh,
+  },
+  {
+    method: 'post',
+    path: '/logout',
+    summary: 'End the current session',
+    auth: 'authenticated',
+    responses: {
+      204: { description: 'Session ended' },
+    },
+    handler: AuthController.logout,
+  },
+  {
+    method: 'post',
+    path: '/logout-all',
+    summary: 'End every session of the current user',
+    auth: 'authenticated',
+    responses: {
+      200: { description: 'Number of revoked sessions', schema: z.object({ revokedSessions: z.number().int() }) },
+    },
+    handler: AuthController.logoutAll,
+  },
+];
 
-router.post('/register', AuthController.register);
-router.post('/login', AuthController.login);
-
-export default router;
+export default buildRouter(authRoutes);
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import ChallengeController from '../controllers/challenges-controller';
+import { leaderboardSchema } from '../schemas/challenges';
+import { leaderboardEntry } from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
+
+export const challengeRoutes: RouteDefinition[] = [
+  {
+    method: 'get',
+    path: '/leaderboard',
+    summary: 'Users by challenges solved',
+    description:
+      'Each challenge counts once per user, however often they solved it. Solving your own challenge does not count. Ties go to whoever got there first.',
+    auth: 'public',
+    schema: leaderboardSchema,
+    responses: {
+      200: { description: 'Leaderboard, best first', schema: z.array(leaderboardEntry) },
+    },
+    handler: ChallengeController.getLeaderboard,
+  },
+];
+
+export default buildRouter(challengeRoutes);
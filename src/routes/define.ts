@@ -0,0 +1,90 @@
+import { RequestHandler, Router } from 'express';
+import { z } from 'zod';
+import {
+  authenticate,
+  optionalAuthenticate,
+  requireAdmin,
+  requireModerator,
+  requireRegisteredUser,
+} from '../middleware/auth';
+import { idempotency } from '../middleware/idempotency';
+import { rateLimit } from '../middleware/rate-limit';
+import { validate } from '../middleware/validate';
+import type { RateLimitBucket } from '../lib/rate-limit';
+import type { RequestSchema } from '../schemas/common';
+
+// ============================================================================
+// ROUTE DEFINITIONS - One description per route, used for the Express router
+// and for the OpenAPI document
+// ============================================================================
+
+/**
+ * - public: no token needed
+ * - optional: works anonymously, but a token that is sent must be valid
+ * - authenticated: any valid token, guests included
+ * - registered: valid token of a registered (non-guest) user
+ * - moderator: valid token of a moderator or admin
+ * - admin: valid token of an admin
+ */
+export type RouteAuth = 'public' | 'optional' | 'authenticated' | 'registered' | 'moderator' | 'admin';
+
+export type RouteResponse = {
+  description: string;
+  schema?: z.ZodType;
+  // Defaults to application/json
+  contentType?: string;
+};
+
+export type RouteDefinition = {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  summary: string;
+  description?: string;
+  auth: RouteAuth;
+  // Honours an Idempotency-Key header. Replays are not counted against the rate limit.
+  idempotent?: boolean;
+  // Counted after authentication, so the bucket applies per user as well as per IP
+  rateLimit?: RateLimitBucket;
+  schema?: RequestSchema;
+  // Success and route-specific error responses. Validation, auth and server
+  // errors are added to the document automatically.
+  responses: Record<number, RouteResponse>;
+  handler: RequestHandler<any, any, any, any>;
+};
+
+export type RouteGroup = {
+  prefix: string;
+  tag: string;
+  routes: RouteDefinition[];
+  router: Router;
+};
+
+const authMiddleware: Record<RouteAuth, RequestHandler<any, any, any, any>[]> = {
+  public: [],
+  optional: [optionalAuthenticate],
+  authenticated: [authenticate],
+  registered: [authenticate, requireRegisteredUser],
+  moderator: [authenticate, requireModerator],
+  admin: [authenticate, requireAdmin],
+};
+
+/**
+ * Registers the routes in order: auth middleware, then idempotency keys, then
+ * the rate limit, then validation, then the handler
+ */
+export function buildRouter(routes: RouteDefinition[]): Router {
+  const router = Router();
+
+  for (const route of routes) {
+    router[route.method](
+      route.path,
+      ...authMiddleware[route.auth],
+      ...(route.idempotent ? [idempotency] : []),
+      ...(route.rateLimit ? [rateLimit(route.rateLimit)] : []),
+      ...(route.schema ? [validate(route.schema)] : []),
+      route.handler
+    );
+  }
+
+  return router;
+}
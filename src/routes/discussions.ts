@@ -1,12 +1,221 @@
-import { Router } from 'express';
-import { authenticate, requireRegisteredUser } from '../middleware/auth';
+import { z } from 'zod';
+import ChallengeController from '../controllers/challenges-controller';
 import DiscussionController from '../controllers/discussions-controller';
+import { solutionsSchema } from '../schemas/challenges';
+import {
+  createDiscussionSchema,
+  discussionIdSchema,
+  discussionStreamSchema,
+  discussionTreeSchema,
+  exportDiscussionSchema,
+  importDiscussionSchema,
+  listDiscussionsSchema,
+  updateDiscussionSchema,
+} from '../schemas/discussions';
+import {
+  archive,
+  deletion,
+  discussion,
+  discussionPage,
+  errorResponse,
+  operation,
+  recomputeSummary,
+  solutions,
+  startingNumberConflict,
+  tree,
+} from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
 
-const router = Router();
+const muteState = z.object({ discussionId: z.string(), muted: z.boolean() });
+const discussionNotFound = { description: 'Discussion not found or deleted', schema: errorResponse };
+const notAuthor = { description: 'Only the author can do this', schema: errorResponse };
 
-router.post('/', authenticate, requireRegisteredUser, DiscussionController.create);
-router.get('/', DiscussionController.getAll);
-router.get('/:id', DiscussionController.getById);
-router.patch('/:id', authenticate, requireRegisteredUser, DiscussionController.update);
+export const discussionRoutes: RouteDefinition[] = [
+  {
+    method: 'post',
+    path: '/',
+    summary: 'Start a discussion',
+    auth: 'registered',
+    idempotent: true,
+    rateLimit: 'createDiscussion',
+    schema: createDiscussionSchema,
+    responses: {
+      201: { description: 'Discussion created', schema: discussion },
+      409: {
+        description: 'Starting number already taken, or the Idempotency-Key is still in use (IDEMPOTENCY_KEY_IN_USE)',
+        schema: startingNumberConflict,
+      },
+    },
+    handler: DiscussionController.create,
+  },
+  {
+    method: 'post',
+    path: '/import',
+    summary: 'Import a discussion from a JSON export',
+    description:
+      'Every result is recomputed from the starting number and has to match. Deleted and invalid operations ' +
+      'are left out together with their replies. The importer becomes the author of everything imported. ' +
+      'Counts against the same rate limit as starting a discussion.',
+    auth: 'registered',
+    rateLimit: 'createDiscussion',
+    schema: importDiscussionSchema,
+    responses: {
+      201: {
+        description: 'Discussion created',
+        schema: discussion.extend({ importedOperations: z.number().int(), skippedOperations: z.number().int() }),
+      },
+      409: { description: 'Starting number already taken', schema: startingNumberConflict },
+      422: { description: 'Some results do not match (IMPORT_INVALID) or the import is too large', schema: errorResponse },
+    },
+    handler: DiscussionController.import,
+  },
+  {
+    method: 'get',
+    path: '/',
+    summary: 'List discussions',
+    description: 'Cursor-paginated; pass `nextCursor` back as `cursor` for the next page.',
+    auth: 'public',
+    schema: listDiscussionsSchema,
+    responses: {
+      200: { description: 'One page of discussions with a preview of their latest operations', schema: discussionPage },
+    },
+    handler: DiscussionController.getAll,
+  },
+  {
+    method: 'get',
+    path: '/:id/tree',
+    summary: 'Nested computation tree',
+    description:
+      'Nodes cut off by `maxDepth` carry a `cursor` that loads their subtree. `sort=best` ranks siblings by the ' +
+      'lower bound of the Wilson score interval of their votes, so a few lucky upvotes do not outrank many.',
+    auth: 'public',
+    schema: discussionTreeSchema,
+    responses: {
+      200: { description: 'Tree rooted at the starting number, or the subtree of a cursor', schema: tree },
+      404: discussionNotFound,
+    },
+    handler: DiscussionController.getTree,
+  },
+  {
+    method: 'get',
+    path: '/:id/solutions',
+    summary: 'Winning paths of a challenge',
+    description:
+      'Operations whose exact result is the target within the step budget, shortest first, then earliest, each with its path from the starting number.',
+    auth: 'public',
+    schema: solutionsSchema,
+    responses: {
+      200: { description: 'Winning paths', schema: solutions },
+      404: { description: 'Discussion not found, deleted or not a challenge', schema: errorResponse },
+    },
+    handler: ChallengeController.getSolutions,
+  },
+  {
+    method: 'get',
+    path: '/:id/export',
+    summary: 'Export the whole tree',
+    description: 'JSON (nested, importable), CSV (one row per operation), Graphviz DOT or a Mermaid flowchart.',
+    auth: 'public',
+    schema: exportDiscussionSchema,
+    responses: {
+      200: { description: 'Download in the requested format', schema: archive },
+      404: discussionNotFound,
+    },
+    handler: DiscussionController.export,
+  },
+  {
+    method: 'get',
+    path: '/:id/stream',
+    summary: 'Live updates as Server-Sent Events',
+    description:
+      'Events: operation.created, operation.updated, operation.deleted, operation.feedback, discussion.updated and ' +
+      'subtree.recomputed. Send Last-Event-ID to resume; a `resync` event means the client has to reload.',
+    auth: 'public',
+    schema: discussionStreamSchema,
+    responses: {
+      200: { description: 'Event stream', contentType: 'text/event-stream' },
+      404: discussionNotFound,
+    },
+    handler: DiscussionController.stream,
+  },
+  {
+    method: 'get',
+    path: '/:id',
+    summary: 'Get a discussion with its operations',
+    auth: 'public',
+    schema: discussionIdSchema,
+    responses: {
+      200: { description: 'Discussion', schema: discussion.extend({ operations: operation.array() }) },
+      404: discussionNotFound,
+    },
+    handler: DiscussionController.getById,
+  },
+  {
+    method: 'patch',
+    path: '/:id',
+    summary: "Change a discussion's starting number or rules",
+    description: 'Every operation is recomputed from a new starting number. New rules only apply to operations posted afterwards.',
+    auth: 'registered',
+    schema: updateDiscussionSchema,
+    responses: {
+      200: { description: 'Updated discussion', schema: discussion.extend(recomputeSummary.shape) },
+      403: notAuthor,
+      404: discussionNotFound,
+      409: { description: 'Starting number already taken', schema: startingNumberConflict },
+      422: { description: 'Some operations could not be recomputed (onInvalid=reject)', schema: errorResponse },
+    },
+    handler: DiscussionController.update,
+  },
+  {
+    method: 'post',
+    path: '/:id/mute',
+    summary: 'Mute reply notifications from a discussion',
+    auth: 'authenticated',
+    schema: discussionIdSchema,
+    responses: {
+      200: { description: 'Muted', schema: muteState },
+      404: discussionNotFound,
+    },
+    handler: DiscussionController.mute,
+  },
+  {
+    method: 'delete',
+    path: '/:id/mute',
+    summary: 'Unmute a discussion',
+    auth: 'authenticated',
+    schema: discussionIdSchema,
+    responses: {
+      200: { description: 'Unmuted', schema: muteState },
+    },
+    handler: DiscussionController.unmute,
+  },
+  {
+    method: 'delete',
+    path: '/:id',
+    summary: 'Soft-delete a discussion',
+    auth: 'registered',
+    schema: discussionIdSchema,
+    responses: {
+      200: { description: 'Deleted; restorable until `restorableUntil`', schema: deletion },
+      403: notAuthor,
+      404: discussionNotFound,
+    },
+    handler: DiscussionController.delete,
+  },
+  {
+    method: 'post',
+    path: '/:id/restore',
+    summary: 'Restore a soft-deleted discussion',
+    auth: 'registered',
+    schema: discussionIdSchema,
+    responses: {
+      200: { description: 'Restored discussion', schema: discussion },
+      403: notAuthor,
+      404: { description: 'Discussion not found', schema: errorResponse },
+      410: { description: 'Restore grace period is over', schema: errorResponse },
+    },
+    handler: DiscussionController.restore,
+  },
+];
 
-export default router;
+export default buildRouter(discussionRoutes);
@@ -0,0 +1,15 @@
+import express, { Router } from 'express';
+import path from 'path';
+import DocsController from '../controllers/docs-controller';
+
+// Swagger UI is served from the installed swagger-ui-dist, not a CDN
+const SWAGGER_UI_DIR = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+// Not part of the OpenAPI document itself
+const router = Router();
+
+router.get('/openapi.json', DocsController.getSpec);
+router.get('/docs', DocsController.getPage);
+router.use('/docs/assets', express.static(SWAGGER_UI_DIR, { index: false }));
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import HealthController from '../controllers/health-controller';
+
+// Probes for the platform running the server, outside /api and the OpenAPI document
+const router = Router();
+
+router.get('/healthz', HealthController.live);
+router.get('/readyz', HealthController.ready);
+
+export default router;
@@ -0,0 +1,22 @@
+import adminRouter, { adminRoutes } from './admin';
+import authRouter, { authRoutes } from './auth';
+import challengeRouter, { challengeRoutes } from './challenges';
+import discussionRouter, { discussionRoutes } from './discussions';
+import notificationRouter, { notificationRoutes } from './notifications';
+import operationRouter, { operationRoutes } from './operations';
+import userRouter, { userRoutes } from './users';
+import type { RouteGroup } from './define';
+
+/**
+ * Every API router with the definitions it was built from. Mounted by the app
+ * and documented in the OpenAPI document.
+ */
+export const apiRoutes: RouteGroup[] = [
+  { prefix: '/api/auth', tag: 'Auth', routes: authRoutes, router: authRouter },
+  { prefix: '/api/discussions', tag: 'Discussions', routes: discussionRoutes, router: discussionRouter },
+  { prefix: '/api/operations', tag: 'Operations', routes: operationRoutes, router: operationRouter },
+  { prefix: '/api/users', tag: 'Users', routes: userRoutes, router: userRouter },
+  { prefix: '/api/challenges', tag: 'Challenges', routes: challengeRoutes, router: challengeRouter },
+  { prefix: '/api/notifications', tag: 'Notifications', routes: notificationRoutes, router: notificationRouter },
+  { prefix: '/api/admin', tag: 'Admin', routes: adminRoutes, router: adminRouter },
+];
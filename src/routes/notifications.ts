@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import NotificationController from '../controllers/notifications-controller';
+import { listNotificationsSchema, markReadSchema } from '../schemas/notifications';
+import { notificationPage } from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
+
+export const notificationRoutes: RouteDefinition[] = [
+  {
+    method: 'get',
+    path: '/',
+    summary: 'Reply notifications of the current user',
+    description: 'Replies to the same operation are grouped into one notification until it is read.',
+    auth: 'authenticated',
+    schema: listNotificationsSchema,
+    responses: {
+      200: { description: 'One page of notifications and the unread count', schema: notificationPage },
+    },
+    handler: NotificationController.list,
+  },
+  {
+    method: 'post',
+    path: '/read',
+    summary: 'Mark notifications as read',
+    auth: 'authenticated',
+    schema: markReadSchema,
+    responses: {
+      200: {
+        description: 'How many were marked and how many are still unread',
+        schema: z.object({ marked: z.number().int(), unreadCount: z.number().int() }),
+      },
+    },
+    handler: NotificationController.markRead,
+  },
+];
+
+export default buildRouter(notificationRoutes);
@@ -1,12 +1,218 @@
-import { Router } from 'express';
-import { authenticate, requireRegisteredUser } from '../middleware/auth';
+import { z } from 'zod';
 import OperationController from '../controllers/operations-controller';
+import {
+  addReactionSchema,
+  createOperationSchema,
+  operationIdSchema,
+  operationsByDiscussionSchema,
+  removeReactionSchema,
+  updateOperationSchema,
+  voteSchema,
+} from '../schemas/operations';
+import {
+  chain,
+  deletion,
+  errorResponse,
+  feedback,
+  operation,
+  operationFeedback,
+  operatorInfo,
+  recomputeSummary,
+  revisions,
+} from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
 
-const router = Router();
+const operationNotFound = { description: 'Operation not found', schema: errorResponse };
+const notAuthor = { description: 'Only the author can do this', schema: errorResponse };
+const operationHidden = { description: 'Hidden by a moderator (OPERATION_HIDDEN)', schema: errorResponse };
 
+export const operationRoutes: RouteDefinition[] = [
+  {
+    method: 'post',
+    path: '/',
+    summary: 'Reply to a starting number or an operation',
+    auth: 'registered',
+    idempotent: true,
+    rateLimit: 'createOperation',
+    schema: createOperationSchema,
+    responses: {
+      201: { description: 'Operation created', schema: operation },
+      404: { description: 'Discussion or parent operation not found', schema: errorResponse },
+      403: { description: 'The discussion is locked (DISCUSSION_LOCKED)', schema: errorResponse },
+      409: {
+        description:
+          'The user already posted this operator and operand here (DUPLICATE_OPERATION), or the Idempotency-Key is still in use (IDEMPOTENCY_KEY_IN_USE)',
+        schema: errorResponse.extend({ existingOperation: z.object({ id: z.string(), createdAt: z.iso.datetime() }) }),
+      },
+      422: {
+        description:
+          "Operand outside the operator's domain, e.g. division by zero, a discussion rule is broken (RULE_VIOLATION, `details.rule` names it), " +
+          'or the Idempotency-Key was used for a different request (IDEMPOTENCY_KEY_REUSED)',
+        schema: errorResponse,
+      },
+    },
+    handler: OperationController.create,
+  },
+  {
+    method: 'get',
+    path: '/types',
+    summary: 'Supported operators',
+    auth: 'public',
+    responses: {
+      200: { description: 'Operators', schema: z.array(operatorInfo) },
+    },
+    handler: OperationController.getTypes,
+  },
+  {
+    method: 'get',
+    path: '/discussion/:discussionId',
+    summary: 'All operations of a discussion',
+    auth: 'public',
+    schema: operationsByDiscussionSchema,
+    responses: {
+      200: {
+        description: 'Operations, oldest first, with their vote and reaction counts',
+        schema: z.array(operation.extend(operationFeedback.shape)),
+      },
+    },
+    handler: OperationController.getByDiscussion,
+  },
+  {
+    method: 'get',
+    path: '/:id/chain',
+    summary: 'Path from the starting number to an operation',
+    description: 'Includes the path rendered as plain text, LaTeX and MathML.',
+    auth: 'public',
+    schema: operationIdSchema,
+    responses: {
+      200: { description: 'Chain', schema: chain },
+      404: operationNotFound,
+    },
+    handler: OperationController.getChain,
+  },
+  {
+    method: 'get',
+    path: '/:id/revisions',
+    summary: 'Previous versions of an edited operation',
+    auth: 'public',
+    schema: operationIdSchema,
+    responses: {
+      200: { description: 'Revisions, most recently replaced first', schema: revisions },
+      404: operationNotFound,
+    },
+    handler: OperationController.getRevisions,
+  },
+  {
+    method: 'get',
+    path: '/:id',
+    summary: 'Get an operation with its replies',
+    auth: 'public',
+    schema: operationIdSchema,
+    responses: {
+      200: { description: 'Operation', schema: operation.extend({ children: z.array(operation) }) },
+      404: operationNotFound,
+    },
+    handler: OperationController.getById,
+  },
+  {
+    method: 'patch',
+    path: '/:id',
+    summary: 'Edit the operator or operand of an operation',
+    description: 'The operation and everything below it is recomputed; the replaced version is kept as a revision.',
+    auth: 'registered',
+    schema: updateOperationSchema,
+    responses: {
+      200: { description: 'Edited operation', schema: operation.extend(recomputeSummary.shape) },
+      403: notAuthor,
+      404: operationNotFound,
+      422: {
+        description: 'The edit is invalid, breaks operations below it or breaks a discussion rule (RULE_VIOLATION)',
+        schema: errorResponse,
+      },
+    },
+    handler: OperationController.update,
+  },
+  {
+    method: 'delete',
+    path: '/:id',
+    summary: 'Tombstone an operation',
+    description: 'Content is hidden but the node stays so replies below it remain attached.',
+    auth: 'registered',
+    schema: operationIdSchema,
+    responses: {
+      200: { description: 'Deleted; restorable until `restorableUntil`', schema: deletion },
+      403: notAuthor,
+      404: operationNotFound,
+    },
+    handler: OperationController.delete,
+  },
+  {
+    method: 'post',
+    path: '/:id/restore',
+    summary: 'Restore a tombstoned operation',
+    auth: 'registered',
+    schema: operationIdSchema,
+    responses: {
+      200: { description: 'Restored operation', schema: operation },
+      403: notAuthor,
+      404: operationNotFound,
+      410: { description: 'Restore grace period is over', schema: errorResponse },
+    },
+    handler: OperationController.restore,
+  },
+  {
+    method: 'post',
+    path: '/:id/vote',
+    summary: 'Upvote or downvote an operation',
+    description: 'One vote per user; voting again changes it. Authors cannot vote on their own operations.',
+    auth: 'registered',
+    schema: voteSchema,
+    responses: {
+      200: { description: 'Counts after the vote', schema: feedback },
+      403: { description: 'Own operation (OWN_OPERATION) or hidden (OPERATION_HIDDEN)', schema: errorResponse },
+      404: operationNotFound,
+    },
+    handler: OperationController.vote,
+  },
+  {
+    method: 'delete',
+    path: '/:id/vote',
+    summary: 'Withdraw a vote',
+    auth: 'registered',
+    schema: operationIdSchema,
+    responses: {
+      200: { description: 'Counts without the vote', schema: feedback },
+      403: operationHidden,
+      404: operationNotFound,
+    },
+    handler: OperationController.unvote,
+  },
+  {
+    method: 'post',
+    path: '/:id/reactions',
+    summary: 'React to an operation',
+    auth: 'registered',
+    schema: addReactionSchema,
+    responses: {
+      200: { description: 'Counts after the reaction', schema: feedback },
+      403: operationHidden,
+      404: operationNotFound,
+    },
+    handler: OperationController.react,
+  },
+  {
+    method: 'delete',
+    path: '/:id/reactions/:reaction',
+    summary: 'Take back a reaction',
+    auth: 'registered',
+    schema: removeReactionSchema,
+    responses: {
+      200: { description: 'Counts without the reaction', schema: feedback },
+      403: operationHidden,
+      404: operationNotFound,
+    },
+    handler: OperationController.unreact,
+  },
+];
 
-router.post('/', authenticate, requireRegisteredUser, OperationController.create);
-router.get('/discussion/:discussionId', OperationController.getByDiscussion);
-router.get('/:id', OperationController.getById);
-
-export default router;
+export default buildRouter(operationRoutes);
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import UserController from '../controllers/users-controller';
+import { usernameSchema } from '../schemas/users';
+import { discussion, errorResponse, operation, profile } from '../schemas/responses';
+import { buildRouter, RouteDefinition } from './define';
+
+const userNotFound = { description: 'User not found', schema: errorResponse };
+
+export const userRoutes: RouteDefinition[] = [
+  {
+    method: 'get',
+    path: '/:username',
+    summary: 'Public profile with contribution stats',
+    auth: 'public',
+    schema: usernameSchema,
+    responses: {
+      200: { description: 'Profile', schema: profile },
+      404: userNotFound,
+    },
+    handler: UserController.getProfile,
+  },
+  {
+    method: 'get',
+    path: '/:username/discussions',
+    summary: 'Discussions started by a user',
+    auth: 'public',
+    schema: usernameSchema,
+    responses: {
+      200: { description: 'Discussions, newest first', schema: z.array(discussion) },
+      404: userNotFound,
+    },
+    handler: UserController.getDiscussions,
+  },
+  {
+    method: 'get',
+    path: '/:username/operations',
+    summary: 'Operations posted by a user',
+    auth: 'public',
+    schema: usernameSchema,
+    responses: {
+      200: { description: 'Operations, newest first', schema: z.array(operation) },
+      404: userNotFound,
+    },
+    handler: UserController.getOperations,
+  },
+];
+
+export default buildRouter(userRoutes);
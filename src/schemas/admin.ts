@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, decodeAuditCursor } from '../models/audit-log-model';
+import { idParam, idParams, integerQuery, type RequestSchema } from './common';
+
+export const DEFAULT_AUDIT_PAGE_SIZE = 50;
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+// Longest suspension that can be given at once: one year
+export const MAX_SUSPENSION_HOURS = 24 * 365;
+
+const reason = z
+  .string()
+  .trim()
+  .min(1)
+  .max(500)
+  .meta({ description: 'Why, recorded in the audit log' });
+
+const reasonBody = z.object({ reason });
+
+export const suspendUserSchema = {
+  params: idParams,
+  body: z.object({
+    hours: z.number().int().min(1).max(MAX_SUSPENSION_HOURS).meta({ description: 'How long the suspension lasts' }),
+    reason,
+  }),
+} satisfies RequestSchema;
+
+export const moderateUserSchema = {
+  params: idParams,
+  body: reasonBody,
+} satisfies RequestSchema;
+
+export const changeRoleSchema = {
+  params: idParams,
+  body: z.object({
+    role: z.enum(['User', 'Moderator', 'Admin']),
+    reason,
+  }),
+} satisfies RequestSchema;
+
+export const moderateDiscussionSchema = {
+  params: idParams,
+  body: reasonBody,
+} satisfies RequestSchema;
+
+export const reassignDiscussionSchema = {
+  params: idParams,
+  body: z.object({
+    username: z.string().trim().min(1).meta({ description: 'New author' }),
+    reason,
+  }),
+} satisfies RequestSchema;
+
+export const moderateOperationSchema = {
+  params: idParams,
+  body: reasonBody,
+} satisfies RequestSchema;
+
+export const auditLogSchema = {
+  query: z.object({
+    limit: integerQuery(1, MAX_AUDIT_PAGE_SIZE, DEFAULT_AUDIT_PAGE_SIZE),
+    cursor: z
+      .string()
+      .refine((cursor) => decodeAuditCursor(cursor) !== null, 'Invalid cursor')
+      .optional(),
+    actorId: idParam.optional(),
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+    targetId: idParam.optional(),
+  }),
+} satisfies RequestSchema;
+
+export type SuspendUserBody = z.output<typeof suspendUserSchema.body>;
+export type ReasonBody = z.output<typeof reasonBody>;
+export type ChangeRoleBody = z.output<typeof changeRoleSchema.body>;
+export type ReassignDiscussionBody = z.output<typeof reassignDiscussionSchema.body>;
+export type AuditLogQuery = z.output<typeof auditLogSchema.query>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import type { RequestSchema } from './common';
+
+export const registerSchema = {
+  body: z.object({
+    email: z.email(),
+    username: z.string().trim().min(1).max(50),
+    password: z.string().min(1),
+  }),
+} satisfies RequestSchema;
+
+export const loginSchema = {
+  body: z.object({
+    username: z.string().min(1),
+    password: z.string().min(1),
+  }),
+} satisfies RequestSchema;
+
+export const refreshSchema = {
+  body: z.object({
+    refreshToken: z.string().min(1),
+  }),
+} satisfies RequestSchema;
+
+export type RegisterBody = z.output<typeof registerSchema.body>;
+export type LoginBody = z.output<typeof loginSchema.body>;
+export type RefreshBody = z.output<typeof refreshSchema.body>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { idParams, integerQuery, type RequestSchema } from './common';
+
+export const DEFAULT_SOLUTIONS_PAGE_SIZE = 20;
+export const MAX_SOLUTIONS_PAGE_SIZE = 50;
+export const DEFAULT_LEADERBOARD_SIZE = 20;
+export const MAX_LEADERBOARD_SIZE = 100;
+
+export const solutionsSchema = {
+  params: idParams,
+  query: z.object({
+    limit: integerQuery(1, MAX_SOLUTIONS_PAGE_SIZE, DEFAULT_SOLUTIONS_PAGE_SIZE),
+  }),
+} satisfies RequestSchema;
+
+export const leaderboardSchema = {
+  query: z.object({
+    limit: integerQuery(1, MAX_LEADERBOARD_SIZE, DEFAULT_LEADERBOARD_SIZE),
+  }),
+} satisfies RequestSchema;
+
+export type SolutionsQuery = z.output<typeof solutionsSchema.query>;
+export type LeaderboardQuery = z.output<typeof leaderboardSchema.query>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import Rational, { MAX_TEXT_LENGTH } from '../lib/rational';
+
+/**
+ * What `validate` checks for one route. Parsed (and transformed) values
+ * replace `req.body`, `req.params` and `req.query`.
+ */
+export type RequestSchema = {
+  body?: z.ZodType;
+  params?: z.ZodType;
+  query?: z.ZodType;
+};
+
+/**
+ * A number sent as JSON number or string: integers, decimals, exponent
+ * notation or an exact fraction like "1/3". NaN, Infinity and values too large
+ * to store (e.g. 1e400, or a fraction of two 2000-digit numbers) are rejected.
+ * Parses to an exact Rational.
+ */
+export const numberInput = z
+  .union([z.number(), z.string().max(MAX_TEXT_LENGTH, 'Must be a finite number')])
+  .meta({ description: 'A finite number, as JSON number or string (decimal, exponent or "p/q" fraction)' })
+  .transform((value, ctx) => {
+    const parsed = Rational.tryParse(value);
+
+    if (!parsed || !Number.isFinite(parsed.toNumber())) {
+      ctx.addIssue({ code: 'custom', message: 'Must be a finite number' });
+      return z.NEVER;
+    }
+
+    return parsed;
+  });
+
+export const idParam = z.string().min(1);
+
+export const idParams = z.object({ id: idParam });
+
+/**
+ * Integer query parameter within [min, max], with a default when absent
+ */
+export function integerQuery(min: number, max: number, fallback: number) {
+  return z.coerce
+    .number()
+    .int(`Must be an integer between ${min} and ${max}`)
+    .min(min, `Must be an integer between ${min} and ${max}`)
+    .max(max, `Must be an integer between ${min} and ${max}`)
+    .default(fallback);
+}
+
+export const dateQuery = z.coerce.date({ error: 'Must be a date' }).meta({ type: 'string', format: 'date-time' });
+
+export const onInvalidInput = z
+  .enum(['reject', 'flag'])
+  .default('reject')
+  .meta({ description: 'What to do with operations that can no longer be computed' });
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { DISCUSSION_SORTS, decodeListCursor } from '../models/discussion-model';
+import type { DiscussionRules } from '../models/discussion-rules';
+import { getOperator } from '../models/operator-registry';
+import { DEFAULT_TREE_DEPTH, MAX_TREE_DEPTH, TREE_SORTS } from '../services/tree';
+import { dateQuery, idParams, integerQuery, numberInput, onInvalidInput, type RequestSchema } from './common';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const MAX_RULE_DEPTH = 1000;
+
+/**
+ * Constraints on new operations. Parses to the stored DiscussionRules:
+ * operator names canonical, operand bounds exact.
+ */
+export const discussionRules = z
+  .object({
+    allowedOperators: z
+      .array(
+        z
+          .string()
+          .refine((name) => getOperator(name) !== undefined, 'Unknown operator')
+          .transform((name) => getOperator(name)!.name)
+      )
+      .min(1)
+      .optional()
+      .meta({ description: 'Only these operators can be used' }),
+    integerOperands: z.boolean().optional().meta({ description: 'Operands must be integers' }),
+    minOperand: numberInput.optional(),
+    maxOperand: numberInput.optional(),
+    maxDepth: z.number().int().min(1).max(MAX_RULE_DEPTH).optional().meta({ description: '1 allows only direct replies to the starting number' }),
+    closesAt: z.iso.datetime({ offset: true }).optional().meta({ description: 'No new operations after this time' }),
+  })
+  .strict()
+  .refine((rules) => !rules.minOperand || !rules.maxOperand || rules.minOperand.compare(rules.maxOperand) <= 0, {
+    message: 'minOperand cannot be greater than maxOperand',
+    path: ['minOperand'],
+  })
+  .transform((rules): DiscussionRules => {
+    const stored: DiscussionRules = {};
+    if (rules.allowedOperators) stored.allowedOperators = [...new Set(rules.allowedOperators)];
+    if (rules.integerOperands !== undefined) stored.integerOperands = rules.integerOperands;
+    if (rules.minOperand) stored.minOperand = rules.minOperand.toString();
+    if (rules.maxOperand) stored.maxOperand = rules.maxOperand.toString();
+    if (rules.maxDepth !== undefined) stored.maxDepth = rules.maxDepth;
+    if (rules.closesAt) stored.closesAt = new Date(rules.closesAt).toISOString();
+    return stored;
+  });
+
+export const MAX_STEP_BUDGET = 1000;
+
+export const challengeInput = z
+  .object({
+    target: numberInput.meta({ description: 'Operations whose exact result equals this solve the challenge' }),
+    stepBudget: z
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_STEP_BUDGET)
+      .nullable()
+      .default(null)
+      .meta({ description: 'Most operations a solution may take; null for no limit' }),
+  })
+  .meta({ description: 'Turns the discussion into a target-number challenge' });
+
+export const createDiscussionSchema = {
+  body: z
+    .object({
+      startingNumber: numberInput,
+      rules: discussionRules.optional(),
+      challenge: challengeInput.optional(),
+    })
+    .refine((body) => !body.challenge || !body.challenge.target.equals(body.startingNumber), {
+      message: 'The target has to differ from the starting number',
+      path: ['challenge', 'target'],
+    }),
+} satisfies RequestSchema;
+
+export const listDiscussionsSchema = {
+  query: z.object({
+    limit: integerQuery(1, MAX_PAGE_SIZE, DEFAULT_PAGE_SIZE),
+    cursor: z
+      .string()
+      .refine((cursor) => decodeListCursor(cursor) !== null, 'Invalid cursor')
+      .optional(),
+    sort: z.enum(DISCUSSION_SORTS).default('newest'),
+    author: z.string().min(1).optional().meta({ description: 'Username of the author' }),
+    minStartingNumber: numberInput.transform((value) => value.toNumber()).optional(),
+    maxStartingNumber: numberInput.transform((value) => value.toNumber()).optional(),
+    createdAfter: dateQuery.optional(),
+    createdBefore: dateQuery.optional(),
+  }),
+} satisfies RequestSchema;
+
+export const discussionIdSchema = {
+  params: idParams,
+} satisfies RequestSchema;
+
+export const discussionTreeSchema = {
+  params: idParams,
+  query: z.object({
+    maxDepth: integerQuery(1, MAX_TREE_DEPTH, DEFAULT_TREE_DEPTH),
+    sort: z.enum(TREE_SORTS).default('newest'),
+    cursor: z.string().min(1).optional().meta({ description: 'Loads the subtree below a cut-off node' }),
+  }),
+} satisfies RequestSchema;
+
+export const discussionStreamSchema = {
+  params: idParams,
+  query: z.object({
+    lastEventId: z.string().optional().meta({ description: 'Fallback for the Last-Event-ID header' }),
+  }),
+} satisfies RequestSchema;
+
+export const updateDiscussionSchema = {
+  params: idParams,
+  body: z
+    .object({
+      startingNumber: numberInput.optional(),
+      rules: discussionRules.optional().meta({ description: 'Replaces all rules; {} removes them' }),
+      onInvalid: onInvalidInput,
+    })
+    .refine((body) => body.startingNumber !== undefined || body.rules !== undefined, {
+      message: 'Send startingNumber, rules or both',
+    }),
+} satisfies RequestSchema;
+
+export const EXPORT_FORMATS = ['json', 'csv', 'dot', 'mermaid'] as const;
+
+export const exportDiscussionSchema = {
+  params: idParams,
+  query: z.object({
+    format: z.enum(EXPORT_FORMATS).default('json'),
+  }),
+} satisfies RequestSchema;
+
+/**
+ * One node of the JSON export. Exact values win over the rounded ones, and
+ * whatever else the export carries (authors, timestamps, ...) is ignored.
+ */
+export const importedOperation = z.object({
+  id: z.string().optional(),
+  operationType: z.string().min(1).nullable(),
+  operand: numberInput.nullish(),
+  operandExact: numberInput.nullish(),
+  result: z.number().optional(),
+  resultExact: z.string().optional(),
+  resultApproximate: z.boolean().optional(),
+  invalidReason: z.string().nullish(),
+  deleted: z.boolean().optional(),
+  hidden: z.boolean().optional(),
+  get children(): z.ZodDefault<z.ZodArray<typeof importedOperation>> {
+    return z.array(importedOperation).default([]);
+  },
+});
+
+export const importDiscussionSchema = {
+  body: z.object({
+    discussion: z
+      .object({
+        startingNumber: numberInput.optional(),
+        startingNumberExact: numberInput.optional(),
+      })
+      .refine((discussion) => discussion.startingNumber || discussion.startingNumberExact, {
+        message: 'startingNumber is required',
+      }),
+    operations: z.array(importedOperation).default([]),
+  }),
+} satisfies RequestSchema;
+
+export type CreateDiscussionBody = z.output<typeof createDiscussionSchema.body>;
+export type ListDiscussionsQuery = z.output<typeof listDiscussionsSchema.query>;
+export type DiscussionTreeQuery = z.output<typeof discussionTreeSchema.query>;
+export type UpdateDiscussionBody = z.output<typeof updateDiscussionSchema.body>;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ImportedOperationInput = z.output<typeof importedOperation>;
+export type ImportDiscussionBody = z.output<typeof importDiscussionSchema.body>;
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { decodeNotificationCursor } from '../models/notification-model';
+import { idParam, integerQuery, type RequestSchema } from './common';
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20;
+export const MAX_NOTIFICATION_PAGE_SIZE = 100;
+
+export const listNotificationsSchema = {
+  query: z.object({
+    limit: integerQuery(1, MAX_NOTIFICATION_PAGE_SIZE, DEFAULT_NOTIFICATION_PAGE_SIZE),
+    cursor: z
+      .string()
+      .refine((cursor) => decodeNotificationCursor(cursor) !== null, 'Invalid cursor')
+      .optional(),
+    unread: z.stringbool().default(false).meta({ description: 'Only unread notifications' }),
+  }),
+} satisfies RequestSchema;
+
+export const markReadSchema = {
+  body: z
+    .object({
+      ids: z.array(idParam).min(1).optional(),
+      all: z.literal(true).optional(),
+    })
+    .refine((body) => (body.ids === undefined) !== (body.all === undefined), {
+      message: 'Send either ids or all: true',
+    }),
+} satisfies RequestSchema;
+
+export type ListNotificationsQuery = z.output<typeof listNotificationsSchema.query>;
+export type MarkReadBody = z.output<typeof markReadSchema.body>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { REACTIONS, VOTE_DIRECTIONS } from '../models/vote-model';
+import { idParam, idParams, numberInput, onInvalidInput, type RequestSchema } from './common';
+
+// Operator names are checked against the registry by the controller, since
+// operators can be registered at runtime
+const operationTypeInput = z.string().min(1).meta({ description: 'See GET /api/operations/types' });
+
+export const createOperationSchema = {
+  body: z.object({
+    discussionId: idParam,
+    parentId: idParam.nullish(),
+    operationType: operationTypeInput,
+    operand: numberInput.nullish(),
+  }),
+} satisfies RequestSchema;
+
+export const operationIdSchema = {
+  params: idParams,
+} satisfies RequestSchema;
+
+export const operationsByDiscussionSchema = {
+  params: z.object({ discussionId: idParam }),
+} satisfies RequestSchema;
+
+export const updateOperationSchema = {
+  params: idParams,
+  body: z
+    .object({
+      operationType: operationTypeInput.optional(),
+      operand: numberInput.nullish(),
+      onInvalid: onInvalidInput,
+    })
+    .refine((body) => body.operationType !== undefined || body.operand !== undefined, {
+      message: 'operationType or operand is required',
+    }),
+} satisfies RequestSchema;
+
+export const voteSchema = {
+  params: idParams,
+  body: z.object({
+    direction: z.enum(VOTE_DIRECTIONS),
+  }),
+} satisfies RequestSchema;
+
+export const addReactionSchema = {
+  params: idParams,
+  body: z.object({
+    reaction: z.enum(REACTIONS),
+  }),
+} satisfies RequestSchema;
+
+export const removeReactionSchema = {
+  params: idParams.extend({ reaction: z.enum(REACTIONS) }),
+} satisfies RequestSchema;
+
+export type CreateOperationBody = z.output<typeof createOperationSchema.body>;
+export type UpdateOperationBody = z.output<typeof updateOperationSchema.body>;
+export type VoteBody = z.output<typeof voteSchema.body>;
+export type AddReactionBody = z.output<typeof addReactionSchema.body>;
@@ -0,0 +1,312 @@
+import { z } from 'zod';
+import { discussionRules, importedOperation } from './discussions';
+
+// ============================================================================
+// RESPONSE SCHEMAS - Only used to document responses; handlers are not checked
+// against them
+// ============================================================================
+
+export const errorResponse = z.object({
+  error: z.object({
+    code: z.string().meta({ description: 'Stable machine-readable code, e.g. VALIDATION_FAILED or NOT_FOUND' }),
+    message: z.string(),
+    details: z
+      .unknown()
+      .optional()
+      .meta({ description: 'Field-level problems ({ path, message }[]) or the operations an update would break' }),
+  }),
+});
+
+export const existingDiscussion = z.object({
+  id: z.string(),
+  startingNumber: z.number(),
+  startingNumberExact: z.string(),
+});
+
+export const startingNumberConflict = errorResponse.extend({
+  existingDiscussion,
+});
+
+const author = z.object({ id: z.string(), username: z.string() });
+
+export const user = z.object({
+  id: z.string(),
+  email: z.string().nullable(),
+  username: z.string(),
+  role: z.string(),
+  expiresAt: z.iso.datetime().nullable(),
+  createdAt: z.iso.datetime(),
+});
+
+export const authResult = z.object({
+  user,
+  token: z.string().meta({ description: 'Short-lived access token, sent as `Authorization: Bearer <token>`' }),
+  refreshToken: z.string(),
+});
+
+export const tokenPair = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+});
+
+export const discussion = z.object({
+  id: z.string(),
+  startingNumber: z.number(),
+  startingNumberExact: z.string().meta({ description: 'Exact value, an integer or "p/q" fraction' }),
+  authorId: z.string(),
+  author: author.optional(),
+  lastActivityAt: z.iso.datetime(),
+  lockedAt: z.iso.datetime().nullable().optional().meta({ description: 'Set while a moderator has locked the discussion' }),
+  rules: discussionRules.optional(),
+  targetNumber: z.number().nullable().optional().meta({ description: 'Set for challenges' }),
+  targetNumberExact: z.string().nullable().optional(),
+  stepBudget: z.number().int().nullable().optional(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const operation = z.object({
+  id: z.string(),
+  discussionId: z.string(),
+  parentId: z.string().nullable(),
+  operationType: z.string().nullable().meta({ description: 'Null when the operation was deleted or hidden' }),
+  operand: z.number().nullable(),
+  operandExact: z.string().nullable(),
+  result: z.number(),
+  resultExact: z.string(),
+  resultApproximate: z.boolean(),
+  invalidReason: z.string().nullable(),
+  depth: z.number().int(),
+  authorId: z.string().nullable(),
+  author: author.nullable().optional(),
+  deleted: z.boolean().optional(),
+  hidden: z.boolean().optional().meta({ description: 'Hidden by a moderator' }),
+  editedAt: z.iso.datetime().nullable().optional(),
+  createdAt: z.iso.datetime(),
+});
+
+export const operationFeedback = z.object({
+  upvotes: z.number().int(),
+  downvotes: z.number().int(),
+  reactions: z.object({ clever: z.number().int(), elegant: z.number().int(), 'wrong-turn': z.number().int() }),
+});
+
+export const feedback = operationFeedback.extend({
+  operationId: z.string(),
+  mine: z
+    .object({
+      vote: z.enum(['up', 'down']).nullable(),
+      reactions: z.array(z.enum(['clever', 'elegant', 'wrong-turn'])),
+    })
+    .meta({ description: 'What the signed-in user gave the operation' }),
+});
+
+export const recomputeFailure = z.object({
+  id: z.string(),
+  operationType: z.string(),
+  operand: z.string().nullable(),
+  input: z.string().nullable(),
+  reason: z.string(),
+});
+
+export const recomputeSummary = z.object({
+  recomputedOperations: z.number().int(),
+  flaggedOperations: z.array(recomputeFailure),
+});
+
+export const deletion = z.object({
+  id: z.string(),
+  deletedAt: z.iso.datetime(),
+  restorableUntil: z.iso.datetime(),
+});
+
+export const discussionPage = z.object({
+  items: z.array(discussion.extend({ preview: z.array(operation.partial()) })),
+  nextCursor: z.string().nullable(),
+});
+
+export const treeNode = z.looseObject({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  result: z.number(),
+  resultExact: z.string(),
+  replyCount: z.number().int(),
+  ...operationFeedback.shape,
+  children: z.array(z.unknown()).meta({ description: 'Nested tree nodes' }),
+  cursor: z.string().nullable().meta({ description: 'Set when replies were cut off by maxDepth' }),
+});
+
+export const tree = z.object({
+  discussionId: z.string(),
+  startingNumber: z.number(),
+  startingNumberExact: z.string(),
+  replyCount: z.number().int(),
+  children: z.array(treeNode),
+});
+
+export const archivedOperation = z.looseObject({
+  id: z.string(),
+  operationType: z.string().nullable(),
+  operandExact: z.string().nullable(),
+  result: z.number(),
+  resultExact: z.string(),
+  deleted: z.boolean(),
+  hidden: z.boolean(),
+  author: author.nullable(),
+  createdAt: z.iso.datetime(),
+  children: z.array(z.unknown()).meta({ description: 'Nested operations' }),
+});
+
+export const archive = z.object({
+  format: z.literal('number-discussion'),
+  version: z.literal(1),
+  exportedAt: z.iso.datetime(),
+  discussion: existingDiscussion.extend({ author: author.nullable(), createdAt: z.iso.datetime() }),
+  operations: z.array(archivedOperation),
+});
+
+export const notificationPage = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      discussionId: z.string(),
+      operationId: z.string().nullable().meta({ description: 'Replied-to operation, null for the discussion itself' }),
+      message: z.string().meta({ description: 'e.g. "5 people replied to your ×2"' }),
+      replyCount: z.number().int(),
+      actorCount: z.number().int(),
+      lastActor: author,
+      lastReplyId: z.string(),
+      read: z.boolean(),
+      readAt: z.iso.datetime().nullable(),
+      createdAt: z.iso.datetime(),
+      updatedAt: z.iso.datetime(),
+    })
+  ),
+  unreadCount: z.number().int(),
+  nextCursor: z.string().nullable(),
+});
+
+export const operatorInfo = z.object({
+  name: z.string(),
+  symbol: z.string(),
+  label: z.string(),
+  description: z.string(),
+  arity: z.union([z.literal(1), z.literal(2)]),
+  requiresOperand: z.boolean(),
+});
+
+export const chain = z.object({
+  discussion: existingDiscussion,
+  chain: z.array(operation),
+  expressionStartsAt: z.string().nullable(),
+  result: z.number(),
+  resultExact: z.string(),
+  resultApproximate: z.boolean(),
+  expression: z.object({ text: z.string(), latex: z.string(), mathml: z.string() }),
+});
+
+export const revisions = z.object({
+  operationId: z.string(),
+  current: operation.pick({
+    operationType: true,
+    operand: true,
+    operandExact: true,
+    result: true,
+    resultExact: true,
+    resultApproximate: true,
+    editedAt: true,
+  }),
+  revisions: z.array(
+    z.object({
+      id: z.string(),
+      operationType: z.string(),
+      operand: z.number().nullable(),
+      operandExact: z.string().nullable(),
+      result: z.number(),
+      resultExact: z.string(),
+      resultApproximate: z.boolean(),
+      editedById: z.string(),
+      createdAt: z.iso.datetime().meta({ description: 'When this version was replaced' }),
+    })
+  ),
+});
+
+export const profile = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: z.string(),
+  createdAt: z.iso.datetime(),
+  stats: z.object({
+    discussionsStarted: z.number().int(),
+    operationsPosted: z.number().int(),
+    deepestChain: z.number().int(),
+    mostUsedOperator: z.object({ operationType: z.string(), count: z.number().int() }).nullable(),
+  }),
+});
+
+export const solutions = z.object({
+  discussionId: z.string(),
+  startingNumberExact: z.string(),
+  targetNumber: z.number(),
+  targetNumberExact: z.string(),
+  stepBudget: z.number().int().nullable(),
+  total: z.number().int().meta({ description: 'Number of winning operations, including those beyond `limit`' }),
+  solutions: z.array(
+    z.object({
+      operationId: z.string(),
+      author: author.nullable(),
+      steps: z.number().int(),
+      createdAt: z.iso.datetime(),
+      path: z.array(operation).meta({ description: 'From the first operation down to the winning one' }),
+    })
+  ),
+});
+
+export const leaderboardEntry = z.object({
+  rank: z.number().int(),
+  user: author,
+  solved: z.number().int(),
+  lastSolvedAt: z.iso.datetime(),
+});
+
+export const moderatedUser = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: z.enum(['User', 'Guest', 'Moderator', 'Admin']),
+  suspendedUntil: z.iso.datetime().nullable(),
+  bannedAt: z.iso.datetime().nullable(),
+});
+
+export const auditLogPage = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      actorId: z.string().nullable(),
+      actor: author.nullable(),
+      action: z.string().meta({ description: 'e.g. "user.suspend", "discussion.lock", "operation.hide"' }),
+      targetType: z.enum(['user', 'discussion', 'operation']),
+      targetId: z.string(),
+      reason: z.string().nullable(),
+      metadata: z.record(z.string(), z.unknown()).nullable(),
+      createdAt: z.iso.datetime(),
+    })
+  ),
+  nextCursor: z.string().nullable(),
+});
+
+/**
+ * Emitted as shared components of the OpenAPI document and referenced by name.
+ * Recursive schemas have to be named.
+ */
+export const namedSchemas: Record<string, z.ZodType> = {
+  ErrorResponse: errorResponse,
+  StartingNumberConflict: startingNumberConflict,
+  User: user,
+  AuthResult: authResult,
+  Discussion: discussion,
+  Operation: operation,
+  RecomputeFailure: recomputeFailure,
+  DiscussionRules: discussionRules,
+  ModeratedUser: moderatedUser,
+  ImportedOperation: importedOperation,
+};
@@ -0,0 +1,6 @@
+import { z } from 'zod';
+import type { RequestSchema } from './common';
+
+export const usernameSchema = {
+  params: z.object({ username: z.string().min(1) }),
+} satisfies RequestSchema;
@@ -0,0 +1,347 @@
+import { computeResult, getOperator, redactDeleted } from '../models';
+import type { IDiscussionRepository, IOperationRepository, ImportedOperation } from '../models';
+import Rational from '../lib/rational';
+import { UnprocessableError } from '../lib/errors';
+import type { ExportFormat, ImportDiscussionBody, ImportedOperationInput } from '../schemas/discussions';
+
+export const MAX_IMPORT_OPERATIONS = 5000;
+
+// Rounded results of approximate operations may differ in the last digits
+const APPROXIMATE_TOLERANCE = 1e-9;
+
+export type ArchivedOperation = {
+  id: string;
+  // Null for deleted operations, like everywhere else
+  operationType: string | null;
+  operand: number | null;
+  operandExact: string | null;
+  result: number;
+  resultExact: string;
+  resultApproximate: boolean;
+  invalidReason: string | null;
+  deleted: boolean;
+  // Hidden by a moderator, redacted like deleted operations
+  hidden: boolean;
+  depth: number;
+  author: { id: string; username: string } | null;
+  createdAt: Date;
+  editedAt: Date | null;
+  children: ArchivedOperation[];
+};
+
+export type DiscussionArchive = {
+  format: 'number-discussion';
+  version: 1;
+  exportedAt: Date;
+  discussion: {
+    id: string;
+    startingNumber: number;
+    startingNumberExact: string;
+    author: { id: string; username: string } | null;
+    createdAt: Date;
+  };
+  operations: ArchivedOperation[];
+};
+
+export type ImportFailure = {
+  // Position in the imported document, e.g. `operations[0].children[2]`
+  path: string;
+  id: string | null;
+  reason: string;
+};
+
+// ============================================================================
+// RENDERING - CSV, Graphviz DOT and Mermaid
+// ============================================================================
+
+type FlatOperation = ArchivedOperation & { parentId: string | null };
+
+function flatten(operations: ArchivedOperation[], parentId: string | null = null): FlatOperation[] {
+  return operations.flatMap((operation) => [
+    { ...operation, parentId },
+    ...flatten(operation.children, operation.id),
+  ]);
+}
+
+/**
+ * Short label like `× 2` or `Absolute value`
+ */
+function operationLabel(operation: ArchivedOperation): string {
+  if (operation.hidden && !operation.deleted) return 'hidden';
+  if (operation.deleted || !operation.operationType) return 'deleted';
+
+  const operator = getOperator(operation.operationType);
+  if (!operator) return operation.operationType;
+
+  return operator.arity === 2 ? `${operator.symbol} ${operation.operandExact}` : operator.label;
+}
+
+function resultLabel(operation: ArchivedOperation): string {
+  return operation.resultApproximate ? `≈ ${operation.result}` : `= ${operation.resultExact}`;
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(archive: DiscussionArchive): string {
+  const header = [
+    'id',
+    'parentId',
+    'depth',
+    'operationType',
+    'operand',
+    'result',
+    'resultExact',
+    'resultApproximate',
+    'invalidReason',
+    'deleted',
+    'hidden',
+    'author',
+    'createdAt',
+  ];
+
+  const rows = flatten(archive.operations).map((operation) =>
+    [
+      operation.id,
+      operation.parentId,
+      operation.depth,
+      operation.operationType,
+      operation.operandExact,
+      operation.result,
+      operation.resultExact,
+      operation.resultApproximate,
+      operation.invalidReason,
+      operation.deleted,
+      operation.hidden,
+      operation.author?.username,
+      operation.createdAt,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+export function toDot(archive: DiscussionArchive): string {
+  const lines = [
+    `digraph ${dotString(`discussion-${archive.discussion.id}`)} {`,
+    '  node [shape=box, fontname="Helvetica"];',
+    `  start [label=${dotString(archive.discussion.startingNumberExact)}, shape=ellipse];`,
+  ];
+
+  for (const operation of flatten(archive.operations)) {
+    const label = `${operationLabel(operation)}\n${resultLabel(operation)}`;
+    const style = operation.deleted || operation.hidden ? ', style=dashed' : operation.invalidReason ? ', color=red' : '';
+    lines.push(`  ${dotString(operation.id)} [label=${dotString(label)}${style}];`);
+    lines.push(`  ${operation.parentId ? dotString(operation.parentId) : 'start'} -> ${dotString(operation.id)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function mermaidString(text: string): string {
+  return `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+export function toMermaid(archive: DiscussionArchive): string {
+  // Mermaid ids cannot contain dashes reliably, so nodes get short aliases
+  const aliases = new Map<string, string>();
+  const alias = (id: string) => aliases.get(id) ?? aliases.set(id, `op${aliases.size + 1}`).get(id)!;
+
+  const lines = ['flowchart TD', `  start([${mermaidString(archive.discussion.startingNumberExact)}])`];
+
+  for (const operation of flatten(archive.operations)) {
+    const label = `${operationLabel(operation)}<br/>${resultLabel(operation)}`;
+    lines.push(`  ${alias(operation.id)}[${mermaidString(label)}]`);
+    lines.push(`  ${operation.parentId ? alias(operation.parentId) : 'start'} --> ${alias(operation.id)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function renderArchive(archive: DiscussionArchive, format: ExportFormat) {
+  switch (format) {
+    case 'csv':
+      return { contentType: 'text/csv', extension: 'csv', body: toCsv(archive) };
+    case 'dot':
+      return { contentType: 'text/vnd.graphviz', extension: 'dot', body: toDot(archive) };
+    case 'mermaid':
+      return { contentType: 'text/plain', extension: 'mmd', body: toMermaid(archive) };
+    case 'json':
+    default:
+      return { contentType: 'application/json', extension: 'json', body: JSON.stringify(archive, null, 2) };
+  }
+}
+
+// ============================================================================
+// IMPORT - Re-validates every result before anything is written
+// ============================================================================
+
+function matches(computed: Rational, node: ImportedOperationInput): boolean {
+  if (node.resultExact !== undefined && !node.resultApproximate) {
+    const expected = Rational.tryParse(node.resultExact);
+    return expected !== null && expected.equals(computed);
+  }
+
+  const expected = node.resultExact !== undefined ? Rational.tryParse(node.resultExact)?.toNumber() : node.result;
+  if (expected === undefined) return node.resultExact === undefined;
+
+  const actual = computed.toNumber();
+  return Math.abs(actual - expected) <= APPROXIMATE_TOLERANCE * Math.max(1, Math.abs(actual));
+}
+
+/**
+ * Turns an imported JSON export into operations ready to be stored.
+ * Every result is recomputed from the starting number; deleted, hidden and
+ * invalid operations cannot be checked, so they are left out along with their
+ * replies.
+ *
+ * @throws UnprocessableError listing every operation whose result does not hold up
+ */
+export function planImport(body: ImportDiscussionBody) {
+  const startingNumber = (body.discussion.startingNumberExact ?? body.discussion.startingNumber)!;
+  const operations: ImportedOperation[] = [];
+  const failures: ImportFailure[] = [];
+  let skipped = 0;
+
+  const count = (nodes: ImportedOperationInput[]): number =>
+    nodes.reduce((total, node) => total + 1 + count(node.children), 0);
+
+  if (count(body.operations) > MAX_IMPORT_OPERATIONS) {
+    throw new UnprocessableError(
+      `An import can hold at most ${MAX_IMPORT_OPERATIONS} operations`,
+      'IMPORT_TOO_LARGE'
+    );
+  }
+
+  const visit = (nodes: ImportedOperationInput[], parentKey: string | null, input: Rational, path: string) => {
+    nodes.forEach((node, index) => {
+      const nodePath = `${path}[${index}]`;
+
+      if (node.deleted || node.hidden || node.invalidReason || !node.operationType) {
+        skipped += count([node]);
+        return;
+      }
+
+      const operand = node.operandExact ?? node.operand ?? null;
+      let result: Rational;
+
+      try {
+        result = computeResult(input, node.operationType, operand);
+      } catch (error: any) {
+        failures.push({ path: nodePath, id: node.id ?? null, reason: error.message });
+        return;
+      }
+
+      if (!matches(result, node)) {
+        failures.push({
+          path: nodePath,
+          id: node.id ?? null,
+          reason: `Result ${node.resultExact ?? node.result} does not match the computed ${result.toString()}`,
+        });
+        return;
+      }
+
+      operations.push({
+        key: nodePath,
+        parentKey,
+        operationType: getOperator(node.operationType)!.name,
+        operand,
+        result,
+      });
+
+      visit(node.children, nodePath, result, `${nodePath}.children`);
+    });
+  };
+
+  visit(body.operations, null, startingNumber, 'operations');
+
+  if (failures.length > 0) {
+    throw new UnprocessableError('Some imported results do not hold up', 'IMPORT_INVALID', failures);
+  }
+
+  return { startingNumber, operations, skipped };
+}
+
+export function makeArchiveService(discussionRepository: IDiscussionRepository, operationRepository: IOperationRepository) {
+  /**
+   * Full nested tree with authors and timestamps. Deleted and hidden
+   * operations keep their place but not their content. Returns null when the discussion does
+   * not exist.
+   */
+  async function exportDiscussion(discussionId: string): Promise<DiscussionArchive | null> {
+    const discussion = await discussionRepository.findById(discussionId);
+    if (!discussion || discussion.deletedAt) return null;
+
+    const stored = await operationRepository.findByDiscussion(discussionId);
+    const nodes = new Map<string, ArchivedOperation>();
+    const roots: ArchivedOperation[] = [];
+
+    for (const operation of stored.map(redactDeleted)) {
+      nodes.set(operation.id, {
+        id: operation.id,
+        operationType: operation.operationType,
+        operand: operation.operand,
+        operandExact: operation.operandExact,
+        result: operation.result,
+        resultExact: operation.resultExact,
+        resultApproximate: operation.resultApproximate,
+        invalidReason: operation.invalidReason ?? null,
+        deleted: Boolean(operation.deletedAt),
+        hidden: Boolean(operation.hiddenAt),
+        depth: operation.depth,
+        author: operation.author ? { id: operation.author.id, username: operation.author.username } : null,
+        createdAt: operation.createdAt,
+        editedAt: operation.editedAt ?? null,
+        children: [],
+      });
+    }
+
+    // Operations come oldest first, so siblings keep that order
+    for (const operation of stored) {
+      const node = nodes.get(operation.id)!;
+      const parent = operation.parentId === null ? undefined : nodes.get(operation.parentId);
+      (parent ? parent.children : roots).push(node);
+    }
+
+    return {
+      format: 'number-discussion',
+      version: 1,
+      exportedAt: new Date(),
+      discussion: {
+        id: discussion.id,
+        startingNumber: discussion.startingNumber,
+        startingNumberExact: discussion.startingNumberExact,
+        author: discussion.author ? { id: discussion.author.id, username: discussion.author.username } : null,
+        createdAt: discussion.createdAt,
+      },
+      operations: roots,
+    };
+  }
+
+  /**
+   * Stores a validated import as a new discussion owned by `authorId`
+   */
+  async function importDiscussion(plan: ReturnType<typeof planImport>, authorId: string) {
+    const discussion = await discussionRepository.importTree({
+      startingNumber: plan.startingNumber,
+      authorId,
+      operations: plan.operations,
+    });
+
+    return { ...discussion, skippedOperations: plan.skipped };
+  }
+
+  return { exportDiscussion, importDiscussion };
+}
+
+export default makeArchiveService;
@@ -1,56 +1,180 @@
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
-import type { IUserRepository } from '../models';
+import { createHash, randomBytes } from "crypto";
+import { accountRestriction, type ISessionRepository, type IUserRepository } from '../models';
+import { ConflictError, ForbiddenError, UnauthorizedError } from "../lib/errors";
+import { getConfig } from "../lib/config";
+import { signToken } from "../lib/jwt";
 
 type User = {
     id: string;
-    email: string;
+    email: string | null;
     username: string;
     password?: string;
     role?: string;
+    bannedAt?: Date | null;
+    suspendedUntil?: Date | null;
     [key: string]: any;
 };
 
-const SALT_ROUNDS = parseInt(process.env.SALT_ROUNDS || '10', 10);
-const JWT_SECRET: string = process.env.JWT_SECRET || 'make-sure-its-not-empty';
-
 function stripPassword(user: User) {
     const { password, ...rest } = user;
     return rest as Omit<User, "password">;
 }
 
-export function makeAuthService(userRepository: IUserRepository) {
-    async function generateToken(user: User) {
-        const payload = { id: user.id, email: user.email, username: user.username, role: user.role };
-        return jwt.sign(payload, JWT_SECRET, { expiresIn: '1h' });
+function hashRefreshToken(token: string) {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+export function makeAuthService(userRepository: IUserRepository, sessionRepository: ISessionRepository) {
+    async function generateToken(user: User, sessionId: string) {
+        const payload = { id: user.id, email: user.email, username: user.username, role: user.role, sid: sessionId };
+
+        // Guest tokens never outlive the guest account itself
+        const expiresIn = user.expiresAt
+            ? Math.max(0, Math.floor((new Date(user.expiresAt).getTime() - Date.now()) / 1000))
+            : getConfig().accessTokenTtlSeconds;
+
+        return await signToken(payload, expiresIn);
     }
 
-    async function register(payload: { email: string; username: string; password: string; [k: string]: any }) {
+    // Banned and suspended users get no new tokens
+    function assertNotRestricted(user: User) {
+        const restriction = accountRestriction(user);
+        if (restriction) throw new ForbiddenError(restriction.message, restriction.code);
+    }
+
+    function newRefreshToken(user: User) {
+        const token = randomBytes(32).toString("base64url");
+        let expiresAt = new Date(Date.now() + getConfig().refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+        if (user.expiresAt && new Date(user.expiresAt) < expiresAt) expiresAt = new Date(user.expiresAt);
+
+        return { token, stored: { tokenHash: hashRefreshToken(token), expiresAt } };
+    }
+
+    /**
+     * Starts a new session: an access token carrying the session id, plus the
+     * first refresh token of the session's family
+     */
+    async function startSession(user: User) {
+        const refresh = newRefreshToken(user);
+        const session = await sessionRepository.create({ userId: user.id, refreshToken: refresh.stored });
+
+        const token = await generateToken(user, session.id);
+        return { token, refreshToken: refresh.token };
+    }
+
+    /**
+     * Registers a new user. When `guestId` is given, that guest account is
+     * upgraded in place instead, so everything tied to its id is kept.
+     */
+    async function register(
+        payload: { email: string; username: string; password: string; [k: string]: any },
+        guestId?: string
+    ) {
         const existingEmail = await userRepository.findByEmail(payload.email);
-        if (existingEmail) throw new Error("Email already in use");
+        if (existingEmail) throw new ConflictError("Email already in use", undefined, "EMAIL_TAKEN");
 
         const existingUsername = await userRepository.findByUsername(payload.username);
-        if (existingUsername) throw new Error("Username already in use");
+        if (existingUsername && existingUsername.id !== guestId) throw new ConflictError("Username already in use", undefined, "USERNAME_TAKEN");
 
-        const hashed = await bcrypt.hash(payload.password, SALT_ROUNDS);
-        const created = await userRepository.create({ ...payload, password: hashed });
+        const hashed = await bcrypt.hash(payload.password, getConfig().saltRounds);
+        const data = { email: payload.email, username: payload.username, password: hashed };
 
-        const token = await generateToken(created);
-        return { user: stripPassword(created), token };
+        let created: User;
+        if (guestId) {
+            const guest = await userRepository.findById(guestId);
+            if (!guest || guest.role !== 'Guest') throw new UnauthorizedError("Guest account not found");
+            if (guest.expiresAt && new Date(guest.expiresAt) <= new Date()) throw new UnauthorizedError("Guest session has expired", "GUEST_EXPIRED");
+
+            created = await userRepository.update(guestId, { ...data, role: 'User', expiresAt: null });
+            // The guest's read-only sessions end with the upgrade
+            await sessionRepository.revokeAllForUser(guestId);
+        } else {
+            created = await userRepository.create(data);
+        }
+
+        const tokens = await startSession(created);
+        return { user: stripPassword(created), ...tokens };
+    }
+
+    /**
+     * Creates a short-lived anonymous Guest account with read-only access.
+     * The purge job deletes it once it has expired.
+     */
+    async function createGuest() {
+        const expiresAt = new Date(Date.now() + getConfig().guestTtlMinutes * 60 * 1000);
+        const created = await userRepository.create({
+            username: `guest-${randomBytes(6).toString("hex")}`,
+            role: 'Guest',
+            expiresAt,
+        });
+
+        const tokens = await startSession(created);
+        return { user: stripPassword(created), ...tokens, expiresAt };
     }
 
     async function login(payload: { username: string; password: string }) {
         const user = await userRepository.findByUsername(payload.username);
-        if (!user) throw new Error("Invalid credentials");
+        // Guests have no password and cannot log in
+        if (!user || !user.password) throw new UnauthorizedError("Invalid credentials", "INVALID_CREDENTIALS");
+
+        const ok = await bcrypt.compare(payload.password, user.password);
+        if (!ok) throw new UnauthorizedError("Invalid credentials", "INVALID_CREDENTIALS");
+
+        assertNotRestricted(user);
+
+        const tokens = await startSession(user);
+        return { user: stripPassword(user), ...tokens };
+    }
+
+    /**
+     * Exchanges a refresh token for a new access token and a new refresh token.
+     * Presenting a refresh token that was already rotated means it leaked, so
+     * the whole session (every token of the family) is revoked.
+     */
+    async function refresh(refreshToken: string) {
+        const stored = await sessionRepository.findRefreshToken(hashRefreshToken(refreshToken));
+        if (!stored) throw new UnauthorizedError("Invalid refresh token", "INVALID_REFRESH_TOKEN");
+
+        if (stored.session.revokedAt) throw new UnauthorizedError("Session has been revoked", "SESSION_REVOKED");
+
+        if (stored.usedAt) {
+            await sessionRepository.revoke(stored.sessionId);
+            throw new UnauthorizedError("Refresh token reuse detected, session revoked", "REFRESH_TOKEN_REUSED");
+        }
 
-        const ok = await bcrypt.compare(payload.password, user.password || "");
-        if (!ok) throw new Error("Invalid credentials");
+        if (new Date(stored.expiresAt) <= new Date()) throw new UnauthorizedError("Refresh token has expired", "REFRESH_TOKEN_EXPIRED");
+
+        const user = await userRepository.findById(stored.session.userId);
+        if (!user) throw new UnauthorizedError("Invalid refresh token", "INVALID_REFRESH_TOKEN");
+
+        assertNotRestricted(user);
+
+        const next = newRefreshToken(user);
+        const rotated = await sessionRepository.rotateRefreshToken(stored.id, next.stored);
+
+        if (!rotated) {
+            await sessionRepository.revoke(stored.sessionId);
+            throw new UnauthorizedError("Refresh token reuse detected, session revoked", "REFRESH_TOKEN_REUSED");
+        }
+
+        const token = await generateToken(user, stored.sessionId);
+        return { token, refreshToken: next.token };
+    }
+
+    async function logout(sessionId: string) {
+        await sessionRepository.revoke(sessionId);
+    }
 
-        const token = await generateToken(user);
-        return { user: stripPassword(user), token };
+    /**
+     * Revokes every session of the user, e.g. after a password change
+     * @returns Number of revoked sessions
+     */
+    async function logoutAll(userId: string) {
+        return await sessionRepository.revokeAllForUser(userId);
     }
 
-    return { register, login, generateToken };
+    return { register, login, createGuest, refresh, logout, logoutAll, generateToken };
 }
 
 export default makeAuthService;
@@ -0,0 +1,85 @@
+import { readChallenge, redactDeleted } from '../models';
+import type { ChallengeSettings, IChallengeRepository, IDiscussionRepository, SolverRecord } from '../models';
+
+export type LeaderboardEntry = SolverRecord & { rank: number };
+
+/**
+ * Whether an operation completes a winning path: its exact result is the
+ * target and it took no more steps than the budget allows. Approximate,
+ * invalid, deleted and hidden operations never win.
+ */
+export function isWinningOperation(
+  operation: {
+    resultExact: string;
+    resultApproximate: boolean;
+    depth: number;
+    invalidReason?: string | null;
+    deletedAt?: Date | null;
+    hiddenAt?: Date | null;
+  },
+  challenge: ChallengeSettings
+): boolean {
+  if (operation.resultApproximate || operation.invalidReason || operation.deletedAt || operation.hiddenAt) {
+    return false;
+  }
+
+  if (challenge.stepBudget !== null && operation.depth > challenge.stepBudget) {
+    return false;
+  }
+
+  return operation.resultExact === challenge.target.toString();
+}
+
+export function makeChallengeService(discussionRepository: IDiscussionRepository, challengeRepository: IChallengeRepository) {
+  /**
+   * Winning paths of a challenge, shortest first, then earliest. Each path
+   * runs from the starting number to the winning operation. Returns null when
+   * the discussion does not exist or is not a challenge.
+   */
+  async function getSolutions(discussionId: string, limit: number) {
+    const discussion = await discussionRepository.findById(discussionId);
+    if (!discussion || discussion.deletedAt) return null;
+
+    const challenge = readChallenge(discussion);
+    if (!challenge) return null;
+
+    const { items, total } = await challengeRepository.findSolutions(discussionId, challenge, limit);
+    const winning = items.filter((operation) => isWinningOperation(operation, challenge));
+
+    const steps = new Map<string, any>(
+      (await challengeRepository.findPathOperations(winning.map((operation) => operation.path))).map((step) => [step.id, step])
+    );
+
+    const solutions = winning.map((operation) => ({
+      operationId: operation.id,
+      author: operation.author ? { id: operation.author.id, username: operation.author.username } : null,
+      steps: operation.depth,
+      createdAt: operation.createdAt,
+      // The stored path lists the ancestors root first, ending with the operation itself
+      path: operation.path
+        .split('/')
+        .map((id: string) => steps.get(id))
+        .filter((step: any) => step !== undefined)
+        .map(redactDeleted),
+    }));
+
+    return {
+      discussionId,
+      startingNumberExact: discussion.startingNumberExact,
+      targetNumber: challenge.target.toNumber(),
+      targetNumberExact: challenge.target.toString(),
+      stepBudget: challenge.stepBudget,
+      total,
+      solutions,
+    };
+  }
+
+  async function getLeaderboard(limit: number): Promise<LeaderboardEntry[]> {
+    const solvers = await challengeRepository.findTopSolvers(limit);
+    return solvers.map((solver, index) => ({ rank: index + 1, ...solver }));
+  }
+
+  return { getSolutions, getLeaderboard };
+}
+
+export default makeChallengeService;
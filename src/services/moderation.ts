@@ -0,0 +1,273 @@
+import { isStaff } from '../models';
+import type {
+  AuditLogFilter,
+  IAuditLogRepository,
+  IDiscussionRepository,
+  IOperationRepository,
+  ISessionRepository,
+  IUserRepository,
+  Role,
+} from '../models';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../lib/errors';
+
+export type Moderator = { id: string; role: string };
+
+/**
+ * What moderation responses show of a user: never email or password
+ */
+function moderatedUser(user: any) {
+  return {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    suspendedUntil: user.suspendedUntil ?? null,
+    bannedAt: user.bannedAt ?? null,
+  };
+}
+
+/**
+ * Nobody moderates themselves, and only admins moderate other staff
+ */
+export function assertCanModerateUser(actor: Moderator, target: { id: string; role: string }) {
+  if (actor.id === target.id) {
+    throw new ForbiddenError('You cannot moderate your own account', 'SELF_MODERATION');
+  }
+
+  if (isStaff(target.role) && actor.role !== 'Admin') {
+    throw new ForbiddenError('Only admins can moderate moderators and admins', 'ROLE_REQUIRED');
+  }
+}
+
+export function makeModerationService(
+  userRepository: IUserRepository,
+  sessionRepository: ISessionRepository,
+  discussionRepository: IDiscussionRepository,
+  operationRepository: IOperationRepository,
+  auditLogRepository: IAuditLogRepository
+) {
+  async function findTargetUser(actor: Moderator, userId: string) {
+    const user = await userRepository.findById(userId);
+    if (!user) throw new NotFoundError('User');
+
+    assertCanModerateUser(actor, user);
+    return user;
+  }
+
+  async function findDiscussion(discussionId: string) {
+    const discussion = await discussionRepository.findById(discussionId);
+    if (!discussion || discussion.deletedAt) throw new NotFoundError('Discussion');
+    return discussion;
+  }
+
+  async function findOperation(operationId: string) {
+    const operation = await operationRepository.findById(operationId);
+    if (!operation || operation.deletedAt) throw new NotFoundError('Operation');
+    return operation;
+  }
+
+  // ==========================================================================
+  // USERS
+  // ==========================================================================
+
+  /**
+   * Locks the user out for `hours`. Existing tokens stop working right away
+   * because authenticate checks the account on every request.
+   */
+  async function suspendUser(actor: Moderator, userId: string, hours: number, reason: string) {
+    const user = await findTargetUser(actor, userId);
+    if (user.bannedAt) throw new BadRequestError('User is banned', 'ALREADY_BANNED');
+
+    const suspendedUntil = new Date(Date.now() + hours * 60 * 60 * 1000);
+    const updated = await auditLogRepository.recordAction(
+      (tx) => userRepository.update(userId, { suspendedUntil }, tx),
+      {
+        actorId: actor.id,
+        action: 'user.suspend',
+        targetType: 'user',
+        targetId: userId,
+        reason,
+        metadata: { suspendedUntil: suspendedUntil.toISOString() },
+      }
+    );
+
+    return moderatedUser(updated);
+  }
+
+  /**
+   * Bans the user until reinstated and ends all of their sessions
+   */
+  async function banUser(actor: Moderator, userId: string, reason: string) {
+    const user = await findTargetUser(actor, userId);
+    if (user.bannedAt) throw new BadRequestError('User is already banned', 'ALREADY_BANNED');
+
+    const { updated } = await auditLogRepository.recordAction(
+      async (tx) => ({
+        updated: await userRepository.update(userId, { bannedAt: new Date(), suspendedUntil: null }, tx),
+        revokedSessions: await sessionRepository.revokeAllForUser(userId, tx),
+      }),
+      ({ revokedSessions }) => ({
+        actorId: actor.id,
+        action: 'user.ban',
+        targetType: 'user',
+        targetId: userId,
+        reason,
+        metadata: { revokedSessions },
+      })
+    );
+
+    return moderatedUser(updated);
+  }
+
+  /**
+   * Lifts a suspension or (admins only) a ban
+   */
+  async function reinstateUser(actor: Moderator, userId: string, reason: string) {
+    const user = await findTargetUser(actor, userId);
+
+    if (user.bannedAt && actor.role !== 'Admin') {
+      throw new ForbiddenError('Only admins can lift a ban', 'ROLE_REQUIRED');
+    }
+
+    if (!user.bannedAt && !(user.suspendedUntil && new Date(user.suspendedUntil) > new Date())) {
+      throw new BadRequestError('User is neither suspended nor banned', 'NOT_RESTRICTED');
+    }
+
+    const updated = await auditLogRepository.recordAction(
+      (tx) => userRepository.update(userId, { bannedAt: null, suspendedUntil: null }, tx),
+      {
+        actorId: actor.id,
+        action: 'user.reinstate',
+        targetType: 'user',
+        targetId: userId,
+        reason,
+        metadata: { wasBanned: Boolean(user.bannedAt) },
+      }
+    );
+
+    return moderatedUser(updated);
+  }
+
+  /**
+   * Promotes or demotes a registered user. Guests have to register first.
+   */
+  async function changeRole(actor: Moderator, userId: string, role: Role, reason: string) {
+    const user = await findTargetUser(actor, userId);
+    if (user.role === 'Guest') throw new BadRequestError('Guests cannot be given a role', 'GUEST_ACCOUNT');
+    if (user.role === role) throw new BadRequestError(`User already has the ${role} role`, 'ROLE_UNCHANGED');
+
+    const updated = await auditLogRepository.recordAction((tx) => userRepository.update(userId, { role }, tx), {
+      actorId: actor.id,
+      action: 'user.role',
+      targetType: 'user',
+      targetId: userId,
+      reason,
+      metadata: { from: user.role, to: role },
+    });
+
+    return moderatedUser(updated);
+  }
+
+  // ==========================================================================
+  // DISCUSSIONS
+  // ==========================================================================
+
+  /**
+   * Locked discussions take no new operations, edits or starting number changes
+   */
+  async function setDiscussionLocked(actor: Moderator, discussionId: string, locked: boolean, reason: string) {
+    const discussion = await findDiscussion(discussionId);
+
+    if (Boolean(discussion.lockedAt) === locked) {
+      throw new BadRequestError(`Discussion is ${locked ? 'already' : 'not'} locked`, locked ? 'ALREADY_LOCKED' : 'NOT_LOCKED');
+    }
+
+    return await auditLogRepository.recordAction((tx) => discussionRepository.setLocked(discussionId, locked, tx), {
+      actorId: actor.id,
+      action: locked ? 'discussion.lock' : 'discussion.unlock',
+      targetType: 'discussion',
+      targetId: discussionId,
+      reason,
+    });
+  }
+
+  async function reassignDiscussion(actor: Moderator, discussionId: string, username: string, reason: string) {
+    const discussion = await findDiscussion(discussionId);
+
+    const author = await userRepository.findByUsername(username);
+    if (!author) throw new NotFoundError('User');
+    if (author.role === 'Guest') throw new BadRequestError('Discussions cannot be owned by guests', 'GUEST_ACCOUNT');
+    if (author.id === discussion.authorId) throw new BadRequestError('User already owns this discussion', 'AUTHOR_UNCHANGED');
+
+    return await auditLogRepository.recordAction((tx) => discussionRepository.reassign(discussionId, author.id, tx), {
+      actorId: actor.id,
+      action: 'discussion.reassign',
+      targetType: 'discussion',
+      targetId: discussionId,
+      reason,
+      metadata: { from: discussion.authorId, to: author.id },
+    });
+  }
+
+  /**
+   * Deletes a discussion for good. Unlike the author's soft delete there is
+   * nothing to restore, so the audit entry keeps what it was.
+   */
+  async function deleteDiscussion(actor: Moderator, discussionId: string, reason: string) {
+    const discussion = await discussionRepository.findById(discussionId);
+    if (!discussion) throw new NotFoundError('Discussion');
+
+    await auditLogRepository.recordAction((tx) => discussionRepository.delete(discussionId, tx), {
+      actorId: actor.id,
+      action: 'discussion.delete',
+      targetType: 'discussion',
+      targetId: discussionId,
+      reason,
+      metadata: { startingNumberExact: discussion.startingNumberExact, authorId: discussion.authorId },
+    });
+
+    return discussion;
+  }
+
+  // ==========================================================================
+  // OPERATIONS
+  // ==========================================================================
+
+  /**
+   * Hidden operations are redacted everywhere like tombstones. Their author
+   * cannot edit or restore them; only a moderator can unhide them.
+   */
+  async function setOperationHidden(actor: Moderator, operationId: string, hidden: boolean, reason: string) {
+    const operation = await findOperation(operationId);
+
+    if (Boolean(operation.hiddenAt) === hidden) {
+      throw new BadRequestError(`Operation is ${hidden ? 'already' : 'not'} hidden`, hidden ? 'ALREADY_HIDDEN' : 'NOT_HIDDEN');
+    }
+
+    return await auditLogRepository.recordAction((tx) => operationRepository.setHidden(operationId, hidden, tx), {
+      actorId: actor.id,
+      action: hidden ? 'operation.hide' : 'operation.unhide',
+      targetType: 'operation',
+      targetId: operationId,
+      reason,
+      metadata: { discussionId: operation.discussionId, authorId: operation.authorId },
+    });
+  }
+
+  async function auditLog(filter: AuditLogFilter, options: { limit: number; cursor?: string }) {
+    return await auditLogRepository.list(filter, options);
+  }
+
+  return {
+    suspendUser,
+    banUser,
+    reinstateUser,
+    changeRole,
+    setDiscussionLocked,
+    reassignDiscussion,
+    deleteDiscussion,
+    setOperationHidden,
+    auditLog,
+  };
+}
+
+export default makeModerationService;
@@ -0,0 +1,102 @@
+import { getOperator } from '../models';
+import type { INotificationRepository, NotificationItem, NotificationListOptions } from '../models';
+
+type Reply = { id: string; discussionId: string; parentId: string | null; authorId: string };
+
+type Describable = Pick<NotificationItem, 'actorIds' | 'replyCount' | 'lastActor' | 'discussion' | 'operation'>;
+
+/**
+ * What was replied to: `your ×2`, `your absolute value`, `your discussion 42`
+ */
+function describeTarget(notification: Describable): string {
+  const { operation, discussion } = notification;
+
+  if (!operation) return `your discussion ${discussion.startingNumberExact}`;
+  if (operation.deletedAt) return 'your deleted operation';
+
+  const operator = getOperator(operation.operationType);
+  if (!operator) return `your ${operation.operationType}`;
+
+  return operator.arity === 2
+    ? `your ${operator.symbol}${operation.operandExact}`
+    : `your ${operator.label.toLowerCase()}`;
+}
+
+/**
+ * "ada replied to your ×2", "ada replied 3 times to ...", "5 people replied to ..."
+ */
+export function describeNotification(notification: Describable): string {
+  const people = notification.actorIds.length;
+  const target = describeTarget(notification);
+
+  if (people > 1) return `${people} people replied to ${target}`;
+
+  const who = notification.lastActor.username;
+  return notification.replyCount > 1
+    ? `${who} replied ${notification.replyCount} times to ${target}`
+    : `${who} replied to ${target}`;
+}
+
+export function makeNotificationService(notificationRepository: INotificationRepository) {
+  /**
+   * Tells the author of whatever `reply` answers (the parent operation, or the
+   * discussion for root-level replies). Nobody is told about their own
+   * replies or about replies in discussions they muted. Best effort: failures
+   * are logged and never fail the reply itself.
+   */
+  async function notifyReply(reply: Reply, recipientId: string | null) {
+    if (!recipientId || recipientId === reply.authorId) return;
+
+    try {
+      if (await notificationRepository.isMuted(recipientId, reply.discussionId)) return;
+
+      await notificationRepository.recordReply({
+        userId: recipientId,
+        discussionId: reply.discussionId,
+        operationId: reply.parentId,
+        actorId: reply.authorId,
+        replyId: reply.id,
+      });
+    } catch (error) {
+      console.error(`Failed to record notification for reply ${reply.id}`, error);
+    }
+  }
+
+  async function list(userId: string, options: NotificationListOptions) {
+    const page = await notificationRepository.list(userId, options);
+
+    return {
+      ...page,
+      items: page.items.map((notification) => ({
+        id: notification.id,
+        discussionId: notification.discussionId,
+        operationId: notification.operationId,
+        message: describeNotification(notification),
+        replyCount: notification.replyCount,
+        actorCount: notification.actorIds.length,
+        lastActor: notification.lastActor,
+        lastReplyId: notification.lastReplyId,
+        read: notification.readAt !== null,
+        readAt: notification.readAt,
+        createdAt: notification.createdAt,
+        updatedAt: notification.updatedAt,
+      })),
+    };
+  }
+
+  async function markRead(userId: string, ids: string[] | null) {
+    const marked = await notificationRepository.markRead(userId, ids);
+    const unreadCount = await notificationRepository.countUnread(userId);
+    return { marked, unreadCount };
+  }
+
+  return {
+    notifyReply,
+    list,
+    markRead,
+    mute: notificationRepository.mute,
+    unmute: notificationRepository.unmute,
+  };
+}
+
+export default makeNotificationService;
@@ -0,0 +1,220 @@
+import { emptyFeedback, redactDeleted, withFeedback } from '../models';
+import type { IDiscussionRepository, IOperationRepository, IVoteRepository, Reaction } from '../models';
+
+export type TreeSort = 'newest' | 'oldest' | 'replies' | 'best';
+
+export const TREE_SORTS: TreeSort[] = ['newest', 'oldest', 'replies', 'best'];
+export const DEFAULT_TREE_DEPTH = 5;
+export const MAX_TREE_DEPTH = 20;
+
+export type TreeNode = {
+  id: string;
+  parentId: string | null;
+  // Null for deleted and hidden operations, which only keep their place and result
+  operationType: string | null;
+  operand: number | null;
+  operandExact: string | null;
+  result: number;
+  resultExact: string;
+  resultApproximate: boolean;
+  invalidReason: string | null;
+  deleted: boolean;
+  hidden: boolean;
+  depth: number;
+  author: { id: string; username: string } | null;
+  createdAt: Date;
+  replyCount: number;
+  upvotes: number;
+  downvotes: number;
+  reactions: Record<Reaction, number>;
+  children: TreeNode[];
+  // Set when the node has replies that were cut off by maxDepth
+  cursor: string | null;
+};
+
+export type TreeRoot = {
+  discussionId: string;
+  startingNumber: number;
+  startingNumberExact: string;
+  replyCount: number;
+  children: TreeNode[];
+};
+
+/**
+ * Cursors are opaque to clients: a base64url-encoded pointer to the operation
+ * whose subtree should be loaded next.
+ */
+export function encodeTreeCursor(operationId: string): string {
+  return Buffer.from(JSON.stringify({ op: operationId })).toString('base64url');
+}
+
+export function decodeTreeCursor(cursor: string): string | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof decoded?.op === 'string' ? decoded.op : null;
+  } catch {
+    return null;
+  }
+}
+
+// z for 95% confidence
+const WILSON_Z = 1.96;
+
+/**
+ * Lower bound of the Wilson score interval for the share of upvotes: how good
+ * an operation is at least, given how few votes it may have. One upvote out of
+ * one ranks below 40 out of 50, and no votes at all rank at 0.
+ */
+export function wilsonScore(upvotes: number, downvotes: number): number {
+  const total = upvotes + downvotes;
+  if (total === 0) return 0;
+
+  const share = upvotes / total;
+  const z2 = WILSON_Z * WILSON_Z;
+
+  return (
+    (share + z2 / (2 * total) - WILSON_Z * Math.sqrt((share * (1 - share) + z2 / (4 * total)) / total)) /
+    (1 + z2 / total)
+  );
+}
+
+function compareSiblings(sort: TreeSort) {
+  return (a: TreeNode, b: TreeNode) => {
+    switch (sort) {
+      case 'oldest':
+        return a.createdAt.getTime() - b.createdAt.getTime();
+      case 'replies':
+        return b.replyCount - a.replyCount || b.createdAt.getTime() - a.createdAt.getTime();
+      case 'best':
+        return (
+          wilsonScore(b.upvotes, b.downvotes) - wilsonScore(a.upvotes, a.downvotes) ||
+          b.createdAt.getTime() - a.createdAt.getTime()
+        );
+      case 'newest':
+      default:
+        return b.createdAt.getTime() - a.createdAt.getTime();
+    }
+  };
+}
+
+/**
+ * Nests a flat list of operations under their parents.
+ * Nodes on the `maxDepth` boundary keep their reply count and get a cursor
+ * instead of children.
+ */
+export function buildTree(
+  operations: any[],
+  options: { rootId: string | null; maxDepth: number; sort: TreeSort }
+): TreeNode[] {
+  const byParent = new Map<string | null, TreeNode[]>();
+
+  for (const stored of operations) {
+    const operation = redactDeleted(stored);
+    const node: TreeNode = {
+      id: operation.id,
+      parentId: operation.parentId,
+      operationType: operation.operationType,
+      operand: operation.operand,
+      operandExact: operation.operandExact,
+      result: operation.result,
+      resultExact: operation.resultExact,
+      resultApproximate: operation.resultApproximate,
+      invalidReason: operation.invalidReason ?? null,
+      deleted: Boolean(operation.deletedAt),
+      hidden: Boolean(operation.hiddenAt),
+      depth: operation.depth,
+      author: operation.author ? { id: operation.author.id, username: operation.author.username } : null,
+      createdAt: new Date(operation.createdAt),
+      replyCount: operation._count?.children ?? 0,
+      upvotes: operation.upvotes ?? 0,
+      downvotes: operation.downvotes ?? 0,
+      reactions: operation.reactions ?? emptyFeedback().reactions,
+      children: [],
+      cursor: null,
+    };
+
+    const siblings = byParent.get(node.parentId) ?? [];
+    siblings.push(node);
+    byParent.set(node.parentId, siblings);
+  }
+
+  const attach = (parentId: string | null): TreeNode[] => {
+    const children = byParent.get(parentId) ?? [];
+    children.sort(compareSiblings(options.sort));
+
+    for (const child of children) {
+      if (child.depth < options.maxDepth) {
+        child.children = attach(child.id);
+      } else if (child.replyCount > 0) {
+        child.cursor = encodeTreeCursor(child.id);
+      }
+    }
+
+    return children;
+  };
+
+  return attach(options.rootId);
+}
+
+export function makeTreeService(
+  discussionRepository: IDiscussionRepository,
+  operationRepository: IOperationRepository,
+  voteRepository: IVoteRepository
+) {
+  /**
+   * Whole tree, rooted at the discussion's starting number.
+   * Returns null when the discussion does not exist.
+   */
+  async function getDiscussionTree(
+    discussionId: string,
+    options: { maxDepth: number; sort: TreeSort }
+  ): Promise<TreeRoot | null> {
+    const discussion = await discussionRepository.findTreeRoot(discussionId);
+    if (!discussion) return null;
+
+    const operations = await operationRepository.findTreeNodes(discussionId, { maxDepth: options.maxDepth });
+    const children = buildTree(operations, { rootId: null, ...options });
+
+    return {
+      discussionId: discussion.id,
+      startingNumber: discussion.startingNumber,
+      startingNumberExact: discussion.startingNumberExact,
+      replyCount: children.length,
+      children,
+    };
+  }
+
+  /**
+   * Lazy-loads the subtree below the operation a cursor points at.
+   * `maxDepth` is relative to that operation. Returns null when the cursor
+   * does not point into this discussion.
+   */
+  async function getSubtree(
+    discussionId: string,
+    cursor: string,
+    options: { maxDepth: number; sort: TreeSort }
+  ): Promise<TreeNode | null> {
+    const operationId = decodeTreeCursor(cursor);
+    if (!operationId) return null;
+
+    const operation = await operationRepository.findById(operationId);
+    if (!operation || operation.discussionId !== discussionId || operation.discussion?.deletedAt) return null;
+
+    const descendants = await operationRepository.findTreeNodes(discussionId, {
+      under: operation,
+      maxDepth: operation.depth + options.maxDepth,
+    });
+
+    const [withCounts] = withFeedback([operation], await voteRepository.countFor([operation.id]));
+    const [root] = buildTree(
+      [{ ...withCounts, _count: { children: operation.children.length } }, ...descendants],
+      { rootId: operation.parentId, maxDepth: operation.depth + options.maxDepth, sort: options.sort }
+    ).filter((node) => node.id === operation.id);
+
+    return root ?? null;
+  }
+
+  return { getDiscussionTree, getSubtree };
+}
+
+export default makeTreeService;